@@ -0,0 +1,1306 @@
+/**
+ * Unit tests for AI providers against a local mock server or a stubbed fetch
+ */
+
+import { describe, it, expect, afterEach, beforeEach, jest } from "@jest/globals";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AIConfig } from "../services/ai/config.js";
+import { AIProviderFactory } from "../services/ai/factory.js";
+import {
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+  OpenAICompatibleProvider,
+} from "../services/ai/providers/openai-compatible.provider.js";
+import {
+  AzureOpenAIProvider,
+  DEFAULT_AZURE_OPENAI_API_VERSION,
+} from "../services/ai/providers/azure-openai.provider.js";
+import { BedrockProvider } from "../services/ai/providers/bedrock.provider.js";
+import { signRequest } from "../services/ai/providers/aws-sigv4.js";
+import { OpenAIProvider } from "../services/ai/providers/openai.provider.js";
+import { AnthropicProvider } from "../services/ai/providers/anthropic.provider.js";
+import { GeminiProvider } from "../services/ai/providers/gemini.provider.js";
+import { AUDIT_RESULT_SCHEMA } from "../config/audit-schema.js";
+import { createIdleTimeout, readServerSentEvents } from "../services/ai/sse.js";
+import { auditFilesWithConcurrency, clearProviderCache } from "../services/ai/index.js";
+import type { SchedulerStats } from "../services/ai/scheduler.js";
+import { setLogQuietMode } from "../utils/logger.js";
+import { DEFAULT_CONFIG, type ProjectConfig } from "../types/index.js";
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+interface MockResponse {
+  status?: number;
+  body: unknown;
+}
+
+/**
+ * Start a mock server that records requests and answers with `respond(req)`.
+ */
+const withMockServer = async (
+  respond: (req: RecordedRequest) => MockResponse,
+  run: (origin: string) => Promise<void>,
+): Promise<RecordedRequest[]> => {
+  const requests: RecordedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const recorded = { method: req.method, url: req.url, headers: req.headers, body };
+      requests.push(recorded);
+      const reply = respond(recorded);
+      res.writeHead(reply.status ?? 200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await run(`http://127.0.0.1:${port}`);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+  return requests;
+};
+
+const completion = (content: string): MockResponse => ({
+  body: { choices: [{ message: { content } }] },
+});
+
+/** Replace fetch with a single canned JSON response and return the spy */
+const stubFetch = (body: unknown) =>
+  jest
+    .spyOn(globalThis, "fetch")
+    .mockResolvedValue(
+      new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } }),
+    );
+
+const requestBody = (spy: ReturnType<typeof stubFetch>): Record<string, unknown> =>
+  JSON.parse(String(spy.mock.calls[0]?.[1]?.body));
+
+/** An event-stream response delivered in the given raw chunks */
+const sseResponse = (chunks: string[]): Response => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+};
+
+const collect = async (stream: AsyncIterable<string>): Promise<string[]> => {
+  const parts: string[] = [];
+  for await (const part of stream) parts.push(part);
+  return parts;
+};
+
+// ── Recorded fixtures ────────────────────────────────────────────────────────
+
+const AZURE_CHAT_COMPLETION_FIXTURE = {
+  id: "chatcmpl-AzR8cLq1XrV0w1Jm6Nq2b7s3Yk9Tt",
+  object: "chat.completion",
+  created: 1731500000,
+  model: "gpt-4o-2024-08-06",
+  prompt_filter_results: [
+    {
+      prompt_index: 0,
+      content_filter_results: {
+        hate: { filtered: false, severity: "safe" },
+        self_harm: { filtered: false, severity: "safe" },
+      },
+    },
+  ],
+  choices: [
+    {
+      index: 0,
+      finish_reason: "stop",
+      message: { role: "assistant", content: '{"status":"PASS","issues":[]}' },
+      content_filter_results: { hate: { filtered: false, severity: "safe" } },
+    },
+  ],
+  usage: { prompt_tokens: 412, completion_tokens: 11, total_tokens: 423 },
+};
+
+const BEDROCK_ANTHROPIC_FIXTURE = {
+  id: "msg_bdrk_01HqZb4vY3x8kq7Fh2mWcL5N",
+  type: "message",
+  role: "assistant",
+  model: "claude-3-5-sonnet-20241022",
+  content: [{ type: "text", text: '{"status":"FAIL","issues":[]}' }],
+  stop_reason: "end_turn",
+  stop_sequence: null,
+  usage: { input_tokens: 398, output_tokens: 12 },
+};
+
+const AWS_TEST_CREDENTIALS = {
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+};
+
+// ── OpenAI-compatible provider ───────────────────────────────────────────────
+
+describe("OpenAICompatibleProvider", () => {
+  it("posts chat completions to the configured base URL without a key", async () => {
+    let output = "";
+    const requests = await withMockServer(
+      () => completion('{"status":"PASS","issues":[]}'),
+      async (origin) => {
+        const baseURL = `${origin}/v1`;
+        const provider = new OpenAICompatibleProvider({
+          provider: "openai-compatible",
+          model: "qwen2.5-coder",
+          apiKey: "",
+          baseURL,
+        });
+        output = await provider.generateContent("system", "user");
+      },
+    );
+
+    expect(output).toBe('{"status":"PASS","issues":[]}');
+    expect(requests).toHaveLength(1);
+    expect(requests[0]?.url).toBe("/v1/chat/completions");
+    expect(requests[0]?.headers.authorization).toBeUndefined();
+    expect(JSON.parse(requests[0]?.body ?? "{}")).toMatchObject({
+      model: "qwen2.5-coder",
+      messages: [
+        { role: "system", content: "system" },
+        { role: "user", content: "user" },
+      ],
+    });
+  });
+
+  it("sends the optional API key as a bearer token", async () => {
+    const requests = await withMockServer(
+      () => completion("ok"),
+      async (origin) => {
+        const baseURL = `${origin}/v1`;
+        await new OpenAICompatibleProvider({
+          provider: "openai-compatible",
+          model: "m",
+          apiKey: "secret",
+          baseURL,
+        }).generateContent("s", "u");
+      },
+    );
+
+    expect(requests[0]?.headers.authorization).toBe("Bearer secret");
+  });
+
+  it("discovers the model from /models once for concurrent calls", async () => {
+    const requests = await withMockServer(
+      (req) =>
+        req.url === "/v1/models"
+          ? { body: { object: "list", data: [{ id: "llama3.1:8b" }, { id: "mistral" }] } }
+          : completion("ok"),
+      async (origin) => {
+        const baseURL = `${origin}/v1`;
+        const provider = new OpenAICompatibleProvider({
+          provider: "openai-compatible",
+          model: "",
+          apiKey: "",
+          baseURL,
+        });
+        await Promise.all([provider.generateContent("s", "a"), provider.generateContent("s", "b")]);
+        expect(await provider.resolveModel()).toBe("llama3.1:8b");
+      },
+    );
+
+    expect(requests.filter((req) => req.url === "/v1/models")).toHaveLength(1);
+    const completions = requests.filter((req) => req.url === "/v1/chat/completions");
+    expect(completions.map((req) => JSON.parse(req.body).model)).toEqual([
+      "llama3.1:8b",
+      "llama3.1:8b",
+    ]);
+  });
+
+  it("fails clearly when the server has no models", async () => {
+    await withMockServer(
+      () => ({ body: { data: [] } }),
+      async (origin) => {
+        const baseURL = `${origin}/v1`;
+        const provider = new OpenAICompatibleProvider({
+          provider: "openai-compatible",
+          model: "",
+          apiKey: "",
+          baseURL,
+        });
+        await expect(provider.resolveModel()).rejects.toThrow("No models available");
+      },
+    );
+  });
+
+  it("surfaces HTTP errors with status and body", async () => {
+    await withMockServer(
+      () => ({ status: 404, body: { error: "model not found" } }),
+      async (origin) => {
+        const baseURL = `${origin}/v1`;
+        const provider = new OpenAICompatibleProvider({
+          provider: "openai-compatible",
+          model: "missing",
+          apiKey: "",
+          baseURL,
+        });
+        await expect(provider.generateContent("s", "u")).rejects.toThrow(
+          /OpenAI-compatible API error: 404.*model not found/,
+        );
+      },
+    );
+  });
+});
+
+// ── Azure OpenAI provider ────────────────────────────────────────────────────
+
+describe("AzureOpenAIProvider", () => {
+  it("routes to the deployment with api-version and api-key header", async () => {
+    let output = "";
+    const requests = await withMockServer(
+      () => ({ body: AZURE_CHAT_COMPLETION_FIXTURE }),
+      async (origin) => {
+        output = await new AzureOpenAIProvider({
+          provider: "azure-openai",
+          model: "gpt4o-review",
+          apiKey: "azure-key",
+          baseURL: `${origin}/`,
+          apiVersion: "2024-06-01",
+        }).generateContent("system", "user");
+      },
+    );
+
+    expect(output).toBe('{"status":"PASS","issues":[]}');
+    expect(requests[0]?.url).toBe(
+      "/openai/deployments/gpt4o-review/chat/completions?api-version=2024-06-01",
+    );
+    expect(requests[0]?.headers["api-key"]).toBe("azure-key");
+    expect(requests[0]?.headers.authorization).toBeUndefined();
+    expect(JSON.parse(requests[0]?.body ?? "{}")).not.toHaveProperty("model");
+  });
+
+  it("surfaces Azure errors", async () => {
+    await withMockServer(
+      () => ({ status: 404, body: { error: { code: "DeploymentNotFound" } } }),
+      async (origin) => {
+        const provider = new AzureOpenAIProvider({
+          provider: "azure-openai",
+          model: "missing",
+          apiKey: "azure-key",
+          baseURL: origin,
+        });
+        await expect(provider.generateContent("s", "u")).rejects.toThrow(
+          /Azure OpenAI API error: 404.*DeploymentNotFound/,
+        );
+      },
+    );
+  });
+});
+
+// ── AWS Bedrock provider ─────────────────────────────────────────────────────
+
+describe("signRequest", () => {
+  // AWS SigV4 test suite: get-vanilla and get-vanilla-query-order-key-case
+  const options = {
+    service: "service",
+    region: "us-east-1",
+    credentials: AWS_TEST_CREDENTIALS,
+    date: new Date("2015-08-30T12:36:00Z"),
+  };
+
+  it("matches the AWS reference signatures", () => {
+    expect(
+      signRequest(
+        { method: "GET", url: "https://example.amazonaws.com/", headers: {}, body: "" },
+        options,
+      ),
+    ).toEqual({
+      "x-amz-date": "20150830T123600Z",
+      authorization:
+        "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, " +
+        "SignedHeaders=host;x-amz-date, " +
+        "Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31",
+    });
+
+    const sorted = signRequest(
+      {
+        method: "GET",
+        url: "https://example.amazonaws.com/?Param2=value2&Param1=value1",
+        headers: {},
+        body: "",
+      },
+      options,
+    );
+    expect(sorted.authorization).toContain(
+      "Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500",
+    );
+  });
+
+  it("signs the session token for temporary credentials", () => {
+    const headers = signRequest(
+      { method: "GET", url: "https://example.amazonaws.com/", headers: {}, body: "" },
+      { ...options, credentials: { ...AWS_TEST_CREDENTIALS, sessionToken: "session" } },
+    );
+    expect(headers["x-amz-security-token"]).toBe("session");
+    expect(headers.authorization).toContain("SignedHeaders=host;x-amz-date;x-amz-security-token");
+  });
+});
+
+describe("BedrockProvider", () => {
+  it("invokes Anthropic models with a signed Messages payload", async () => {
+    let output = "";
+    const requests = await withMockServer(
+      () => ({ body: BEDROCK_ANTHROPIC_FIXTURE }),
+      async (origin) => {
+        output = await new BedrockProvider({
+          provider: "bedrock",
+          model: "anthropic.claude-3-5-sonnet-20241022-v2:0",
+          apiKey: "",
+          baseURL: origin,
+          region: "eu-central-1",
+          credentials: AWS_TEST_CREDENTIALS,
+        }).generateContent("system", "user");
+      },
+    );
+
+    expect(output).toBe('{"status":"FAIL","issues":[]}');
+    expect(requests[0]?.url).toBe("/model/anthropic.claude-3-5-sonnet-20241022-v2%3A0/invoke");
+    expect(requests[0]?.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-central-1\/bedrock\/aws4_request, SignedHeaders=accept;content-type;host;x-amz-date, Signature=[0-9a-f]{64}$/,
+    );
+    expect(JSON.parse(requests[0]?.body ?? "{}")).toEqual({
+      anthropic_version: "bedrock-2023-05-31",
+      system: "system",
+      messages: [{ role: "user", content: "user" }],
+      temperature: 0.2,
+      max_tokens: 2048,
+    });
+  });
+
+  it("rejects non-Anthropic models before sending a request", async () => {
+    const provider = new BedrockProvider({
+      provider: "bedrock",
+      model: "meta.llama3-70b-instruct-v1:0",
+      apiKey: "",
+      region: "us-east-1",
+      credentials: AWS_TEST_CREDENTIALS,
+    });
+    await expect(provider.generateContent("s", "u")).rejects.toThrow(
+      "only Anthropic Claude models are supported",
+    );
+  });
+});
+
+// ── Structured output ────────────────────────────────────────────────────────
+
+describe("generateStructuredContent", () => {
+  const structured = '{"status":"PASS","message":"","suggestion":"","issues":[]}';
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("OpenAI sends the audit schema as a strict json_schema response format", async () => {
+    const spy = stubFetch({ choices: [{ message: { content: structured } }] });
+    const provider = new OpenAIProvider({ provider: "openai", model: "gpt-4o", apiKey: "k" });
+
+    await expect(provider.generateStructuredContent("s", "u", AUDIT_RESULT_SCHEMA)).resolves.toBe(
+      structured,
+    );
+    expect(requestBody(spy).response_format).toEqual({
+      type: "json_schema",
+      json_schema: {
+        name: "audit_result",
+        description: AUDIT_RESULT_SCHEMA.description,
+        schema: AUDIT_RESULT_SCHEMA.schema,
+        strict: true,
+      },
+    });
+  });
+
+  it("Anthropic forces the audit tool and returns its input as JSON", async () => {
+    const input = { status: "FAIL", message: "", suggestion: "", issues: [] };
+    const spy = stubFetch({
+      content: [{ type: "tool_use", id: "toolu_01", name: "audit_result", input }],
+    });
+    const provider = new AnthropicProvider({
+      provider: "anthropic",
+      model: "claude-sonnet-4.5",
+      apiKey: "k",
+    });
+
+    const text = await provider.generateStructuredContent("s", "u", AUDIT_RESULT_SCHEMA);
+    expect(JSON.parse(text)).toEqual(input);
+    expect(requestBody(spy)).toMatchObject({
+      tools: [{ name: "audit_result", input_schema: AUDIT_RESULT_SCHEMA.schema }],
+      tool_choice: { type: "tool", name: "audit_result" },
+    });
+  });
+
+  it("Anthropic returns an empty string when the tool was not called", async () => {
+    stubFetch({ content: [{ type: "text", text: "I refuse" }] });
+    const provider = new AnthropicProvider({ provider: "anthropic", model: "m", apiKey: "k" });
+
+    await expect(provider.generateStructuredContent("s", "u", AUDIT_RESULT_SCHEMA)).resolves.toBe(
+      "",
+    );
+  });
+
+  it("Gemini sends a responseSchema without additionalProperties", async () => {
+    const spy = stubFetch({
+      candidates: [{ content: { role: "model", parts: [{ text: structured }] } }],
+    });
+    const provider = new GeminiProvider({
+      provider: "gemini",
+      model: "gemini-2.5-flash",
+      apiKey: "k",
+      maxTokens: 1024,
+    });
+
+    await expect(provider.generateStructuredContent("s", "u", AUDIT_RESULT_SCHEMA)).resolves.toBe(
+      structured,
+    );
+
+    const generationConfig = requestBody(spy).generationConfig as Record<string, unknown>;
+    expect(generationConfig).toMatchObject({
+      maxOutputTokens: 1024,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: "object",
+        required: ["status", "message", "suggestion", "issues"],
+        properties: { status: { type: "string", enum: ["PASS", "FAIL"] } },
+      },
+    });
+    expect(JSON.stringify(generationConfig)).not.toContain("additionalProperties");
+  });
+});
+
+// ── Streaming ────────────────────────────────────────────────────────────────
+
+describe("readServerSentEvents", () => {
+  it("parses events split across chunks, skipping comments", async () => {
+    const events = [];
+    const response = sseResponse([
+      ": keep-alive\n\nevent: ping\ndata: {}\n\nda",
+      "ta: first line\r\ndata: second line\r\n\r\n",
+      "data: no trailing blank line",
+    ]);
+    for await (const event of readServerSentEvents(response.body!)) events.push(event);
+
+    expect(events).toEqual([
+      { event: "ping", data: "{}" },
+      { event: "message", data: "first line\nsecond line" },
+      { event: "message", data: "no trailing blank line" },
+    ]);
+  });
+});
+
+describe("createIdleTimeout", () => {
+  it("forwards the parent abort reason", () => {
+    const parent = new AbortController();
+    const idle = createIdleTimeout(60_000, parent.signal);
+    parent.abort(new DOMException("deadline", "TimeoutError"));
+
+    expect(idle.signal.aborted).toBe(true);
+    expect((idle.signal.reason as Error).name).toBe("TimeoutError");
+    idle.clear();
+  });
+
+  it("aborts after the idle period without chunks", async () => {
+    const idle = createIdleTimeout(10);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(idle.signal.aborted).toBe(true);
+  });
+});
+
+describe("generateContentStream", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("OpenAI yields delta content until [DONE]", async () => {
+    const spy = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(
+        sseResponse([
+          'data: {"choices":[{"delta":{"role":"assistant","content":""}}]}\n\n',
+          'data: {"choices":[{"delta":{"content":"{\\"status\\":"}}]}\n\n',
+          'data: {"choices":[{"delta":{"content":"\\"PASS\\"}"}}]}\n\ndata: [DONE]\n\n',
+        ]),
+      );
+    const provider = new OpenAIProvider({ provider: "openai", model: "gpt-4o", apiKey: "k" });
+
+    expect(await collect(provider.generateContentStream("s", "u"))).toEqual([
+      '{"status":',
+      '"PASS"}',
+    ]);
+    expect(requestBody(spy).stream).toBe(true);
+  });
+
+  it("Anthropic yields text deltas and surfaces stream errors", async () => {
+    jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        sseResponse([
+          'event: message_start\ndata: {"type":"message_start"}\n\n',
+          'event: content_block_delta\ndata: {"delta":{"type":"text_delta","text":"Hel"}}\n\n',
+          'event: content_block_delta\ndata: {"delta":{"type":"text_delta","text":"lo"}}\n\n',
+          'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+        ]),
+      )
+      .mockResolvedValueOnce(
+        sseResponse([
+          'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+        ]),
+      );
+    const provider = new AnthropicProvider({ provider: "anthropic", model: "m", apiKey: "k" });
+
+    expect(await collect(provider.generateContentStream("s", "u"))).toEqual(["Hel", "lo"]);
+    await expect(collect(provider.generateContentStream("s", "u"))).rejects.toThrow(
+      "Anthropic API error: stream Overloaded",
+    );
+  });
+
+  it("Gemini yields the text of each streamed response", async () => {
+    const spy = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(
+        sseResponse([
+          'data: {"candidates":[{"content":{"role":"model","parts":[{"text":"{\\"status\\""}]}}]}\r\n\r\n',
+          'data: {"candidates":[{"content":{"role":"model","parts":[{"text":":\\"PASS\\"}"}]}}]}\r\n\r\n',
+        ]),
+      );
+    const provider = new GeminiProvider({
+      provider: "gemini",
+      model: "gemini-2.5-flash",
+      apiKey: "k",
+    });
+
+    expect((await collect(provider.generateContentStream("s", "u"))).join("")).toBe(
+      '{"status":"PASS"}',
+    );
+    expect(String(spy.mock.calls[0]?.[0])).toContain(":streamGenerateContent?alt=sse");
+  });
+});
+
+describe("auditFilesWithConcurrency streaming", () => {
+  const savedEnv = { ...process.env };
+  const config: ProjectConfig = {
+    ...DEFAULT_CONFIG,
+    cacheEnabled: false,
+    enableSkillsFetch: false,
+  };
+
+  beforeEach(() => {
+    Object.assign(process.env, { AI_PROVIDER: "openai", OPENAI_API_KEY: "k", AI_MODEL: "gpt-4o" });
+    delete process.env.AI_STRUCTURED_OUTPUT;
+    clearProviderCache();
+    setLogQuietMode(true);
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    clearProviderCache();
+    setLogQuietMode(false);
+    jest.restoreAllMocks();
+  });
+
+  it("assembles streamed chunks into the audit result", async () => {
+    jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(
+        sseResponse([
+          'data: {"choices":[{"delta":{"content":"{\\"status\\":\\"FAIL\\",\\"issues\\":"}}]}\n\n',
+          'data: {"choices":[{"delta":{"content":"[{\\"line\\":2,\\"severity\\":\\"INFO\\",\\"message\\":\\"m\\"}]}"}}]}\n\n',
+          "data: [DONE]\n\n",
+        ]),
+      );
+
+    const [entry] = await auditFilesWithConcurrency([{ path: "a.ts", content: "+x" }], config, 5, {
+      stream: true,
+    });
+
+    expect(entry?.result).toEqual({
+      status: "FAIL",
+      issues: [{ line: 2, severity: "INFO", message: "m" }],
+    });
+  });
+
+  it("turns unfinished files into timeout errors at the run deadline", async () => {
+    // A stream that never answers until its request is aborted
+    jest.spyOn(globalThis, "fetch").mockImplementation(
+      (_input, init) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        }),
+    );
+
+    const results = await auditFilesWithConcurrency(
+      [
+        { path: "a.ts", content: "+a" },
+        { path: "b.ts", content: "+b" },
+      ],
+      config,
+      1,
+      { stream: true, timeoutMs: 50 },
+    );
+
+    expect(results.map((entry) => [entry.filePath, entry.result.errorKind])).toEqual([
+      ["a.ts", "timeout"],
+      ["b.ts", "timeout"],
+    ]);
+    // The second file is never requested once the deadline has passed
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("token usage reporting", () => {
+  const savedEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    clearProviderCache();
+    setLogQuietMode(false);
+    jest.restoreAllMocks();
+  });
+
+  it("OpenAI reports usage from completions and the final stream chunk", async () => {
+    stubFetch({
+      choices: [{ message: { content: "ok" } }],
+      usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+    });
+    const provider = new OpenAIProvider({ provider: "openai", model: "gpt-4o", apiKey: "k" });
+    const onUsage = jest.fn();
+
+    await provider.generateContent("s", "u", { onUsage });
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 120, completionTokens: 30 });
+
+    jest.restoreAllMocks();
+    const spy = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(
+        sseResponse([
+          'data: {"choices":[{"delta":{"content":"ok"}}],"usage":null}\n\n',
+          'data: {"choices":[],"usage":{"prompt_tokens":80,"completion_tokens":5}}\n\n',
+          "data: [DONE]\n\n",
+        ]),
+      );
+    const streamed = jest.fn();
+
+    expect(await collect(provider.generateContentStream("s", "u", { onUsage: streamed }))).toEqual([
+      "ok",
+    ]);
+    expect(requestBody(spy).stream_options).toEqual({ include_usage: true });
+    expect(streamed).toHaveBeenCalledWith({ promptTokens: 80, completionTokens: 5 });
+  });
+
+  it("Anthropic combines message_start and message_delta usage when streaming", async () => {
+    jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(
+        sseResponse([
+          'event: message_start\ndata: {"message":{"usage":{"input_tokens":200,"output_tokens":1}}}\n\n',
+          'event: content_block_delta\ndata: {"delta":{"type":"text_delta","text":"ok"}}\n\n',
+          'event: message_delta\ndata: {"delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":42}}\n\n',
+          'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+        ]),
+      );
+    const provider = new AnthropicProvider({ provider: "anthropic", model: "m", apiKey: "k" });
+    const onUsage = jest.fn();
+
+    await collect(provider.generateContentStream("s", "u", { onUsage }));
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 200, completionTokens: 42 });
+  });
+
+  it("Gemini reports usageMetadata", async () => {
+    stubFetch({
+      candidates: [{ content: { role: "model", parts: [{ text: "ok" }] } }],
+      usageMetadata: { promptTokenCount: 64, candidatesTokenCount: 8, totalTokenCount: 72 },
+    });
+    const provider = new GeminiProvider({ provider: "gemini", model: "m", apiKey: "k" });
+    const onUsage = jest.fn();
+
+    await provider.generateContent("s", "u", { onUsage });
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 64, completionTokens: 8 });
+  });
+
+  it("auditFilesWithConcurrency prices each file's usage with the configured table", async () => {
+    Object.assign(process.env, { AI_PROVIDER: "openai", OPENAI_API_KEY: "k", AI_MODEL: "gpt-4o" });
+    clearProviderCache();
+    setLogQuietMode(true);
+    stubFetch({
+      choices: [{ message: { content: '{"status":"PASS","issues":[]}' } }],
+      usage: { prompt_tokens: 1000, completion_tokens: 100 },
+    });
+    const config: ProjectConfig = {
+      ...DEFAULT_CONFIG,
+      cacheEnabled: false,
+      enableSkillsFetch: false,
+      ai: { ...DEFAULT_CONFIG.ai, pricing: { "gpt-4o": { input: 5, output: 20 } } },
+    };
+
+    const [entry] = await auditFilesWithConcurrency([{ path: "a.ts", content: "+x" }], config, 5);
+
+    expect(entry?.usage).toEqual([
+      {
+        provider: "openai",
+        model: "gpt-4o",
+        requests: 1,
+        promptTokens: 1000,
+        completionTokens: 100,
+        estimatedCost: 0.007,
+      },
+    ]);
+  });
+
+  it("auditFilesWithConcurrency skips files once the run budget is spent", async () => {
+    Object.assign(process.env, { AI_PROVIDER: "openai", OPENAI_API_KEY: "k", AI_MODEL: "gpt-4o" });
+    clearProviderCache();
+    setLogQuietMode(true);
+    const spy = stubFetch({
+      choices: [{ message: { content: '{"status":"PASS","issues":[]}' } }],
+      usage: { prompt_tokens: 900, completion_tokens: 200 },
+    });
+    const config: ProjectConfig = {
+      ...DEFAULT_CONFIG,
+      cacheEnabled: false,
+      enableSkillsFetch: false,
+      ai: { ...DEFAULT_CONFIG.ai, maxTokensPerRun: 1000 },
+    };
+    const skipped: Array<{ path: string; reason: string }> = [];
+
+    const results = await auditFilesWithConcurrency(
+      [
+        { path: "a.ts", content: "+a" },
+        { path: "b.ts", content: "+b" },
+        { path: "c.ts", content: "+c" },
+      ],
+      config,
+      1,
+      { onSkipped: (item) => skipped.push(item) },
+    );
+
+    expect(results.map((entry) => entry.filePath)).toEqual(["a.ts"]);
+    expect(skipped).toEqual([
+      {
+        path: "b.ts",
+        reason: "AI budget exhausted: 1,100 of 1,000 tokens used (ai.maxTokensPerRun)",
+      },
+      {
+        path: "c.ts",
+        reason: "AI budget exhausted: 1,100 of 1,000 tokens used (ai.maxTokensPerRun)",
+      },
+    ]);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("auditFilesWithConcurrency review modes", () => {
+  const savedEnv = { ...process.env };
+  const config: ProjectConfig = {
+    ...DEFAULT_CONFIG,
+    cacheEnabled: false,
+    enableSkillsFetch: false,
+  };
+  const completion = (content: unknown): Response =>
+    new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(content) } }] }), {
+      headers: { "Content-Type": "application/json" },
+    });
+
+  beforeEach(() => {
+    Object.assign(process.env, { AI_PROVIDER: "openai", OPENAI_API_KEY: "k", AI_MODEL: "gpt-4o" });
+    delete process.env.AI_STRUCTURED_OUTPUT;
+    clearProviderCache();
+    setLogQuietMode(true);
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    clearProviderCache();
+    setLogQuietMode(false);
+    jest.restoreAllMocks();
+  });
+
+  it("reviews related files in one prompt and splits the result per file", async () => {
+    const spy = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        completion({
+          files: [
+            { path: "src/a.ts", status: "PASS", issues: [] },
+            {
+              path: "src/b.ts",
+              status: "FAIL",
+              issues: [{ line: 2, severity: "WARNING", message: "m" }],
+            },
+          ],
+        }),
+      )
+      .mockResolvedValueOnce(completion({ status: "PASS", issues: [] }));
+
+    const results = await auditFilesWithConcurrency(
+      [
+        { path: "src/a.ts", content: '+import { b } from "./b";' },
+        { path: "src/b.ts", content: "+export const b = 1;" },
+        { path: "docs/c.md", content: "+text" },
+      ],
+      config,
+      1,
+      { batch: true },
+    );
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    const firstPrompt = JSON.stringify(requestBody(spy));
+    expect(firstPrompt).toContain("### FILE: src/a.ts");
+    expect(firstPrompt).toContain("### FILE: src/b.ts");
+    expect(
+      results.map((entry) => [entry.filePath, entry.result.status, entry.batchedWith]),
+    ).toEqual([
+      ["src/a.ts", "PASS", ["src/b.ts"]],
+      ["src/b.ts", "FAIL", ["src/a.ts"]],
+      ["docs/c.md", "PASS", undefined],
+    ]);
+  });
+
+  it("reviews an oversized patch in chunks and merges the results", async () => {
+    const spy = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        completion({ status: "FAIL", issues: [{ line: 2, severity: "WARNING", message: "a" }] }),
+      )
+      .mockResolvedValueOnce(
+        completion({ status: "FAIL", issues: [{ line: 2, severity: "INFO", message: "b" }] }),
+      );
+    const patch = ["@@ -1,1 +1,1 @@", "+first();", "@@ -9,1 +9,1 @@", "+second();"].join("\n");
+
+    const [entry] = await auditFilesWithConcurrency([{ path: "a.ts", content: patch }], config, 5, {
+      maxCharsPerChunk: 30,
+    });
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(String(spy.mock.calls[1]?.[1]?.body)).toContain("part 2 of 2");
+    expect(entry?.chunks).toBe(2);
+    expect(entry?.result.issues).toEqual([
+      { line: 2, severity: "WARNING", message: "a" },
+      { line: 4, severity: "INFO", message: "b" },
+    ]);
+  });
+
+  it("reviews each file with every ensemble member and keeps agreed issues", async () => {
+    process.env.ANTHROPIC_API_KEY = "a";
+    const issue = { line: 2, severity: "WARNING", message: "Null dereference" };
+    const spy = jest.spyOn(globalThis, "fetch").mockImplementation(async (input) =>
+      String(input).includes("anthropic")
+        ? new Response(
+            JSON.stringify({
+              content: [
+                { type: "text", text: JSON.stringify({ status: "FAIL", issues: [issue] }) },
+              ],
+            }),
+            { headers: { "Content-Type": "application/json" } },
+          )
+        : completion({
+            status: "FAIL",
+            issues: [issue, { line: 9, severity: "INFO", message: "Rename variable" }],
+          }),
+    );
+
+    const [entry] = await auditFilesWithConcurrency([{ path: "a.ts", content: "+x" }], config, 5, {
+      ensemble: ["openai", "anthropic"],
+    });
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(entry?.result.issues).toEqual([
+      {
+        ...issue,
+        agreement: { models: ["openai/gpt-4o", expect.stringMatching(/^anthropic\//)], total: 2 },
+      },
+    ]);
+  });
+
+  it("verifies FAIL results and keeps only confirmed issues", async () => {
+    const spy = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        completion({
+          status: "FAIL",
+          issues: [
+            { line: 2, severity: "CRITICAL", message: "Eval of user input" },
+            { line: 3, severity: "WARNING", message: "Missing await" },
+            { line: 40, severity: "WARNING", message: "Hallucinated line" },
+          ],
+        }),
+      )
+      .mockResolvedValueOnce(
+        completion({
+          verdicts: [
+            { index: 0, confirmed: true, confidence: 0.95, reason: "eval(req.body)" },
+            { index: 1, confirmed: false, confidence: 0.2, reason: "awaited on the next line" },
+          ],
+        }),
+      );
+
+    const [entry] = await auditFilesWithConcurrency(
+      [{ path: "a.ts", content: "@@ -1,2 +1,3 @@\n+eval(req.body);\n+run();" }],
+      config,
+      5,
+      { verify: true },
+    );
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    const verificationPrompt = String(spy.mock.calls[1]?.[1]?.body);
+    expect(verificationPrompt).toContain("> 2 | +eval(req.body);");
+    expect(verificationPrompt).not.toContain("Hallucinated line");
+    expect(entry?.result.issues).toEqual([
+      { line: 2, severity: "CRITICAL", message: "Eval of user input", confidence: 0.95 },
+    ]);
+  });
+
+  it("re-audits files the batch response left out on their own", async () => {
+    const spy = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        completion({ files: [{ path: "src/a.ts", status: "PASS", issues: [] }] }),
+      )
+      .mockResolvedValueOnce(completion({ status: "PASS", issues: [] }));
+
+    const results = await auditFilesWithConcurrency(
+      [
+        { path: "src/a.ts", content: "+a" },
+        { path: "src/b.ts", content: "+b" },
+      ],
+      config,
+      5,
+      { batch: true },
+    );
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(String(spy.mock.calls[1]?.[1]?.body)).not.toContain("### FILE:");
+    expect(results.map((entry) => [entry.filePath, entry.result.status])).toEqual([
+      ["src/a.ts", "PASS"],
+      ["src/b.ts", "PASS"],
+    ]);
+  });
+
+  it("honours Retry-After on 429s and reports scheduler stats", async () => {
+    const spy = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        new Response("slow down", {
+          status: 429,
+          statusText: "Too Many Requests",
+          headers: { "retry-after-ms": "20" },
+        }),
+      )
+      .mockImplementation(async () => completion({ status: "PASS", issues: [] }));
+    const stats: SchedulerStats[] = [];
+
+    const results = await auditFilesWithConcurrency(
+      [
+        { path: "a.ts", content: "+a" },
+        { path: "b.ts", content: "+b" },
+      ],
+      config,
+      4,
+      { onSchedulerStats: (entry) => stats.push(entry) },
+    );
+
+    expect(spy).toHaveBeenCalledTimes(3);
+    expect(results.map((entry) => entry.result.status)).toEqual(["PASS", "PASS"]);
+    expect(stats).toHaveLength(1);
+    expect(stats[0]).toMatchObject({ tasks: 2, maxConcurrency: 4, minConcurrency: 2 });
+    expect(stats[0]?.rateLimited).toBe(1);
+  });
+
+  it("routes around a failing primary once its circuit opens and records the provider", async () => {
+    process.env.ANTHROPIC_API_KEY = "a";
+    const spy = jest.spyOn(globalThis, "fetch").mockImplementation(async (input) =>
+      String(input).includes("anthropic")
+        ? new Response(
+            JSON.stringify({
+              content: [{ type: "text", text: JSON.stringify({ status: "PASS", issues: [] }) }],
+            }),
+            { headers: { "Content-Type": "application/json" } },
+          )
+        : new Response("down", {
+            status: 503,
+            statusText: "Service Unavailable",
+            headers: { "retry-after-ms": "1" },
+          }),
+    );
+    const calls = (host: string): number =>
+      spy.mock.calls.filter(([input]) => String(input).includes(host)).length;
+
+    const results = await auditFilesWithConcurrency(
+      ["a.ts", "b.ts", "c.ts", "d.ts"].map((path) => ({ path, content: "+x" })),
+      {
+        ...config,
+        ai: { fallbackProvider: "anthropic", circuitBreaker: { failureThreshold: 2 } },
+      },
+      1,
+    );
+
+    // Two files try the primary (three attempts each), the others go straight to the fallback
+    expect(calls("openai")).toBe(6);
+    expect(calls("anthropic")).toBe(4);
+    expect(results.map((entry) => entry.result.status)).toEqual(["PASS", "PASS", "PASS", "PASS"]);
+    expect(results.map((entry) => entry.providers)).toEqual(
+      Array(4).fill(["anthropic/claude-sonnet-4.5"]),
+    );
+  });
+
+  it("does not count bad requests against the primary's circuit", async () => {
+    process.env.ANTHROPIC_API_KEY = "a";
+    const spy = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        new Response("prompt too long", { status: 400, statusText: "Bad Request" }),
+      )
+      .mockImplementation(async () => completion({ status: "PASS", issues: [] }));
+
+    const results = await auditFilesWithConcurrency(
+      [
+        { path: "a.ts", content: "+a" },
+        { path: "b.ts", content: "+b" },
+      ],
+      {
+        ...config,
+        ai: { fallbackProvider: "anthropic", circuitBreaker: { failureThreshold: 1 } },
+      },
+      1,
+    );
+
+    expect(results.map((entry) => entry.result.status)).toEqual(["ERROR", "PASS"]);
+    expect(spy.mock.calls.every(([input]) => String(input).includes("openai"))).toBe(true);
+    expect(results[1]?.providers).toEqual(["openai/gpt-4o"]);
+  });
+
+  it("stops calling the primary once its circuit opens when there is no fallback", async () => {
+    const spy = jest.spyOn(globalThis, "fetch").mockImplementation(
+      async () =>
+        new Response("down", {
+          status: 503,
+          statusText: "Service Unavailable",
+          headers: { "retry-after-ms": "1" },
+        }),
+    );
+
+    const results = await auditFilesWithConcurrency(
+      ["a.ts", "b.ts", "c.ts"].map((path) => ({ path, content: "+x" })),
+      { ...config, ai: { circuitBreaker: { failureThreshold: 1 } } },
+      1,
+    );
+
+    // One file's attempts trip the breaker; the others fail fast without a request
+    expect(spy).toHaveBeenCalledTimes(3);
+    expect(results.map((entry) => entry.result.errorKind)).toEqual([
+      "provider",
+      "circuit-open",
+      "circuit-open",
+    ]);
+  });
+
+  it("reviews only changed hunks and re-bases cached hunk issues", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "mp-sentinel-hunks-"));
+    const cachedConfig: ProjectConfig = { ...config, cacheEnabled: true, cache: { directory } };
+    const hunk = (start: number, body: string): string[] => [
+      `@@ -${start},1 +${start},1 @@`,
+      `-old${start}`,
+      `+${body}`,
+    ];
+    try {
+      const spy = jest
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(
+          completion({
+            status: "FAIL",
+            issues: [{ line: 6, severity: "WARNING", message: "unsafe eval" }],
+          }),
+        )
+        .mockResolvedValueOnce(completion({ status: "PASS", issues: [] }));
+
+      const first = [...hunk(1, "a();"), ...hunk(20, "eval(x);"), ...hunk(40, "c();")];
+      await auditFilesWithConcurrency([{ path: "a.ts", content: first.join("\n") }], cachedConfig);
+
+      // The first hunk changed and grew; the eval hunk moved down by one line
+      const second = [
+        "@@ -1,1 +1,2 @@",
+        "-old1",
+        "+a();",
+        "+a2();",
+        ...hunk(20, "eval(x);"),
+        ...hunk(40, "c();"),
+      ];
+      const [entry] = await auditFilesWithConcurrency(
+        [{ path: "a.ts", content: second.join("\n") }],
+        cachedConfig,
+      );
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      const secondPrompt = String(spy.mock.calls[1]?.[1]?.body);
+      expect(secondPrompt).toContain("a2();");
+      expect(secondPrompt).not.toContain("eval(x);");
+      expect(entry?.cachedHunks).toBe(2);
+      expect(entry?.result).toMatchObject({
+        status: "FAIL",
+        issues: [{ line: 7, message: "unsafe eval" }],
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps the first hunk cached when a later hunk changes the file's blob hash", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "mp-sentinel-hunks-"));
+    const cachedConfig: ProjectConfig = { ...config, cacheEnabled: true, cache: { directory } };
+    const patch = (index: string, lastCall: string): string =>
+      [
+        "diff --git a/src/a.ts b/src/a.ts",
+        `index ${index} 100644`,
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -1,2 +1,2 @@ export const run = () => {",
+        " const a = 1;",
+        "-eval(a);",
+        "+evaluate(a);",
+        "@@ -20,2 +20,2 @@ export const done = () => {",
+        " const b = 2;",
+        `-cleanup();`,
+        `+${lastCall}`,
+      ].join("\n");
+    try {
+      const spy = jest
+        .spyOn(globalThis, "fetch")
+        .mockImplementation(async () => completion({ status: "PASS", issues: [] }));
+
+      await auditFilesWithConcurrency(
+        [{ path: "src/a.ts", content: patch("3b18e51..a9c2f4e", "cleanup(b);") }],
+        cachedConfig,
+      );
+      // Only the second hunk changed, which also changes the new blob hash
+      const [entry] = await auditFilesWithConcurrency(
+        [{ path: "src/a.ts", content: patch("3b18e51..7d04c1b", "cleanup(b, true);") }],
+        cachedConfig,
+      );
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      const secondPrompt = String(spy.mock.calls[1]?.[1]?.body);
+      expect(secondPrompt).toContain("cleanup(b, true);");
+      expect(secondPrompt).not.toContain("evaluate(a);");
+      expect(entry?.cachedHunks).toBe(1);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+// ── Configuration ────────────────────────────────────────────────────────────
+
+describe("AIConfig for hosted and self-hosted providers", () => {
+  const savedEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it("accepts the ollama alias without an API key", () => {
+    process.env.AI_PROVIDER = "ollama";
+    delete process.env.AI_MODEL;
+    delete process.env.OPENAI_COMPATIBLE_API_KEY;
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+
+    const config = AIConfig.fromEnvironment();
+    expect(config).toMatchObject({
+      provider: "openai-compatible",
+      model: "",
+      apiKey: "",
+      baseURL: DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+    });
+    expect(() => AIConfig.validate(config)).not.toThrow();
+    expect(AIProviderFactory.createProvider(config)).toBeInstanceOf(OpenAICompatibleProvider);
+  });
+
+  it("reads base URL, key and model from the environment", () => {
+    Object.assign(process.env, {
+      AI_PROVIDER: "openai-compatible",
+      AI_MODEL: "deepseek-coder-v2",
+      OPENAI_COMPATIBLE_BASE_URL: "http://vllm.internal:8000/v1",
+      OPENAI_COMPATIBLE_API_KEY: "token",
+    });
+
+    expect(AIConfig.fromEnvironment()).toMatchObject({
+      model: "deepseek-coder-v2",
+      apiKey: "token",
+      baseURL: "http://vllm.internal:8000/v1",
+    });
+  });
+
+  it("configures Azure OpenAI from its environment variables", () => {
+    Object.assign(process.env, {
+      AI_PROVIDER: "azure",
+      AZURE_OPENAI_API_KEY: "azure-key",
+      AZURE_OPENAI_ENDPOINT: "https://contoso.openai.azure.com",
+      AZURE_OPENAI_DEPLOYMENT: "gpt4o-review",
+    });
+    delete process.env.AI_MODEL;
+    delete process.env.AZURE_OPENAI_API_VERSION;
+
+    const config = AIConfig.fromEnvironment();
+    expect(config).toMatchObject({
+      provider: "azure-openai",
+      model: "gpt4o-review",
+      apiKey: "azure-key",
+      baseURL: "https://contoso.openai.azure.com",
+      apiVersion: DEFAULT_AZURE_OPENAI_API_VERSION,
+    });
+    expect(() => AIConfig.validate(config)).not.toThrow();
+    expect(AIProviderFactory.createProvider(config)).toBeInstanceOf(AzureOpenAIProvider);
+
+    delete process.env.AZURE_OPENAI_ENDPOINT;
+    expect(() => AIConfig.validate(AIConfig.fromEnvironment())).toThrow("AZURE_OPENAI_ENDPOINT");
+  });
+
+  it("configures Bedrock from the standard AWS environment variables", () => {
+    Object.assign(process.env, {
+      AI_PROVIDER: "bedrock",
+      AWS_ACCESS_KEY_ID: "AKIDEXAMPLE",
+      AWS_SECRET_ACCESS_KEY: "secret",
+      AWS_SESSION_TOKEN: "session",
+      AWS_REGION: "us-west-2",
+    });
+    delete process.env.AI_MODEL;
+    delete process.env.AWS_ENDPOINT_URL_BEDROCK_RUNTIME;
+
+    const config = AIConfig.fromEnvironment();
+    expect(config).toMatchObject({
+      provider: "bedrock",
+      model: "anthropic.claude-3-5-sonnet-20241022-v2:0",
+      region: "us-west-2",
+      credentials: {
+        accessKeyId: "AKIDEXAMPLE",
+        secretAccessKey: "secret",
+        sessionToken: "session",
+      },
+    });
+    expect(config.baseURL).toBeUndefined();
+    expect(() => AIConfig.validate(config)).not.toThrow();
+    expect(AIProviderFactory.createProvider(config)).toBeInstanceOf(BedrockProvider);
+
+    delete process.env.AWS_SECRET_ACCESS_KEY;
+    expect(() => AIConfig.fromEnvironment()).toThrow("AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY");
+  });
+
+  it("normalizes provider names for fallback chains", () => {
+    expect(AIConfig.parseProvider(" Ollama ")).toBe("openai-compatible");
+    expect(AIConfig.parseProvider("OPENAI")).toBe("openai");
+    expect(AIConfig.parseProvider("mistral")).toBeUndefined();
+  });
+});
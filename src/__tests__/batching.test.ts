@@ -0,0 +1,88 @@
+/**
+ * Unit tests for grouping related files into batched review prompts
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { findRelativeImports, groupRelatedFiles } from "../services/ai/batching.js";
+
+const file = (path: string, content = "", tokens = 100) => ({ path, content, tokens });
+const paths = (groups: Array<Array<{ path: string }>>): string[][] =>
+  groups.map((group) => group.map((entry) => entry.path));
+
+const limits = { maxTokens: 1000, maxFiles: 8 };
+
+// ── findRelativeImports ──────────────────────────────────────────────────────
+
+describe("findRelativeImports", () => {
+  it("resolves relative specifiers against the file's directory", () => {
+    const content = [
+      '+import { a } from "./a.js";',
+      '+export * from "../shared/b";',
+      '+const c = await import("./c.ts");',
+      '+const d = require("../d");',
+      '+import fs from "node:fs";',
+    ].join("\n");
+
+    expect(findRelativeImports("src/lib/index.ts", content)).toEqual([
+      "src/lib/a",
+      "src/shared/b",
+      "src/lib/c",
+      "src/d",
+    ]);
+  });
+});
+
+// ── groupRelatedFiles ────────────────────────────────────────────────────────
+
+describe("groupRelatedFiles", () => {
+  it("groups a file with the files it imports, including index modules", () => {
+    const groups = groupRelatedFiles(
+      [
+        file("src/api/routes.ts", 'import { db } from "../db";'),
+        file("README.md"),
+        file("src/db/index.ts"),
+      ],
+      limits,
+    );
+
+    expect(paths(groups)).toEqual([["src/api/routes.ts", "src/db/index.ts"], ["README.md"]]);
+  });
+
+  it("pairs tests with their source across directories", () => {
+    const groups = groupRelatedFiles(
+      [file("src/utils/parser.ts"), file("docs/a.md"), file("src/__tests__/parser.test.ts")],
+      limits,
+    );
+
+    expect(paths(groups)).toEqual([
+      ["src/utils/parser.ts", "src/__tests__/parser.test.ts"],
+      ["docs/a.md"],
+    ]);
+  });
+
+  it("groups files in the same directory", () => {
+    const groups = groupRelatedFiles([file("a/x.ts"), file("b/y.ts"), file("a/z.ts")], limits);
+
+    expect(paths(groups)).toEqual([["a/x.ts", "a/z.ts"], ["b/y.ts"]]);
+  });
+
+  it("stops merging at the token and file limits", () => {
+    const files = [file("a/1.ts", "", 400), file("a/2.ts", "", 400), file("a/3.ts", "", 400)];
+
+    expect(paths(groupRelatedFiles(files, limits))).toEqual([["a/1.ts", "a/2.ts"], ["a/3.ts"]]);
+    expect(paths(groupRelatedFiles(files, { maxTokens: 10_000, maxFiles: 1 }))).toEqual([
+      ["a/1.ts"],
+      ["a/2.ts"],
+      ["a/3.ts"],
+    ]);
+  });
+
+  it("prefers import relations over shared directories when space is short", () => {
+    const groups = groupRelatedFiles(
+      [file("a/x.ts", "", 500), file("a/y.ts", "", 500), file("a/z.ts", 'import "./y";', 500)],
+      limits,
+    );
+
+    expect(paths(groups)).toEqual([["a/x.ts"], ["a/y.ts", "a/z.ts"]]);
+  });
+});
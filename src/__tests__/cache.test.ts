@@ -0,0 +1,487 @@
+/**
+ * Unit tests for the audit cache: retention rules and the fs / jsonl / http backends
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ICacheBackend } from "../services/ai/types.js";
+import type { AuditResult } from "../types/index.js";
+import {
+  createCacheBackend,
+  readCachedAuditResult,
+  resolveCacheLimits,
+  validateCacheConfig,
+  writeCachedAuditResult,
+} from "../services/ai/cache.js";
+import { UserError } from "../utils/errors.js";
+import { planPrune } from "../services/ai/cache-backends/retention.js";
+import { FileSystemCacheBackend } from "../services/ai/cache-backends/fs.backend.js";
+import {
+  JSONL_CACHE_FILE,
+  JsonLinesCacheBackend,
+} from "../services/ai/cache-backends/jsonl.backend.js";
+import { HttpCacheBackend, signCacheEntry } from "../services/ai/cache-backends/http.backend.js";
+
+const HOUR = 60 * 60 * 1000;
+
+const entry = (key: string, writtenAt: number, accessedAt = writtenAt, bytes = 10) => ({
+  key,
+  bytes,
+  writtenAt,
+  accessedAt,
+});
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "mp-sentinel-cache-"));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+// ── planPrune ────────────────────────────────────────────────────────────────
+
+describe("planPrune", () => {
+  const now = 100 * HOUR;
+
+  it("expires entries written longer ago than the TTL", () => {
+    const plan = planPrune(
+      [entry("old", now - 3 * HOUR), entry("new", now - HOUR)],
+      { ttlMs: 2 * HOUR },
+      now,
+    );
+
+    expect(plan.expired.map((e) => e.key)).toEqual(["old"]);
+    expect(plan.kept.map((e) => e.key)).toEqual(["new"]);
+  });
+
+  it("evicts least recently used entries beyond maxEntries", () => {
+    const plan = planPrune(
+      [entry("a", 1, 30), entry("b", 2, 10), entry("c", 3, 20)],
+      { maxEntries: 2 },
+      now,
+    );
+
+    expect(plan.kept.map((e) => e.key)).toEqual(["a", "c"]);
+    expect(plan.evicted.map((e) => e.key)).toEqual(["b"]);
+  });
+
+  it("evicts least recently used entries beyond maxBytes", () => {
+    const plan = planPrune(
+      [entry("a", 1, 30, 60), entry("b", 2, 20, 60), entry("c", 3, 10, 10)],
+      { maxBytes: 100 },
+      now,
+    );
+
+    // "b" does not fit, so it and every older entry go
+    expect(plan.kept.map((e) => e.key)).toEqual(["a"]);
+    expect(plan.evicted.map((e) => e.key)).toEqual(["b", "c"]);
+  });
+
+  it("keeps everything without limits", () => {
+    const plan = planPrune([entry("a", 1), entry("b", 2)], {}, now);
+    expect(plan.kept).toHaveLength(2);
+    expect(plan.expired).toHaveLength(0);
+    expect(plan.evicted).toHaveLength(0);
+  });
+});
+
+// ── resolveCacheLimits ───────────────────────────────────────────────────────
+
+describe("resolveCacheLimits", () => {
+  it("defaults to a one-week TTL and a 100 MB cap", () => {
+    expect(resolveCacheLimits()).toEqual({ ttlMs: 168 * HOUR, maxBytes: 100 * 1024 * 1024 });
+  });
+
+  it("converts configured hours and megabytes", () => {
+    expect(resolveCacheLimits({ ttlHours: 2, maxSizeMb: 0.5, maxEntries: 10 })).toEqual({
+      ttlMs: 2 * HOUR,
+      maxBytes: 512 * 1024,
+      maxEntries: 10,
+    });
+  });
+});
+
+// ── Backends ─────────────────────────────────────────────────────────────────
+
+const backends: Array<[string, (dir: string, ttlMs?: number) => ICacheBackend]> = [
+  ["fs", (dir, ttlMs) => new FileSystemCacheBackend(dir, ttlMs ? { ttlMs } : {})],
+  ["jsonl", (dir, ttlMs) => new JsonLinesCacheBackend(dir, ttlMs ? { ttlMs } : {})],
+];
+
+describe.each(backends)("%s backend", (name, create) => {
+  it("stores and returns values", async () => {
+    const backend = create(directory);
+    expect(await backend.get("k1")).toBeNull();
+
+    await backend.set("k1", '{"status":"PASS"}');
+    await backend.set("k2", "second");
+
+    expect(await backend.get("k1")).toBe('{"status":"PASS"}');
+    // A fresh instance reads what the first one wrote
+    expect(await create(directory).get("k2")).toBe("second");
+  });
+
+  it("overwrites an existing key", async () => {
+    const backend = create(directory);
+    await backend.set("k", "one");
+    await backend.set("k", "two");
+
+    expect(await create(directory).get("k")).toBe("two");
+    expect((await backend.stats()).entries).toBe(1);
+  });
+
+  it("reports stats", async () => {
+    const backend = create(directory);
+    await backend.set("a", "12345");
+    await backend.set("b", "67890");
+
+    const stats = await backend.stats();
+    expect(stats.backend).toBe(name);
+    expect(stats.entries).toBe(2);
+    expect(stats.bytes).toBeGreaterThanOrEqual(10);
+    expect(stats.expired).toBe(0);
+    expect(stats.oldest).toBeLessThanOrEqual(stats.newest ?? 0);
+  });
+
+  it("reports empty stats for a missing store", async () => {
+    const stats = await create(join(directory, "missing")).stats();
+    expect(stats).toMatchObject({ entries: 0, bytes: 0, expired: 0 });
+    expect(stats.oldest).toBeUndefined();
+  });
+
+  it("clears every entry", async () => {
+    const backend = create(directory);
+    await backend.set("a", "1");
+    await backend.set("b", "2");
+
+    expect(await backend.clear()).toBe(2);
+    expect(await backend.get("a")).toBeNull();
+    expect((await create(directory).stats()).entries).toBe(0);
+  });
+});
+
+describe("FileSystemCacheBackend", () => {
+  it("ignores and prunes entries past the TTL", async () => {
+    const backend = new FileSystemCacheBackend(directory, { ttlMs: HOUR });
+    await backend.set("old", "stale");
+    await backend.set("new", "fresh");
+    const past = new Date(Date.now() - 2 * HOUR);
+    await utimes(join(directory, "old.json"), past, past);
+
+    expect((await backend.stats()).expired).toBe(1);
+    expect(await backend.get("new")).toBe("fresh");
+
+    const pruned = await backend.prune();
+    expect(pruned).toMatchObject({ expired: 1, evicted: 0, remaining: 1 });
+    expect(await readdir(directory)).toEqual(["new.json"]);
+  });
+
+  it("evicts the least recently read entries over maxEntries", async () => {
+    const backend = new FileSystemCacheBackend(directory, { maxEntries: 2 });
+    const keys = ["a", "b", "c"];
+    for (const [index, key] of keys.entries()) {
+      await backend.set(key, key);
+      // Written a, b, c, one minute apart
+      const written = new Date(Date.now() - (keys.length - index) * 60_000);
+      await utimes(join(directory, `${key}.json`), written, written);
+    }
+    // Reading "a" makes it the most recently used
+    await backend.get("a");
+
+    const pruned = await backend.prune();
+    expect(pruned).toMatchObject({ evicted: 1, remaining: 2 });
+    expect((await readdir(directory)).sort()).toEqual(["a.json", "c.json"]);
+  });
+
+  it("writes atomically without leaving temp files", async () => {
+    const backend = new FileSystemCacheBackend(directory);
+    await Promise.all(["x", "y", "z"].map((value) => backend.set("same", value)));
+
+    expect(await readdir(directory)).toEqual(["same.json"]);
+    expect(["x", "y", "z"]).toContain(await backend.get("same"));
+  });
+
+  it("removes temp files left by interrupted writes", async () => {
+    const backend = new FileSystemCacheBackend(directory);
+    const temp = join(directory, "k.json.123.abcd.tmp");
+    await writeFile(temp, "partial");
+    const past = new Date(Date.now() - 2 * HOUR);
+    await utimes(temp, past, past);
+
+    await backend.prune();
+    expect(await readdir(directory)).toEqual([]);
+  });
+});
+
+describe("JsonLinesCacheBackend", () => {
+  it("compacts superseded and expired lines on prune", async () => {
+    const backend = new JsonLinesCacheBackend(directory, { ttlMs: HOUR });
+    await backend.set("k", "one");
+    await backend.set("k", "two");
+    const stale = { key: "old", value: "v", writtenAt: Date.now() - 2 * HOUR, accessedAt: 0 };
+    await writeFile(
+      join(directory, JSONL_CACHE_FILE),
+      `${await readFile(join(directory, JSONL_CACHE_FILE), "utf-8")}${JSON.stringify(stale)}\n`,
+    );
+
+    const pruned = await new JsonLinesCacheBackend(directory, { ttlMs: HOUR }).prune();
+    expect(pruned).toMatchObject({ expired: 1, evicted: 0, remaining: 1 });
+
+    const lines = (await readFile(join(directory, JSONL_CACHE_FILE), "utf-8")).trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0] ?? "")).toMatchObject({ key: "k", value: "two" });
+  });
+
+  it("leaves the file alone when there is nothing worth compacting", async () => {
+    const backend = new JsonLinesCacheBackend(directory, { ttlMs: HOUR });
+    await backend.set("a", "1");
+    await backend.set("a", "2");
+    await backend.set("b", "3");
+
+    expect(await backend.prune()).toMatchObject({ expired: 0, evicted: 0, remaining: 2 });
+    // One superseded line is not worth a rewrite
+    const lines = (await readFile(join(directory, JSONL_CACHE_FILE), "utf-8")).trim().split("\n");
+    expect(lines).toHaveLength(3);
+  });
+
+  it("compacts only without another run's lock, taking over stale locks", async () => {
+    const backend = new JsonLinesCacheBackend(directory, { maxEntries: 1 });
+    await backend.set("a", "1");
+    await backend.set("b", "2");
+    const lock = join(directory, `${JSONL_CACHE_FILE}.lock`);
+    await writeFile(lock, "123");
+
+    expect(await backend.prune()).toMatchObject({ evicted: 0, remaining: 2 });
+
+    const past = new Date(Date.now() - 2 * HOUR);
+    await utimes(lock, past, past);
+    expect(await backend.prune()).toMatchObject({ evicted: 1, remaining: 1 });
+    expect(await readdir(directory)).toEqual([JSONL_CACHE_FILE]);
+  });
+
+  it("skips corrupted lines", async () => {
+    await writeFile(
+      join(directory, JSONL_CACHE_FILE),
+      `{"key":"torn","val\n${JSON.stringify({ key: "ok", value: "v", writtenAt: Date.now(), accessedAt: Date.now() })}\n`,
+    );
+
+    const backend = new JsonLinesCacheBackend(directory);
+    expect(await backend.get("ok")).toBe("v");
+    expect((await backend.stats()).entries).toBe(1);
+  });
+
+  it("persists reads for LRU eviction", async () => {
+    const backend = new JsonLinesCacheBackend(directory, { maxEntries: 1 });
+    await backend.set("a", "1");
+    await backend.set("b", "2");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await backend.get("a");
+
+    await backend.prune();
+    const reopened = new JsonLinesCacheBackend(directory);
+    expect(await reopened.get("a")).toBe("1");
+    expect(await reopened.get("b")).toBeNull();
+  });
+});
+
+// ── HttpCacheBackend ─────────────────────────────────────────────────────────
+
+describe("HttpCacheBackend", () => {
+  const SECRET = "shared-secret";
+  let server: Server;
+  let url: string;
+  let store: Map<string, string>;
+  let requests: Array<{ method: string; path: string; authorization?: string }>;
+
+  beforeEach(async () => {
+    store = new Map();
+    requests = [];
+    // Minimal cache server: GET/PUT /cache/<key>
+    server = createServer((req, res) => {
+      const path = req.url ?? "";
+      requests.push({
+        method: req.method ?? "",
+        path,
+        ...(req.headers.authorization && { authorization: req.headers.authorization }),
+      });
+      if (req.method === "PUT") {
+        let body = "";
+        req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+        req.on("end", () => {
+          store.set(path, body);
+          res.writeHead(201).end();
+        });
+        return;
+      }
+      const body = store.get(path);
+      if (body === undefined) {
+        res.writeHead(404).end();
+      } else {
+        res.writeHead(200, { "Content-Type": "application/json" }).end(body);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/cache/`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("round-trips signed entries with GET and PUT", async () => {
+    const backend = new HttpCacheBackend({ url, secret: SECRET, token: "t0k" });
+    expect(await backend.get("abc")).toBeNull();
+
+    await backend.set("abc", '{"status":"PASS"}');
+    expect(await backend.get("abc")).toBe('{"status":"PASS"}');
+
+    expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "GET /cache/abc",
+      "PUT /cache/abc",
+      "GET /cache/abc",
+    ]);
+    expect(requests.every((r) => r.authorization === "Bearer t0k")).toBe(true);
+    expect(JSON.parse(store.get("/cache/abc") ?? "")).toMatchObject({
+      key: "abc",
+      value: '{"status":"PASS"}',
+      signature: expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+  });
+
+  it("rejects entries whose value was tampered with", async () => {
+    const backend = new HttpCacheBackend({ url, secret: SECRET });
+    await backend.set("abc", '{"status":"FAIL"}');
+    const entry = JSON.parse(store.get("/cache/abc") ?? "");
+    store.set("/cache/abc", JSON.stringify({ ...entry, value: '{"status":"PASS"}' }));
+
+    expect(await backend.get("abc")).toBeNull();
+  });
+
+  it("rejects entries signed with another secret or served under another key", async () => {
+    await new HttpCacheBackend({ url, secret: "other" }).set("abc", "forged");
+    const backend = new HttpCacheBackend({ url, secret: SECRET });
+    expect(await backend.get("abc")).toBeNull();
+
+    await backend.set("good", "genuine");
+    store.set("/cache/victim", store.get("/cache/good") ?? "");
+    expect(await backend.get("victim")).toBeNull();
+  });
+
+  it("ignores entries past the TTL", async () => {
+    const writtenAt = Date.now() - 2 * HOUR;
+    const unsigned = { version: 1, key: "old", writtenAt, value: "stale" };
+    store.set(
+      "/cache/old",
+      JSON.stringify({ ...unsigned, signature: signCacheEntry(SECRET, unsigned) }),
+    );
+
+    expect(await new HttpCacheBackend({ url, secret: SECRET }).get("old")).toBe("stale");
+    expect(
+      await new HttpCacheBackend({ url, secret: SECRET, limits: { ttlMs: HOUR } }).get("old"),
+    ).toBeNull();
+  });
+
+  it("treats an unreachable server as a miss and fails writes", async () => {
+    await new Promise((resolve) => server.close(resolve));
+    server = createServer();
+    const backend = new HttpCacheBackend({ url, secret: SECRET, timeoutMs: 500 });
+
+    expect(await backend.get("abc")).toBeNull();
+    await expect(backend.set("abc", "v")).rejects.toThrow();
+  });
+
+  it("requires a signing secret", () => {
+    const previous = process.env.MP_SENTINEL_CACHE_SECRET;
+    delete process.env.MP_SENTINEL_CACHE_SECRET;
+    try {
+      expect(() => createCacheBackend({ backend: "http", url })).toThrow(
+        /MP_SENTINEL_CACHE_SECRET/,
+      );
+      expect(() => validateCacheConfig({ backend: "http", url })).toThrow(UserError);
+      expect(() => validateCacheConfig({ backend: "jsonl" })).not.toThrow();
+    } finally {
+      if (previous !== undefined) process.env.MP_SENTINEL_CACHE_SECRET = previous;
+    }
+  });
+});
+
+// ── Audit results ────────────────────────────────────────────────────────────
+
+describe("readCachedAuditResult", () => {
+  it("round-trips audit results through the configured backend", async () => {
+    const backend = createCacheBackend({ backend: "jsonl" }, directory);
+    const result = {
+      status: "FAIL" as const,
+      issues: [{ line: 3, severity: "WARNING" as const, message: "Unused variable" }],
+    };
+
+    await writeCachedAuditResult(backend, "key", result);
+    expect(await readCachedAuditResult(backend, "key")).toMatchObject(result);
+    expect(backend.name).toBe("jsonl");
+  });
+
+  it("treats corrupted entries as a miss", async () => {
+    const backend = createCacheBackend({}, directory);
+    await backend.set("key", "not json");
+
+    expect(await readCachedAuditResult(backend, "key")).toBeNull();
+  });
+
+  it("keeps issues a chunked review could not place unanchored", async () => {
+    const backend = new FileSystemCacheBackend(directory);
+    const issue = { line: 40, severity: "WARNING" as const, message: "Leak", anchored: false };
+
+    await writeCachedAuditResult(backend, "chunked", { status: "FAIL", issues: [issue] });
+
+    expect((await readCachedAuditResult(backend, "chunked"))?.issues).toEqual([issue]);
+  });
+
+  it("reads back verified issues with their confidence", async () => {
+    const backend = new FileSystemCacheBackend(directory);
+    const result: AuditResult = {
+      status: "FAIL",
+      issues: [
+        { line: 4, severity: "CRITICAL", message: "SQL injection", confidence: 0.9 },
+        { line: 9, severity: "INFO", message: "Out of range", confidence: 7 },
+      ],
+    };
+
+    await writeCachedAuditResult(backend, "verified", result);
+
+    expect((await readCachedAuditResult(backend, "verified"))?.issues).toEqual([
+      { line: 4, severity: "CRITICAL", message: "SQL injection", confidence: 0.9 },
+      { line: 9, severity: "INFO", message: "Out of range" },
+    ]);
+  });
+
+  it("reads back ensemble issues with their agreement", async () => {
+    const backend = new FileSystemCacheBackend(directory);
+    const agreement = { models: ["openai/gpt-4o", "anthropic/claude-sonnet-4-5"], total: 3 };
+    const result: AuditResult = {
+      status: "FAIL",
+      issues: [
+        { line: 4, severity: "CRITICAL", message: "SQL injection", agreement },
+        {
+          line: 9,
+          severity: "WARNING",
+          message: "Malformed agreement",
+          agreement: { models: "openai/gpt-4o", total: 0 } as unknown as typeof agreement,
+        },
+      ],
+    };
+
+    await writeCachedAuditResult(backend, "ensemble", result);
+
+    expect((await readCachedAuditResult(backend, "ensemble"))?.issues).toEqual([
+      { line: 4, severity: "CRITICAL", message: "SQL injection", agreement },
+      { line: 9, severity: "WARNING", message: "Malformed agreement" },
+    ]);
+  });
+});
@@ -66,6 +66,54 @@ describe("validateConfig", () => {
     expect(validateConfig({ ai: { maxFiles: -5 } })).toBe(false);
   });
 
+  it("accepts run budgets and rejects non-positive ones", () => {
+    expect(validateConfig({ ai: { maxTokensPerRun: 200000, maxCostPerRun: 0.5 } })).toBe(true);
+    expect(validateConfig({ ai: { maxCostPerRun: 0 } })).toBe(false);
+    expect(validateConfig({ ai: { maxTokensPerRun: 1.5 } })).toBe(false);
+  });
+
+  it("accepts verification settings and rejects confidence outside 0-1", () => {
+    expect(
+      validateConfig({
+        ai: { verifyIssues: true, minConfidence: 0.7, unconfirmedIssues: "downgrade" },
+      }),
+    ).toBe(true);
+    expect(validateConfig({ ai: { minConfidence: 1.5 } })).toBe(false);
+    expect(validateConfig({ ai: { unconfirmedIssues: "flag" } })).toBe(false);
+  });
+
+  it("accepts ensembles of two or three providers within their agreement threshold", () => {
+    expect(
+      validateConfig({ ai: { ensemble: { providers: ["openai", "anthropic"], minAgreement: 2 } } }),
+    ).toBe(true);
+    expect(validateConfig({ ai: { ensemble: { providers: ["openai"] } } })).toBe(false);
+    expect(
+      validateConfig({ ai: { ensemble: { providers: ["openai", "gemini"], minAgreement: 3 } } }),
+    ).toBe(false);
+  });
+
+  it("accepts circuit breaker settings with positive values only", () => {
+    expect(
+      validateConfig({ ai: { circuitBreaker: { failureThreshold: 5, cooldownMs: 30000 } } }),
+    ).toBe(true);
+    expect(validateConfig({ ai: { circuitBreaker: { failureThreshold: 0 } } })).toBe(false);
+  });
+
+  it("accepts cache backends with limits and rejects unknown ones", () => {
+    expect(
+      validateConfig({ cache: { backend: "jsonl", ttlHours: 24, maxEntries: 500, maxSizeMb: 20 } }),
+    ).toBe(true);
+    expect(validateConfig({ cache: { backend: "sqlite" } })).toBe(false);
+    expect(validateConfig({ cache: { ttlHours: 0 } })).toBe(false);
+  });
+
+  it("requires a URL for the http cache backend", () => {
+    expect(validateConfig({ cache: { backend: "http", url: "https://cache.example.com" } })).toBe(
+      true,
+    );
+    expect(validateConfig({ cache: { backend: "http" } })).toBe(false);
+  });
+
   it("rejects invalid commitPattern regex", () => {
     expect(
       validateConfig({
@@ -86,14 +134,33 @@ describe("validateConfig", () => {
     ).toBe(false);
   });
 
-  it("rejects invalid gitProvider value", () => {
-    expect(validateConfig({ gitProvider: "bitbucket" })).toBe(false);
+  it("rejects an empty gitProvider value", () => {
+    expect(validateConfig({ gitProvider: "" })).toBe(false);
+  });
+
+  it("accepts registered git provider names", () => {
+    expect(validateConfig({ gitProvider: "sourcehut" })).toBe(true);
+  });
+
+  it("accepts Bitbucket and Azure DevOps git providers", () => {
+    expect(validateConfig({ gitProvider: "bitbucket" })).toBe(true);
+    expect(validateConfig({ gitProvider: "azure-devops" })).toBe(true);
   });
 
   it("rejects invalid repoUrl", () => {
     expect(validateConfig({ repoUrl: "not-a-url" })).toBe(false);
   });
 
+  it("accepts report file outputs", () => {
+    expect(validateConfig({ reports: [{ format: "sarif", path: "reports/review.sarif" }] })).toBe(
+      true,
+    );
+  });
+
+  it("rejects console as a report file format", () => {
+    expect(validateConfig({ reports: [{ format: "console", path: "out.txt" }] })).toBe(false);
+  });
+
   it("rejects invalid patternMatchMode", () => {
     expect(validateConfig({ localReview: { patternMatchMode: "none" } })).toBe(false);
   });
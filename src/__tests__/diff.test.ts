@@ -0,0 +1,284 @@
+/**
+ * Unit tests for unified-diff line anchoring
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  anchorAuditResult,
+  mergeChunkResults,
+  parsePatchLineMap,
+  resolvePatchLine,
+  splitPatchIntoChunks,
+  splitPatchIntoHunks,
+  stripHunkLineNumbers,
+  stripPatchFileHeader,
+} from "../utils/diff.js";
+import type { AuditResult } from "../types/index.js";
+
+// Patch lines (1-based):
+//  1 diff --git a/src/a.ts b/src/a.ts
+//  2 --- a/src/a.ts
+//  3 +++ b/src/a.ts
+//  4 @@ -10,3 +10,4 @@ export const run = () => {
+//  5  const a = 1;          → new 10 (context)
+//  6 -const b = 2;          → removed at new 11
+//  7 +const b = 3;          → new 11 (added)
+//  8 +const c = 4;          → new 12 (added)
+//  9  return a;             → new 13 (context)
+// 10 @@ -40,1 +41,2 @@
+// 11  done();               → new 41 (context)
+// 12 +cleanup();            → new 42 (added)
+const PATCH = [
+  "diff --git a/src/a.ts b/src/a.ts",
+  "--- a/src/a.ts",
+  "+++ b/src/a.ts",
+  "@@ -10,3 +10,4 @@ export const run = () => {",
+  " const a = 1;",
+  "-const b = 2;",
+  "+const b = 3;",
+  "+const c = 4;",
+  " return a;",
+  "@@ -40,1 +41,2 @@",
+  " done();",
+  "+cleanup();",
+].join("\n");
+
+// ── parsePatchLineMap ─────────────────────────────────────────────────────────
+
+describe("parsePatchLineMap", () => {
+  it("parses hunk headers", () => {
+    const { hunks } = parsePatchLineMap(PATCH);
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({ oldStart: 10, oldLines: 3, newStart: 10, newLines: 4 });
+    expect(hunks[1]).toMatchObject({ newStart: 41, newLines: 2, headerPatchLine: 10 });
+  });
+
+  it("maps patch lines to new-file lines", () => {
+    const { byPatchLine } = parsePatchLineMap(PATCH);
+    expect(byPatchLine.get(5)).toEqual({ newLine: 10, kind: "context" });
+    expect(byPatchLine.get(6)).toEqual({ newLine: 11, kind: "deleted" });
+    expect(byPatchLine.get(8)).toEqual({ newLine: 12, kind: "added" });
+    expect(byPatchLine.get(12)).toEqual({ newLine: 42, kind: "added" });
+  });
+
+  it("ignores file headers and trailing text after the last hunk", () => {
+    const { byPatchLine } = parsePatchLineMap(`${PATCH}\n\n# [truncated by mp-sentinel]`);
+    expect(byPatchLine.has(1)).toBe(false);
+    expect(byPatchLine.has(3)).toBe(false);
+    expect(byPatchLine.has(14)).toBe(false);
+  });
+
+  it("defaults omitted hunk lengths to 1", () => {
+    const { hunks } = parsePatchLineMap("@@ -5 +5 @@\n-a\n+b");
+    expect(hunks[0]).toMatchObject({ oldLines: 1, newLines: 1 });
+  });
+});
+
+// ── resolvePatchLine ──────────────────────────────────────────────────────────
+
+describe("resolvePatchLine", () => {
+  const lineMap = parsePatchLineMap(PATCH);
+
+  it("resolves patch-relative lines first", () => {
+    expect(resolvePatchLine(lineMap, 7)).toEqual({ line: 11, anchored: true });
+  });
+
+  it("accepts new-file lines inside a hunk range when the patch line misses", () => {
+    expect(resolvePatchLine(lineMap, 42)).toEqual({ line: 42, anchored: true });
+  });
+
+  it("flags lines outside every hunk", () => {
+    expect(resolvePatchLine(lineMap, 2)).toEqual({ line: 2, anchored: false });
+    expect(resolvePatchLine(lineMap, 200)).toEqual({ line: 200, anchored: false });
+  });
+});
+
+// ── anchorAuditResult ─────────────────────────────────────────────────────────
+
+describe("anchorAuditResult", () => {
+  const result: AuditResult = {
+    status: "FAIL",
+    issues: [
+      { line: 8, severity: "WARNING", message: "Magic number" },
+      { line: 300, severity: "INFO", message: "Hallucinated" },
+    ],
+  };
+
+  it("records both the original and the resolved line", () => {
+    const anchored = anchorAuditResult(result, PATCH);
+    expect(anchored.issues?.[0]).toMatchObject({ line: 12, patchLine: 8, anchored: true });
+    expect(anchored.issues?.[1]).toMatchObject({ line: 300, patchLine: 300, anchored: false });
+  });
+
+  it("drops unanchored issues in drop mode", () => {
+    const anchored = anchorAuditResult(result, PATCH, "drop");
+    expect(anchored.issues).toHaveLength(1);
+    expect(anchored.status).toBe("FAIL");
+  });
+
+  it("passes a FAIL result whose issues were all dropped", () => {
+    const anchored = anchorAuditResult(
+      { status: "FAIL", issues: [{ line: 300, severity: "INFO", message: "x" }] },
+      PATCH,
+      "drop",
+    );
+    expect(anchored.status).toBe("PASS");
+    expect(anchored.issues).toEqual([]);
+  });
+});
+
+// ── splitPatchIntoChunks ──────────────────────────────────────────────────────
+
+describe("splitPatchIntoChunks", () => {
+  const lines = PATCH.split("\n");
+
+  it("returns the whole patch when it fits", () => {
+    expect(splitPatchIntoChunks(PATCH, PATCH.length)).toEqual([{ content: PATCH, lineOffset: 0 }]);
+  });
+
+  it("splits on hunk boundaries and keeps file headers with the first hunk", () => {
+    expect(splitPatchIntoChunks(PATCH, PATCH.length - 1)).toEqual([
+      { content: lines.slice(0, 9).join("\n"), lineOffset: 0 },
+      { content: lines.slice(9).join("\n"), lineOffset: 9 },
+    ]);
+  });
+
+  it("splits a hunk larger than the limit on line boundaries", () => {
+    const chunks = splitPatchIntoChunks(PATCH, 60);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.map((chunk) => chunk.content).join("\n")).toBe(PATCH);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(60);
+      expect(lines[chunk.lineOffset]).toBe(chunk.content.split("\n")[0]);
+    }
+  });
+});
+
+// ── splitPatchIntoHunks ───────────────────────────────────────────────────────
+
+describe("splitPatchIntoHunks", () => {
+  it("splits at every hunk header, keeping file headers with the first hunk", () => {
+    const hunks = splitPatchIntoHunks(PATCH);
+    expect(hunks.map((hunk) => hunk.lineOffset)).toEqual([0, 9]);
+    expect(hunks[0]?.content.split("\n")[0]).toBe("diff --git a/src/a.ts b/src/a.ts");
+    expect(hunks[1]?.content).toBe("@@ -40,1 +41,2 @@\n done();\n+cleanup();");
+    expect(hunks.map((hunk) => hunk.content).join("\n")).toBe(PATCH);
+  });
+
+  it("returns a patch without hunk headers as one piece", () => {
+    expect(splitPatchIntoHunks("+a\n+b")).toEqual([{ content: "+a\n+b", lineOffset: 0 }]);
+  });
+});
+
+describe("stripHunkLineNumbers", () => {
+  it("drops header line numbers but keeps the section heading and body", () => {
+    expect(stripHunkLineNumbers("@@ -10,3 +12,4 @@ export const run = () => {\n+x")).toBe(
+      "@@ export const run = () => {\n+x",
+    );
+    expect(stripHunkLineNumbers("@@ -5 +5 @@\n-a")).toBe(stripHunkLineNumbers("@@ -7 +9 @@\n-a"));
+  });
+});
+
+// ── stripPatchFileHeader ──────────────────────────────────────────────────────
+
+describe("stripPatchFileHeader", () => {
+  it("drops the lines before the hunk header", () => {
+    const [first, second] = splitPatchIntoHunks(PATCH) as [
+      { content: string },
+      { content: string },
+    ];
+    expect(stripPatchFileHeader(first.content)).toBe(PATCH.split("\n").slice(3, 9).join("\n"));
+    expect(stripPatchFileHeader(second.content)).toBe(second.content);
+  });
+});
+
+// ── mergeChunkResults ─────────────────────────────────────────────────────────
+
+describe("mergeChunkResults", () => {
+  const [first, second] = splitPatchIntoChunks(PATCH, PATCH.length - 1) as [
+    { content: string; lineOffset: number },
+    { content: string; lineOffset: number },
+  ];
+
+  it("offsets chunk lines into the whole patch and merges verdicts", () => {
+    const merged = mergeChunkResults([
+      {
+        chunk: first,
+        result: {
+          status: "FAIL",
+          message: "Magic numbers",
+          issues: [{ line: 7, severity: "WARNING", message: "Magic number" }],
+        },
+      },
+      {
+        chunk: second,
+        result: { status: "FAIL", issues: [{ line: 3, severity: "INFO", message: "Log it" }] },
+      },
+    ]);
+
+    expect(merged).toEqual({
+      status: "FAIL",
+      message: "Magic numbers",
+      issues: [
+        { line: 7, severity: "WARNING", message: "Magic number" },
+        { line: 12, severity: "INFO", message: "Log it" },
+      ],
+    });
+    expect(anchorAuditResult(merged, PATCH).issues?.map((issue) => issue.line)).toEqual([11, 42]);
+  });
+
+  it("deduplicates repeated issues, keeping the highest severity", () => {
+    const merged = mergeChunkResults([
+      {
+        chunk: first,
+        result: { status: "FAIL", issues: [{ line: 42, severity: "INFO", message: "Leak" }] },
+      },
+      {
+        chunk: second,
+        result: { status: "FAIL", issues: [{ line: 42, severity: "CRITICAL", message: " leak" }] },
+      },
+    ]);
+
+    expect(merged.issues).toEqual([
+      { line: 42, severity: "CRITICAL", message: " leak", anchored: false },
+    ]);
+  });
+
+  it("marks issues past the end of their chunk as unanchored instead of guessing", () => {
+    const merged = mergeChunkResults([
+      { chunk: first, result: { status: "PASS", issues: [] } },
+      {
+        chunk: second,
+        // Past the end of the 3-line chunk; read as a patch line it would land on line 12
+        result: { status: "FAIL", issues: [{ line: 12, severity: "WARNING", message: "Leak" }] },
+      },
+    ]);
+
+    expect(merged.issues).toEqual([
+      { line: 12, severity: "WARNING", message: "Leak", anchored: false },
+    ]);
+    expect(anchorAuditResult(merged, PATCH).issues?.[0]).toMatchObject({ anchored: false });
+    expect(anchorAuditResult(merged, PATCH, "drop").issues).toEqual([]);
+  });
+
+  it("reports an ERROR when a chunk failed, keeping the other chunks' issues", () => {
+    const merged = mergeChunkResults([
+      {
+        chunk: first,
+        result: { status: "FAIL", issues: [{ line: 8, severity: "WARNING", message: "x" }] },
+      },
+      {
+        chunk: second,
+        result: { status: "ERROR", errorKind: "provider", message: "HTTP 500", issues: [] },
+      },
+    ]);
+
+    expect(merged).toEqual({
+      status: "ERROR",
+      errorKind: "provider",
+      message: "Chunk 2 of 2: HTTP 500",
+      issues: [{ line: 8, severity: "WARNING", message: "x" }],
+    });
+  });
+});
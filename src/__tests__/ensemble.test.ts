@@ -0,0 +1,121 @@
+/**
+ * Unit tests for merging ensemble review results
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { mergeEnsembleResults, messageSimilarity } from "../services/ai/ensemble.js";
+import type { AuditResult } from "../types/index.js";
+
+const openai = { provider: "openai", model: "gpt-4o" };
+const anthropic = { provider: "anthropic", model: "claude-sonnet-4-5" };
+const gemini = { provider: "gemini", model: "gemini-2.5-pro" };
+
+const fail = (...issues: NonNullable<AuditResult["issues"]>): AuditResult => ({
+  status: "FAIL",
+  issues,
+});
+
+// ── messageSimilarity ────────────────────────────────────────────────────────
+
+describe("messageSimilarity", () => {
+  it("compares the words of two messages", () => {
+    expect(messageSimilarity("SQL injection in query", "Possible SQL injection")).toBeCloseTo(0.5);
+    expect(messageSimilarity("Unused import", "Missing await")).toBe(0);
+  });
+});
+
+// ── mergeEnsembleResults ─────────────────────────────────────────────────────
+
+describe("mergeEnsembleResults", () => {
+  it("keeps issues a majority reports, at the highest severity, with agreement", () => {
+    const merged = mergeEnsembleResults(
+      [
+        {
+          source: openai,
+          result: fail(
+            { line: 10, severity: "WARNING", message: "SQL injection in query" },
+            { line: 30, severity: "INFO", message: "Prefer const" },
+          ),
+        },
+        {
+          source: anthropic,
+          result: fail({ line: 11, severity: "CRITICAL", message: "Possible SQL injection" }),
+        },
+        { source: gemini, result: { status: "PASS", issues: [] } },
+      ],
+      2,
+    );
+
+    expect(merged).toEqual({
+      status: "FAIL",
+      issues: [
+        {
+          line: 11,
+          severity: "CRITICAL",
+          message: "Possible SQL injection",
+          agreement: { models: ["openai/gpt-4o", "anthropic/claude-sonnet-4-5"], total: 3 },
+        },
+      ],
+    });
+  });
+
+  it("passes the file when no finding reaches the agreement threshold", () => {
+    const merged = mergeEnsembleResults(
+      [
+        { source: openai, result: fail({ line: 3, severity: "WARNING", message: "Magic number" }) },
+        { source: anthropic, result: fail({ line: 40, severity: "WARNING", message: "No tests" }) },
+      ],
+      2,
+    );
+
+    expect(merged).toEqual({ status: "PASS", issues: [] });
+  });
+
+  it("keeps every finding with a threshold of one", () => {
+    const merged = mergeEnsembleResults(
+      [
+        { source: openai, result: fail({ line: 3, severity: "WARNING", message: "Magic number" }) },
+        { source: anthropic, result: fail({ line: 40, severity: "INFO", message: "No tests" }) },
+      ],
+      1,
+    );
+
+    expect(merged.issues?.map((issue) => [issue.line, issue.agreement?.models])).toEqual([
+      [3, ["openai/gpt-4o"]],
+      [40, ["anthropic/claude-sonnet-4-5"]],
+    ]);
+  });
+
+  it("counts only the models that answered and notes the failures", () => {
+    const merged = mergeEnsembleResults(
+      [
+        { source: openai, result: fail({ line: 3, severity: "WARNING", message: "Magic number" }) },
+        {
+          source: anthropic,
+          result: { status: "ERROR", errorKind: "provider", message: "HTTP 529", issues: [] },
+        },
+      ],
+      2,
+    );
+
+    expect(merged.status).toBe("FAIL");
+    expect(merged.issues?.[0]?.agreement).toEqual({ models: ["openai/gpt-4o"], total: 1 });
+    expect(merged.message).toBe(
+      "1 of 2 ensemble models failed (anthropic/claude-sonnet-4-5: HTTP 529)",
+    );
+  });
+
+  it("returns the error when every model failed", () => {
+    const error: AuditResult = { status: "ERROR", errorKind: "timeout", message: "t", issues: [] };
+
+    expect(
+      mergeEnsembleResults(
+        [
+          { source: openai, result: error },
+          { source: anthropic, result: error },
+        ],
+        2,
+      ),
+    ).toBe(error);
+  });
+});
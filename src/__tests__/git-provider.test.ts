@@ -0,0 +1,700 @@
+/**
+ * Unit tests for comment fingerprinting and cross-run comment sync
+ */
+
+import { describe, it, expect, afterEach, jest } from "@jest/globals";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  buildIssueFingerprint,
+  buildReviewComments,
+  extractFingerprint,
+  getGitProvider,
+  getRegisteredGitProviders,
+  registerGitProvider,
+  unregisterGitProvider,
+  withSummaryMarker,
+  AzureDevOpsProvider,
+  BitbucketProvider,
+  GitHubProvider,
+  normalizeIssueMessage,
+  planCommentSync,
+  syncReviewComments,
+} from "../services/git-provider/index.js";
+import type {
+  ExistingComment,
+  GitProvider,
+  ReviewComment,
+  ReviewSubmission,
+  CheckAnnotation,
+  CheckRunReport,
+  CommitStatus,
+} from "../services/git-provider/index.js";
+import { publishCheckRun } from "../services/check-run.js";
+import type { AuditIssue, ReviewReport } from "../types/index.js";
+
+const issue = (message: string, overrides: Partial<AuditIssue> = {}): AuditIssue => ({
+  line: 10,
+  severity: "WARNING",
+  message,
+  ...overrides,
+});
+
+const toExisting = (comment: ReviewComment, overrides: Partial<ExistingComment> = {}) => ({
+  id: comment.fingerprint,
+  fingerprint: comment.fingerprint,
+  body: comment.body,
+  ...overrides,
+});
+
+const twoComments = (): ReviewComment[] =>
+  buildReviewComments([
+    { filePath: "src/a.ts", issue: issue("First") },
+    { filePath: "src/b.ts", issue: issue("Second") },
+  ]);
+
+// ── Fingerprints ─────────────────────────────────────────────────────────────
+
+describe("buildIssueFingerprint", () => {
+  it("ignores case, whitespace, numbers and trailing punctuation", () => {
+    expect(normalizeIssueMessage("  Magic  number 42 used. ")).toBe("magic number # used");
+    expect(buildIssueFingerprint("src/a.ts", issue("Magic number 42 used."))).toBe(
+      buildIssueFingerprint("src/a.ts", issue("magic   NUMBER 7 used", { line: 99 })),
+    );
+  });
+
+  it("differs by file, rule and message", () => {
+    const base = buildIssueFingerprint("src/a.ts", issue("Magic number"));
+    expect(buildIssueFingerprint("src/b.ts", issue("Magic number"))).not.toBe(base);
+    expect(
+      buildIssueFingerprint("src/a.ts", issue("Magic number", { severity: "CRITICAL" })),
+    ).not.toBe(base);
+    expect(buildIssueFingerprint("src/a.ts", issue("Unused import"))).not.toBe(base);
+  });
+
+  it("embeds a recoverable marker in the comment body", () => {
+    const [comment] = buildReviewComments([{ filePath: "src/a.ts", issue: issue("Magic number") }]);
+    expect(comment).toBeDefined();
+    expect(extractFingerprint(comment!.body)).toBe(comment!.fingerprint);
+    expect(extractFingerprint("A human comment")).toBeNull();
+  });
+
+  it("keeps repeated findings in one file distinct", () => {
+    const comments = buildReviewComments([
+      { filePath: "src/a.ts", issue: issue("Magic number", { line: 3 }) },
+      { filePath: "src/a.ts", issue: issue("Magic number", { line: 8 }) },
+    ]);
+    expect(new Set(comments.map((c) => c.fingerprint)).size).toBe(2);
+  });
+});
+
+// ── Sync planning ────────────────────────────────────────────────────────────
+
+describe("planCommentSync", () => {
+  const [kept, moved, added] = buildReviewComments([
+    { filePath: "src/a.ts", issue: issue("Kept finding") },
+    { filePath: "src/a.ts", issue: issue("Moved finding", { line: 20 }) },
+    { filePath: "src/b.ts", issue: issue("New finding") },
+  ]) as [ReviewComment, ReviewComment, ReviewComment];
+
+  it("creates new, updates changed, skips unchanged and removes fixed comments", () => {
+    const fixed: ExistingComment = { id: "9", fingerprint: "deadbeef", body: "old" };
+    const plan = planCommentSync(
+      [kept, moved, added],
+      [toExisting(kept), toExisting(moved, { body: "outdated body" }), fixed],
+    );
+
+    expect(plan.create).toEqual([added]);
+    expect(plan.update.map((entry) => entry.comment)).toEqual([moved]);
+    expect(plan.unchanged.map((entry) => entry.comment)).toEqual([kept]);
+    expect(plan.remove).toEqual([fixed]);
+  });
+
+  it("leaves resolved comments resolved unless the finding's content changed", () => {
+    const plan = planCommentSync(
+      [kept, moved],
+      [
+        toExisting(kept, { resolved: true, line: 3 }),
+        toExisting(moved, { resolved: true, body: "outdated body" }),
+      ],
+    );
+    expect(plan.unchanged.map((entry) => entry.comment)).toEqual([kept]);
+    expect(plan.update.map((entry) => entry.comment)).toEqual([moved]);
+  });
+
+  it("re-posts comments whose finding moved to another line or file", () => {
+    const onOldLine = toExisting(kept, { filePath: "src/a.ts", line: 4 });
+    const onOtherFile = toExisting(moved, { filePath: "src/old.ts", line: 20 });
+    const plan = planCommentSync(
+      [kept, moved, added],
+      [onOldLine, onOtherFile, toExisting(added, { filePath: "src/b.ts", line: 10 })],
+    );
+
+    expect(plan.create).toEqual([kept, moved]);
+    expect(plan.remove).toEqual([onOldLine, onOtherFile]);
+    expect(plan.unchanged.map((entry) => entry.comment)).toEqual([added]);
+  });
+
+  it("leaves already-resolved stale comments alone", () => {
+    const plan = planCommentSync([], [toExisting(kept, { resolved: true })]);
+    expect(plan.remove).toHaveLength(0);
+  });
+});
+
+// ── Sync execution ───────────────────────────────────────────────────────────
+
+describe("syncReviewComments", () => {
+  it("counts failures without throwing and still creates when listing fails", async () => {
+    const created: string[] = [];
+    const provider: GitProvider = {
+      isAvailable: () => true,
+      postComment: async () => {},
+      listComments: async () => {
+        throw new Error("403");
+      },
+      createComment: async (comment) => {
+        if (comment.filePath === "src/bad.ts") throw new Error("422");
+        created.push(comment.filePath);
+      },
+      updateComment: async () => {},
+      removeComment: async () => {},
+    };
+
+    const result = await syncReviewComments(
+      provider,
+      buildReviewComments([
+        { filePath: "src/a.ts", issue: issue("Finding") },
+        { filePath: "src/bad.ts", issue: issue("Finding") },
+      ]),
+    );
+
+    expect(created).toEqual(["src/a.ts"]);
+    expect(result).toEqual({ created: 1, updated: 0, unchanged: 0, removed: 0, failed: 1 });
+  });
+});
+
+describe("syncReviewComments with batched reviews", () => {
+  const submission: ReviewSubmission = { summary: "## Summary", requestChanges: true };
+  const desired = twoComments();
+
+  const batchingProvider = (submitReview: GitProvider["submitReview"]) => {
+    const created: string[] = [];
+    const provider: GitProvider = {
+      isAvailable: () => true,
+      postComment: async () => {},
+      listComments: async () => [],
+      createComment: async (comment) => {
+        created.push(comment.filePath);
+      },
+      ...(submitReview && { submitReview }),
+      updateComment: async () => {},
+      removeComment: async () => {},
+    };
+    return { provider, created };
+  };
+
+  it("submits all new comments in one review", async () => {
+    const batches: ReviewComment[][] = [];
+    const { provider, created } = batchingProvider(async (comments) => {
+      batches.push(comments);
+    });
+
+    const result = await syncReviewComments(provider, desired, submission);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toHaveLength(2);
+    expect(created).toEqual([]);
+    expect(result.created).toBe(2);
+  });
+
+  it("falls back to individual comments when the review is rejected", async () => {
+    const { provider, created } = batchingProvider(async () => {
+      throw new Error("422 Unprocessable Entity");
+    });
+
+    const result = await syncReviewComments(provider, desired, submission);
+
+    expect(created).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(result).toMatchObject({ created: 2, failed: 0 });
+  });
+
+  it("dismisses earlier change requests once a review passes", async () => {
+    const messages: string[] = [];
+    const { provider } = batchingProvider(async () => {});
+    provider.dismissChangeRequests = async (message) => {
+      messages.push(message);
+      return 1;
+    };
+
+    await syncReviewComments(provider, [], { ...submission, requestChanges: false });
+    expect(messages).toEqual([]);
+    await syncReviewComments(provider, [], { ...submission, requestChanges: false, passed: true });
+    expect(messages).toEqual(["MP Sentinel review passed"]);
+  });
+});
+
+// ── GitHub provider ──────────────────────────────────────────────────────────
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  body: string;
+}
+
+/**
+ * Local API stub: records every request and answers with `respond(req)`.
+ * `env` receives the stub base URL and returns the CI variables for the provider.
+ */
+const withApiStub = async <P>(
+  env: (baseUrl: string) => Record<string, string>,
+  createProvider: () => P,
+  respond: (req: RecordedRequest) => unknown,
+  run: (provider: P) => Promise<unknown>,
+): Promise<RecordedRequest[]> => {
+  const requests: RecordedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const recorded = { method: req.method, url: req.url, body };
+      requests.push(recorded);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(respond(recorded) ?? {}));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  Object.assign(process.env, env(`http://127.0.0.1:${port}`));
+
+  try {
+    await run(createProvider());
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+  return requests;
+};
+
+const withGitHubStub = (
+  respond: (req: RecordedRequest) => unknown,
+  run: (provider: GitHubProvider) => Promise<unknown>,
+): Promise<RecordedRequest[]> => {
+  delete process.env.GITHUB_EVENT_PATH;
+  return withApiStub(
+    (baseUrl) => ({
+      GITHUB_TOKEN: "test-token",
+      GITHUB_REPOSITORY: "acme/app",
+      GITHUB_REF: "refs/pull/7/merge",
+      GITHUB_SHA: "abc123",
+      GITHUB_API_URL: baseUrl,
+    }),
+    () => new GitHubProvider(),
+    respond,
+    run,
+  );
+};
+
+const annotation = (line: number): CheckAnnotation => ({
+  path: "src/a.ts",
+  startLine: line,
+  endLine: line,
+  level: "warning",
+  message: `Finding ${line}`,
+});
+
+describe("GitHubProvider", () => {
+  const savedEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it("posts findings as a single pull request review", async () => {
+    const requests = await withGitHubStub(
+      () => ({}),
+      (provider) =>
+        provider.submitReview(twoComments(), { summary: "## Summary", requestChanges: true }),
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]?.method).toBe("POST");
+    expect(requests[0]?.url).toBe("/repos/acme/app/pulls/7/reviews");
+    const payload = JSON.parse(requests[0]?.body ?? "{}");
+    expect(payload).toMatchObject({
+      commit_id: "abc123",
+      event: "REQUEST_CHANGES",
+      body: withSummaryMarker("## Summary"),
+    });
+    expect(payload.comments).toHaveLength(2);
+    expect(payload.comments[0]).toMatchObject({ path: "src/a.ts", line: 10, side: "RIGHT" });
+  });
+
+  it("dismisses only its own change requests", async () => {
+    const requests = await withGitHubStub(
+      (req) =>
+        req.method === "GET"
+          ? [
+              { id: 1, state: "CHANGES_REQUESTED", body: withSummaryMarker("## Summary") },
+              { id: 2, state: "CHANGES_REQUESTED", body: "Please rename this" },
+              { id: 3, state: "COMMENTED", body: withSummaryMarker("## Summary") },
+            ]
+          : {},
+      async (provider) => expect(await provider.dismissChangeRequests("passed")).toBe(1),
+    );
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1]?.method).toBe("PUT");
+    expect(requests[1]?.url).toBe("/repos/acme/app/pulls/7/reviews/1/dismissals");
+    expect(JSON.parse(requests[1]?.body ?? "{}")).toEqual({ message: "passed", event: "DISMISS" });
+  });
+
+  it("creates a check run and pages annotations 50 at a time", async () => {
+    const check: CheckRunReport = {
+      name: "mp-sentinel",
+      conclusion: "failure",
+      title: "120 warning",
+      summary: "# Report",
+      annotations: Array.from({ length: 120 }, (_, index) => annotation(index + 1)),
+    };
+
+    const requests = await withGitHubStub(
+      (req) => (req.method === "GET" ? { check_runs: [] } : { id: 42 }),
+      (provider) => provider.publishCheckRun(check),
+    );
+
+    expect(requests.map((req) => `${req.method} ${req.url}`)).toEqual([
+      "GET /repos/acme/app/commits/abc123/check-runs?check_name=mp-sentinel",
+      "POST /repos/acme/app/check-runs",
+      "PATCH /repos/acme/app/check-runs/42",
+      "PATCH /repos/acme/app/check-runs/42",
+    ]);
+    const payloads = requests.slice(1).map((req) => JSON.parse(req.body));
+    expect(payloads.map((payload) => payload.output.annotations.length)).toEqual([50, 50, 20]);
+    expect(payloads[0]).toMatchObject({
+      head_sha: "abc123",
+      status: "completed",
+      conclusion: "failure",
+      output: { title: "120 warning", summary: "# Report" },
+    });
+  });
+
+  it("updates the existing check run for the commit", async () => {
+    const requests = await withGitHubStub(
+      (req) => (req.method === "GET" ? { check_runs: [{ id: 7 }] } : {}),
+      (provider) =>
+        provider.publishCheckRun({
+          name: "mp-sentinel",
+          conclusion: "success",
+          title: "No issues found",
+          summary: "# Report",
+          annotations: [],
+        }),
+    );
+
+    expect(requests.map((req) => `${req.method} ${req.url}`)).toEqual([
+      "GET /repos/acme/app/commits/abc123/check-runs?check_name=mp-sentinel",
+      "PATCH /repos/acme/app/check-runs/7",
+    ]);
+  });
+});
+
+// ── Bitbucket provider ───────────────────────────────────────────────────────
+
+const withBitbucketStub = (
+  respond: (req: RecordedRequest) => unknown,
+  run: (provider: BitbucketProvider) => Promise<unknown>,
+): Promise<RecordedRequest[]> =>
+  withApiStub(
+    (baseUrl) => ({
+      BITBUCKET_TOKEN: "test-token",
+      BITBUCKET_WORKSPACE: "acme",
+      BITBUCKET_REPO_SLUG: "app",
+      BITBUCKET_PR_ID: "12",
+      BITBUCKET_API_URL: baseUrl,
+    }),
+    () => new BitbucketProvider(),
+    respond,
+    run,
+  );
+
+describe("BitbucketProvider", () => {
+  const savedEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it("is detected from Bitbucket Pipelines variables", () => {
+    Object.assign(process.env, { BITBUCKET_BUILD_NUMBER: "5", BITBUCKET_TOKEN: "t" });
+    delete process.env.GITHUB_ACTIONS;
+    delete process.env.GITLAB_CI;
+    expect(getGitProvider()).toBeInstanceOf(BitbucketProvider);
+  });
+
+  it("anchors inline comments to the new-file line", async () => {
+    const [comment] = twoComments();
+    const requests = await withBitbucketStub(
+      () => ({}),
+      (provider) => provider.createComment(comment!),
+    );
+
+    expect(requests[0]?.url).toBe("/repositories/acme/app/pullrequests/12/comments");
+    expect(JSON.parse(requests[0]?.body ?? "{}")).toEqual({
+      content: { raw: comment!.body },
+      inline: { path: "src/a.ts", to: 10 },
+    });
+  });
+
+  it("follows `next` links and keeps only fingerprinted comments", async () => {
+    const [first, second] = twoComments();
+    let comments: ExistingComment[] = [];
+    const requests = await withBitbucketStub(
+      (req) =>
+        req.url?.includes("page=2")
+          ? { values: [{ id: 2, content: { raw: second!.body } }] }
+          : {
+              values: [
+                { id: 1, content: { raw: first!.body } },
+                { id: 3, content: { raw: "LGTM" } },
+                { id: 4, deleted: true, content: { raw: first!.body } },
+              ],
+              next: `${process.env.BITBUCKET_API_URL}/repositories/acme/app/pullrequests/12/comments?page=2`,
+            },
+      async (provider) => {
+        comments = await provider.listComments();
+      },
+    );
+
+    expect(requests).toHaveLength(2);
+    expect(comments.map((comment) => comment.id)).toEqual(["1", "2"]);
+    expect(comments[1]?.fingerprint).toBe(second!.fingerprint);
+  });
+});
+
+// ── Azure DevOps provider ────────────────────────────────────────────────────
+
+const withAzureStub = (
+  respond: (req: RecordedRequest) => unknown,
+  run: (provider: AzureDevOpsProvider) => Promise<unknown>,
+): Promise<RecordedRequest[]> =>
+  withApiStub(
+    (baseUrl) => ({
+      SYSTEM_ACCESSTOKEN: "test-token",
+      SYSTEM_COLLECTIONURI: `${baseUrl}/acme/`,
+      SYSTEM_TEAMPROJECT: "Web App",
+      BUILD_REPOSITORY_ID: "repo-1",
+      SYSTEM_PULLREQUEST_PULLREQUESTID: "34",
+    }),
+    () => new AzureDevOpsProvider(),
+    respond,
+    run,
+  );
+
+describe("AzureDevOpsProvider", () => {
+  const savedEnv = { ...process.env };
+  const threadsPath = "/acme/Web%20App/_apis/git/repositories/repo-1/pullRequests/34/threads";
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it("is detected from Azure Pipelines variables", () => {
+    Object.assign(process.env, { TF_BUILD: "True", SYSTEM_ACCESSTOKEN: "t" });
+    delete process.env.GITHUB_ACTIONS;
+    delete process.env.GITLAB_CI;
+    delete process.env.BITBUCKET_BUILD_NUMBER;
+    expect(getGitProvider()).toBeInstanceOf(AzureDevOpsProvider);
+  });
+
+  it("creates a thread on the right side of the diff", async () => {
+    const [comment] = twoComments();
+    const requests = await withAzureStub(
+      () => ({}),
+      (provider) => provider.createComment(comment!),
+    );
+
+    expect(requests[0]?.url).toBe(`${threadsPath}?api-version=7.1`);
+    expect(JSON.parse(requests[0]?.body ?? "{}")).toMatchObject({
+      status: "active",
+      threadContext: {
+        filePath: "/src/a.ts",
+        rightFileStart: { line: 10, offset: 1 },
+        rightFileEnd: { line: 10, offset: 1 },
+      },
+    });
+  });
+
+  it("maps thread status to resolution and resolves fixed findings", async () => {
+    const [first, second] = twoComments();
+    let listed: ExistingComment[] = [];
+    const requests = await withAzureStub(
+      (req) =>
+        req.method === "GET"
+          ? {
+              value: [
+                { id: 1, status: "active", comments: [{ id: 11, content: first!.body }] },
+                { id: 2, status: "fixed", comments: [{ id: 21, content: second!.body }] },
+                { id: 3, status: "active", comments: [{ id: 31, content: "Human note" }] },
+              ],
+            }
+          : {},
+      async (provider) => {
+        listed = await provider.listComments();
+        await provider.removeComment(listed[0]!);
+      },
+    );
+
+    expect(listed.map((entry) => [entry.threadId, entry.resolved])).toEqual([
+      ["1", false],
+      ["2", true],
+    ]);
+    expect(requests[1]?.method).toBe("PATCH");
+    expect(requests[1]?.url).toBe(`${threadsPath}/1?api-version=7.1`);
+    expect(JSON.parse(requests[1]?.body ?? "{}")).toEqual({ status: "fixed" });
+  });
+});
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+const fakeProvider = (overrides: Partial<GitProvider> = {}): GitProvider => ({
+  isAvailable: () => true,
+  postComment: async () => {},
+  listComments: async () => [],
+  createComment: async () => {},
+  updateComment: async () => {},
+  removeComment: async () => {},
+  ...overrides,
+});
+
+describe("registerGitProvider", () => {
+  const savedEnv = { ...process.env };
+
+  afterEach(() => {
+    unregisterGitProvider("gerrit");
+    process.env = { ...savedEnv };
+  });
+
+  const failingReport: ReviewReport = {
+    schemaVersion: "1.1",
+    status: "FAIL",
+    target: { mode: "range" },
+    aiEnabled: true,
+    promptVersion: "v1",
+    summary: {
+      totalFiles: 1,
+      auditedFiles: 1,
+      passedFiles: 0,
+      failedFiles: 1,
+      criticalIssues: 1,
+      warningIssues: 0,
+      infoIssues: 0,
+      durationMs: 1,
+      totalChangedLines: 1,
+    },
+    results: [],
+    skipped: [],
+    redactions: [],
+    errors: [],
+    generatedAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  it("detects custom providers before the built-in ones", () => {
+    const gerrit = fakeProvider();
+    Object.assign(process.env, { GITHUB_ACTIONS: "true", GITHUB_TOKEN: "t", GERRIT_CHANGE: "1" });
+    registerGitProvider({
+      name: "gerrit",
+      detect: () => !!process.env.GERRIT_CHANGE,
+      create: () => gerrit,
+    });
+
+    expect(getRegisteredGitProviders()[0]).toBe("gerrit");
+    expect(getGitProvider()).toBe(gerrit);
+
+    delete process.env.GERRIT_CHANGE;
+    expect(getGitProvider()).toBeInstanceOf(GitHubProvider);
+  });
+
+  it("selects a registered provider by name and can be unregistered", () => {
+    const gerrit = fakeProvider();
+    registerGitProvider({ name: "gerrit", detect: () => false, create: () => gerrit });
+
+    expect(getGitProvider("gerrit")).toBe(gerrit);
+    expect(unregisterGitProvider("gerrit")).toBe(true);
+    expect(unregisterGitProvider("gerrit")).toBe(false);
+    expect(getGitProvider("gerrit")).toBeNull();
+  });
+
+  it("reports an unknown provider name with the registered ones", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    registerGitProvider({ name: "gerrit", detect: () => false, create: () => fakeProvider() });
+
+    expect(getGitProvider("sourcehut")).toBeNull();
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Unknown git provider "sourcehut". Registered providers: gerrit, github, gitlab',
+      ),
+    );
+    warn.mockRestore();
+  });
+
+  it("falls back to a commit status when the provider has no Checks API", async () => {
+    const statuses: CommitStatus[] = [];
+    registerGitProvider({
+      name: "gerrit",
+      detect: () => false,
+      create: () => fakeProvider({ setStatus: async (status) => void statuses.push(status) }),
+    });
+
+    const result = await publishCheckRun(failingReport, "mp-sentinel", "gerrit");
+
+    expect(result.published).toBe(true);
+    expect(statuses).toEqual([
+      { state: "failure", context: "mp-sentinel", description: "1 critical, 0 warning, 0 info" },
+    ]);
+  });
+
+  it("skips the check run quietly outside the provider's CI context", async () => {
+    const statuses: CommitStatus[] = [];
+    registerGitProvider({
+      name: "gerrit",
+      detect: () => false,
+      create: () =>
+        fakeProvider({
+          isAvailable: () => false,
+          setStatus: async (status) => void statuses.push(status),
+        }),
+    });
+
+    const result = await publishCheckRun(failingReport, "mp-sentinel", "gerrit");
+
+    expect(result).toEqual({ published: false, annotations: 0 });
+    expect(statuses).toEqual([]);
+  });
+});
+
+describe("GitHubProvider.postSummary", () => {
+  const savedEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  it("updates the existing summary comment instead of posting another", async () => {
+    const requests = await withGitHubStub(
+      (req) =>
+        req.method === "GET"
+          ? [
+              { id: 1, body: "Human comment" },
+              { id: 2, body: withSummaryMarker("old summary") },
+            ]
+          : {},
+      (provider) => provider.postSummary("new summary"),
+    );
+
+    expect(requests.map((req) => `${req.method} ${req.url}`)).toEqual([
+      "GET /repos/acme/app/issues/7/comments?per_page=100&page=1",
+      "PATCH /repos/acme/app/issues/comments/2",
+    ]);
+    expect(JSON.parse(requests[1]?.body ?? "{}").body).toBe(withSummaryMarker("new summary"));
+  });
+});
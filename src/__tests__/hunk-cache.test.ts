@@ -0,0 +1,136 @@
+/**
+ * Unit tests for hunk-level caching: planning, splitting and merging hunk results
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  mergeHunkResults,
+  planHunkReview,
+  splitResultByHunks,
+  type CachedHunk,
+} from "../services/ai/hunk-cache.js";
+import type { AuditResult } from "../types/index.js";
+
+const hunk = (
+  lineOffset: number,
+  lines: number,
+  cached: AuditResult | null = null,
+): CachedHunk => ({
+  content: Array.from({ length: lines }, (_, index) => `+line ${lineOffset + index + 1}`).join(
+    "\n",
+  ),
+  lineOffset,
+  cached,
+});
+
+const PASS: AuditResult = { status: "PASS", issues: [] };
+
+// ── planHunkReview ───────────────────────────────────────────────────────────
+
+describe("planHunkReview", () => {
+  it("joins the hunks without a cached result into the patch to review", () => {
+    const plan = planHunkReview([hunk(0, 3), hunk(3, 2, PASS), hunk(5, 4)]);
+
+    expect(plan.freshHunks.map((entry) => entry.lineOffset)).toEqual([0, 3]);
+    expect(plan.freshPatch.split("\n")).toEqual([
+      "+line 1",
+      "+line 2",
+      "+line 3",
+      "+line 6",
+      "+line 7",
+      "+line 8",
+      "+line 9",
+    ]);
+  });
+});
+
+// ── splitResultByHunks ───────────────────────────────────────────────────────
+
+describe("splitResultByHunks", () => {
+  const freshHunks = [
+    { content: "a\nb\nc", lineOffset: 0 },
+    { content: "d\ne", lineOffset: 3 },
+  ];
+
+  it("assigns issues to their hunk with hunk-relative lines", () => {
+    const result: AuditResult = {
+      status: "FAIL",
+      issues: [
+        { line: 2, severity: "WARNING", message: "first" },
+        { line: 5, severity: "CRITICAL", message: "second" },
+      ],
+    };
+
+    expect(splitResultByHunks(result, freshHunks)).toEqual([
+      { status: "FAIL", issues: [{ line: 2, severity: "WARNING", message: "first" }] },
+      { status: "FAIL", issues: [{ line: 2, severity: "CRITICAL", message: "second" }] },
+    ]);
+  });
+
+  it("marks hunks without issues as passing", () => {
+    const result: AuditResult = {
+      status: "FAIL",
+      issues: [{ line: 4, severity: "WARNING", message: "m" }],
+    };
+    expect(splitResultByHunks(result, freshHunks)?.map((entry) => entry.status)).toEqual([
+      "PASS",
+      "FAIL",
+    ]);
+  });
+
+  it("refuses results that cannot be pinned to hunks", () => {
+    const outside: AuditResult = {
+      status: "FAIL",
+      issues: [{ line: 9, severity: "WARNING", message: "m" }],
+    };
+    expect(splitResultByHunks(outside, freshHunks)).toBeNull();
+    expect(splitResultByHunks({ status: "FAIL", issues: [] }, freshHunks)).toBeNull();
+    expect(splitResultByHunks({ status: "ERROR", message: "x" }, freshHunks)).toBeNull();
+  });
+});
+
+// ── mergeHunkResults ─────────────────────────────────────────────────────────
+
+describe("mergeHunkResults", () => {
+  it("re-bases cached issues and maps fresh issues back to patch lines", () => {
+    const cached: AuditResult = {
+      status: "FAIL",
+      issues: [{ line: 1, severity: "WARNING", message: "cached" }],
+    };
+    // Patch: fresh hunk (lines 1-3), cached hunk (4-5), fresh hunk (6-9)
+    const plan = planHunkReview([hunk(0, 3), hunk(3, 2, cached), hunk(5, 4)]);
+    // Fresh patch line 5 is the second line of the last hunk
+    const fresh: AuditResult = {
+      status: "FAIL",
+      issues: [{ line: 5, severity: "CRITICAL", message: "fresh" }],
+      message: "summary",
+    };
+
+    expect(mergeHunkResults(plan, fresh)).toEqual({
+      status: "FAIL",
+      issues: [
+        { line: 4, severity: "WARNING", message: "cached" },
+        { line: 7, severity: "CRITICAL", message: "fresh" },
+      ],
+      message: "summary",
+    });
+  });
+
+  it("fails when a cached hunk failed even if the fresh review passed", () => {
+    const cached: AuditResult = {
+      status: "FAIL",
+      issues: [{ line: 2, severity: "WARNING", message: "m" }],
+    };
+    const plan = planHunkReview([hunk(0, 2), hunk(2, 2, cached)]);
+
+    expect(mergeHunkResults(plan, PASS)).toMatchObject({
+      status: "FAIL",
+      issues: [{ line: 4 }],
+    });
+  });
+
+  it("builds the result from cached hunks alone", () => {
+    const plan = planHunkReview([hunk(0, 2, PASS), hunk(2, 2, PASS)]);
+    expect(mergeHunkResults(plan, null)).toEqual({ status: "PASS", issues: [] });
+  });
+});
@@ -3,7 +3,17 @@
  */
 
 import { describe, it, expect } from "@jest/globals";
-import { parseAuditResponse, cleanJSON } from "../utils/parser.js";
+import {
+  parseAuditResponse,
+  cleanJSON,
+  parseStructuredAuditResponse,
+  parseBatchAuditResponse,
+  parseStructuredBatchAuditResponse,
+  parseVerificationResponse,
+  validateJsonSchema,
+  SchemaValidationError,
+} from "../utils/parser.js";
+import { AUDIT_RESULT_SCHEMA } from "../config/audit-schema.js";
 
 describe("cleanJSON", () => {
   it("strips markdown json fences", () => {
@@ -88,3 +98,166 @@ describe("parseAuditResponse", () => {
     expect(result.status).toBe("PASS");
   });
 });
+
+describe("parseStructuredAuditResponse", () => {
+  const valid = {
+    status: "FAIL",
+    message: "",
+    suggestion: "",
+    issues: [
+      { line: 3, severity: "CRITICAL", message: "SQL injection", suggestion: "Use parameters" },
+      { line: 9, severity: "INFO", message: "Unused import", suggestion: "" },
+    ],
+  };
+
+  it("accepts a response that matches the schema and drops empty optional fields", () => {
+    expect(parseStructuredAuditResponse(JSON.stringify(valid))).toEqual({
+      status: "FAIL",
+      issues: [
+        { line: 3, severity: "CRITICAL", message: "SQL injection", suggestion: "Use parameters" },
+        { line: 9, severity: "INFO", message: "Unused import" },
+      ],
+    });
+  });
+
+  it("clamps lines below 1 to the first line", () => {
+    const result = parseStructuredAuditResponse(
+      JSON.stringify({
+        ...valid,
+        issues: [
+          { line: 0, severity: "WARNING", message: "File-level finding", suggestion: "" },
+          { line: -4, severity: "INFO", message: "Negative line", suggestion: "" },
+        ],
+      }),
+    );
+    expect(result.issues?.map((issue) => issue.line)).toEqual([1, 1]);
+  });
+
+  it("rejects fenced or non-JSON text instead of cleaning it", () => {
+    expect(() => parseStructuredAuditResponse("```json\n{}\n```")).toThrow(SchemaValidationError);
+    expect(() => parseStructuredAuditResponse("")).toThrow("not valid JSON");
+  });
+
+  it("reports every violation with its path", () => {
+    const invalid = {
+      status: "MAYBE",
+      message: "",
+      extra: true,
+      issues: [{ line: 1.5, severity: "WARNING", message: "x", suggestion: "" }],
+    };
+
+    let caught: unknown;
+    try {
+      parseStructuredAuditResponse(JSON.stringify(invalid));
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(SchemaValidationError);
+    expect((caught as SchemaValidationError).violations).toEqual([
+      "$.suggestion: required property is missing",
+      '$.status: expected one of PASS, FAIL, got "MAYBE"',
+      "$.extra: unexpected property",
+      "$.issues[0].line: expected integer, got number",
+    ]);
+  });
+
+  it("does not normalise invalid severities like the lenient parser", () => {
+    const response = {
+      ...valid,
+      issues: [{ line: 1, severity: "HIGH", message: "x", suggestion: "" }],
+    };
+    expect(() => parseStructuredAuditResponse(JSON.stringify(response))).toThrow(
+      "$.issues[0].severity",
+    );
+  });
+});
+
+describe("parseBatchAuditResponse", () => {
+  const paths = ["src/api/user.ts", "src/api/user.test.ts"];
+
+  it("splits results per file and matches paths by unique suffix", () => {
+    const response = JSON.stringify({
+      files: [
+        {
+          path: "src/api/user.ts",
+          status: "FAIL",
+          issues: [{ line: 4, severity: "high", message: "m" }],
+        },
+        { path: "./api/user.test.ts", status: "PASS", issues: [] },
+      ],
+    });
+
+    const results = parseBatchAuditResponse(`\`\`\`json\n${response}\n\`\`\``, paths);
+
+    expect(results.get("src/api/user.ts")).toEqual({
+      status: "FAIL",
+      issues: [{ line: 4, severity: "WARNING", message: "m" }],
+    });
+    expect(results.get("src/api/user.test.ts")).toEqual({ status: "PASS", issues: [] });
+  });
+
+  it("leaves out files the response does not cover or names ambiguously", () => {
+    const response = JSON.stringify({
+      files: [
+        { path: "user.ts", status: "PASS", issues: [] },
+        { path: "src/other.ts", status: "PASS", issues: [] },
+      ],
+    });
+
+    expect(parseBatchAuditResponse(response, ["a/user.ts", "b/user.ts"]).size).toBe(0);
+    expect(parseBatchAuditResponse("not json", paths).size).toBe(0);
+  });
+});
+
+describe("parseStructuredBatchAuditResponse", () => {
+  it("validates against the batch schema", () => {
+    const entry = { status: "PASS", message: "", suggestion: "", issues: [] };
+    const response = JSON.stringify({ files: [{ path: "a.ts", ...entry }] });
+
+    expect(parseStructuredBatchAuditResponse(response, ["a.ts"]).get("a.ts")).toEqual({
+      status: "PASS",
+      issues: [],
+    });
+    expect(() =>
+      parseStructuredBatchAuditResponse(JSON.stringify({ files: [entry] }), ["a.ts"]),
+    ).toThrow("$.files[0].path: required property is missing");
+  });
+});
+
+describe("parseVerificationResponse", () => {
+  it("keys verdicts by issue index and clamps confidence", () => {
+    const response = JSON.stringify({
+      verdicts: [
+        { index: 0, confirmed: true, confidence: 1.4, reason: "" },
+        { index: 2, confirmed: false, reason: "line does not exist" },
+        { index: "1", confirmed: true, confidence: 0.8 },
+      ],
+    });
+
+    expect(parseVerificationResponse(response)).toEqual(
+      new Map([
+        [0, { confirmed: true, confidence: 1 }],
+        [2, { confirmed: false, confidence: 0 }],
+      ]),
+    );
+    expect(parseVerificationResponse("no verdicts").size).toBe(0);
+  });
+});
+
+describe("validateJsonSchema", () => {
+  it("returns no violations for a valid value", () => {
+    expect(
+      validateJsonSchema(
+        { status: "PASS", message: "ok", suggestion: "", issues: [] },
+        AUDIT_RESULT_SCHEMA.schema,
+      ),
+    ).toEqual([]);
+  });
+
+  it("rejects a non-object root", () => {
+    expect(validateJsonSchema([], AUDIT_RESULT_SCHEMA.schema)).toEqual([
+      "$: expected object, got array",
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for per-provider circuit breakers
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { createProviderHealth, isProviderHealthError } from "../services/ai/provider-health.js";
+import { ProviderHttpError } from "../utils/errors.js";
+
+/** A breaker on a clock the test moves by hand */
+const createTestHealth = (failureThreshold = 2, cooldownMs = 1000) => {
+  const clock = { now: 0 };
+  const health = createProviderHealth({ failureThreshold, cooldownMs }, () => clock.now);
+  return { clock, health };
+};
+
+// ── createProviderHealth ─────────────────────────────────────────────────────
+
+describe("createProviderHealth", () => {
+  it("opens the circuit after consecutive failures only", () => {
+    const { health } = createTestHealth();
+
+    expect(health.recordFailure("openai/gpt-4o")).toBe(false);
+    health.recordSuccess("openai/gpt-4o");
+    expect(health.recordFailure("openai/gpt-4o")).toBe(false);
+    expect(health.allowRequest("openai/gpt-4o")).toBe(true);
+    expect(health.recordFailure("openai/gpt-4o")).toBe(true);
+
+    expect(health.state("openai/gpt-4o")).toBe("open");
+    expect(health.allowRequest("openai/gpt-4o")).toBe(false);
+    // Other providers keep their own state
+    expect(health.allowRequest("anthropic/claude-sonnet-4-5")).toBe(true);
+  });
+
+  it("lets one trial request through after the cooldown and closes on success", () => {
+    const { clock, health } = createTestHealth();
+    health.recordFailure("openai/gpt-4o");
+    health.recordFailure("openai/gpt-4o");
+
+    clock.now = 999;
+    expect(health.allowRequest("openai/gpt-4o")).toBe(false);
+    clock.now = 1000;
+    expect(health.state("openai/gpt-4o")).toBe("half-open");
+    expect(health.allowRequest("openai/gpt-4o")).toBe(true);
+    // Only the trial request while it is in flight
+    expect(health.allowRequest("openai/gpt-4o")).toBe(false);
+
+    health.recordSuccess("openai/gpt-4o");
+    expect(health.state("openai/gpt-4o")).toBe("closed");
+    expect(health.allowRequest("openai/gpt-4o")).toBe(true);
+  });
+
+  it("reopens the circuit for another cooldown when the trial request fails", () => {
+    const { clock, health } = createTestHealth(3);
+    for (let attempt = 0; attempt < 3; attempt += 1) health.recordFailure("openai/gpt-4o");
+
+    clock.now = 1000;
+    expect(health.allowRequest("openai/gpt-4o")).toBe(true);
+    expect(health.recordFailure("openai/gpt-4o")).toBe(true);
+
+    clock.now = 1999;
+    expect(health.allowRequest("openai/gpt-4o")).toBe(false);
+    clock.now = 2000;
+    expect(health.allowRequest("openai/gpt-4o")).toBe(true);
+  });
+
+  it("does not extend an open circuit for requests that were already in flight", () => {
+    const { clock, health } = createTestHealth();
+    health.recordFailure("openai/gpt-4o");
+    health.recordFailure("openai/gpt-4o");
+
+    clock.now = 500;
+    expect(health.recordFailure("openai/gpt-4o")).toBe(false);
+    clock.now = 1000;
+    expect(health.allowRequest("openai/gpt-4o")).toBe(true);
+  });
+
+  it("keeps the circuit open when a trial request fails for reasons of its own", () => {
+    const { clock, health } = createTestHealth();
+    health.recordFailure("openai/gpt-4o");
+    health.recordFailure("openai/gpt-4o");
+
+    clock.now = 1000;
+    expect(health.allowRequest("openai/gpt-4o")).toBe(true);
+    health.releaseTrial("openai/gpt-4o");
+    expect(health.state("openai/gpt-4o")).toBe("half-open");
+    expect(health.allowRequest("openai/gpt-4o")).toBe(true);
+  });
+
+  it("reports requests and trips per provider", () => {
+    const { health } = createTestHealth();
+    health.recordSuccess("anthropic/claude-sonnet-4-5");
+    health.recordFailure("openai/gpt-4o");
+    health.recordFailure("openai/gpt-4o");
+
+    expect(health.stats()).toEqual([
+      {
+        provider: "anthropic/claude-sonnet-4-5",
+        state: "closed",
+        successes: 1,
+        failures: 0,
+        trips: 0,
+      },
+      { provider: "openai/gpt-4o", state: "open", successes: 0, failures: 2, trips: 1 },
+    ]);
+  });
+});
+
+// ── isProviderHealthError ────────────────────────────────────────────────────
+
+describe("isProviderHealthError", () => {
+  it("counts server errors, rate limits and network failures", () => {
+    expect(isProviderHealthError(new ProviderHttpError("API error: 500", 500))).toBe(true);
+    expect(isProviderHealthError(new ProviderHttpError("API error: 429", 429))).toBe(true);
+    expect(isProviderHealthError(new Error("read ECONNRESET"))).toBe(true);
+    expect(isProviderHealthError(new TypeError("fetch failed"))).toBe(true);
+  });
+
+  it("ignores errors of a single request", () => {
+    expect(isProviderHealthError(new ProviderHttpError("API error: 400", 400))).toBe(false);
+    expect(isProviderHealthError(new Error("Unexpected token in JSON"))).toBe(false);
+  });
+});
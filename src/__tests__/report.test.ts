@@ -0,0 +1,356 @@
+/**
+ * Unit tests for report formatters
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { buildSarifLog, SECRET_DETECTED_RULE_ID } from "../formatters/sarif.js";
+import { escapeXml, formatJUnitReport } from "../formatters/junit.js";
+import { buildCheckRunReport } from "../services/check-run.js";
+import { formatMarkdownReport, formatReport } from "../formatters/report.js";
+import type { FileAuditResult, ReviewReport } from "../types/index.js";
+
+const buildReport = (overrides: Partial<ReviewReport> = {}): ReviewReport => ({
+  schemaVersion: "1.1",
+  status: "FAIL",
+  target: { mode: "range", value: "origin/main...HEAD" },
+  aiEnabled: true,
+  promptVersion: "2026-02-16",
+  summary: {
+    totalFiles: 2,
+    auditedFiles: 2,
+    passedFiles: 1,
+    failedFiles: 1,
+    criticalIssues: 1,
+    warningIssues: 1,
+    infoIssues: 0,
+    durationMs: 1200,
+    totalChangedLines: 40,
+  },
+  results: [
+    {
+      filePath: "src/a.ts",
+      duration: 10,
+      result: {
+        status: "FAIL",
+        issues: [
+          { line: 12, severity: "CRITICAL", message: "SQL injection", suggestion: "Use params" },
+          { line: 30, severity: "WARNING", message: "Magic number" },
+        ],
+      },
+    },
+    { filePath: "src/b.ts", duration: 5, result: { status: "PASS", issues: [] } },
+  ],
+  skipped: [],
+  redactions: [],
+  errors: [],
+  generatedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+// ── buildSarifLog ─────────────────────────────────────────────────────────────
+
+describe("buildSarifLog", () => {
+  it("emits a SARIF 2.1.0 log with a single run", () => {
+    const sarif = buildSarifLog(buildReport());
+    expect(sarif.version).toBe("2.1.0");
+    expect(sarif.runs).toHaveLength(1);
+    expect(sarif.runs[0]?.tool.driver.name).toBe("mp-sentinel");
+  });
+
+  it("maps severities to SARIF levels with physical locations", () => {
+    const results = buildSarifLog(buildReport()).runs[0]?.results ?? [];
+    expect(results).toHaveLength(2);
+    expect(results[0]?.level).toBe("error");
+    expect(results[0]?.ruleId).toBe("mp-sentinel/critical");
+    expect(results[0]?.locations[0]?.physicalLocation.region?.startLine).toBe(12);
+    expect(results[0]?.locations[0]?.physicalLocation.artifactLocation.uri).toBe("src/a.ts");
+    expect(results[0]?.properties).toEqual({ suggestion: "Use params" });
+    expect(results[1]?.level).toBe("warning");
+  });
+
+  it("registers each rule once and points results at its index", () => {
+    const run = buildSarifLog(buildReport()).runs[0];
+    const rules = run?.tool.driver.rules ?? [];
+    expect(rules.map((rule) => rule.id)).toEqual(["mp-sentinel/critical", "mp-sentinel/warning"]);
+    for (const result of run?.results ?? []) {
+      expect(rules[result.ruleIndex]?.id).toBe(result.ruleId);
+    }
+  });
+
+  it("reports each redacted secret pattern as its own rule", () => {
+    const sarif = buildSarifLog(
+      buildReport({
+        results: [],
+        redactions: [
+          {
+            path: "src/config.ts",
+            redactedCount: 2,
+            matchedPatterns: ["AWS Access Key ID", "Bearer Token"],
+          },
+        ],
+      }),
+    );
+    const run = sarif.runs[0];
+    expect(run?.tool.driver.rules.map((rule) => rule.id)).toEqual([
+      "mp-sentinel/secret/aws-access-key-id",
+      "mp-sentinel/secret/bearer-token",
+    ]);
+    expect(run?.results.every((result) => result.level === "error")).toBe(true);
+  });
+
+  it("does not duplicate the synthetic secret issue from security-only results", () => {
+    const sarif = buildSarifLog(
+      buildReport({
+        results: [
+          {
+            filePath: "src/config.ts",
+            duration: 0,
+            result: {
+              status: "FAIL",
+              issues: [
+                {
+                  ruleId: SECRET_DETECTED_RULE_ID,
+                  line: 1,
+                  severity: "CRITICAL",
+                  message: "Potential secret detected (1 redaction(s))",
+                },
+              ],
+            },
+          },
+        ],
+        redactions: [
+          { path: "src/config.ts", redactedCount: 1, matchedPatterns: ["Bearer Token"] },
+        ],
+      }),
+    );
+    expect(sarif.runs[0]?.results.map((result) => result.ruleId)).toEqual([
+      "mp-sentinel/secret/bearer-token",
+    ]);
+  });
+
+  it("turns errored files and runtime errors into tool notifications", () => {
+    const sarif = buildSarifLog(
+      buildReport({
+        status: "ERROR",
+        results: [
+          {
+            filePath: "src/a.ts",
+            duration: 1,
+            result: { status: "ERROR", message: "timeout", issues: [] },
+          },
+        ],
+        errors: ["provider down"],
+      }),
+    );
+    const invocation = sarif.runs[0]?.invocations[0];
+    expect(invocation?.executionSuccessful).toBe(false);
+    expect(invocation?.toolExecutionNotifications.map((n) => n.message.text)).toEqual([
+      "src/a.ts: timeout",
+      "provider down",
+    ]);
+    expect(sarif.runs[0]?.results).toHaveLength(0);
+  });
+});
+
+// ── formatJUnitReport ─────────────────────────────────────────────────────────
+
+describe("formatJUnitReport", () => {
+  it("emits one testsuite with a testcase per audited file", () => {
+    const xml = formatJUnitReport(buildReport());
+    expect(xml.match(/<testsuite /g)).toHaveLength(1);
+    expect(xml.match(/<testcase /g)).toHaveLength(2);
+    expect(xml).toContain('tests="2" failures="1" errors="0" skipped="0" time="1.200"');
+    expect(xml).toContain('name="src/b.ts" time="0.005" />');
+  });
+
+  it("turns FAIL results into failure elements carrying the issues", () => {
+    const xml = formatJUnitReport(buildReport());
+    expect(xml).toContain('<failure message="2 issue(s) found" type="AuditFailure">');
+    expect(xml).toContain("[CRITICAL] Line 12: SQL injection");
+    expect(xml).toContain("Suggestion: Use params");
+  });
+
+  it("shows how many ensemble models reported an issue", () => {
+    const xml = formatJUnitReport(
+      buildReport({
+        results: [
+          {
+            filePath: "src/a.ts",
+            duration: 1,
+            result: {
+              status: "FAIL",
+              issues: [
+                {
+                  line: 12,
+                  severity: "CRITICAL",
+                  message: "SQL injection",
+                  patchLine: 5,
+                  anchored: true,
+                  agreement: { models: ["openai/gpt-4o", "gemini/gemini-2.5-pro"], total: 3 },
+                },
+              ],
+            },
+          },
+        ],
+      }),
+    );
+    expect(xml).toContain("[CRITICAL] Line 12 (patch line 5, 2/3 models): SQL injection");
+  });
+
+  it("turns ERROR results into error elements", () => {
+    const xml = formatJUnitReport(
+      buildReport({
+        results: [
+          {
+            filePath: "src/a.ts",
+            duration: 1,
+            result: { status: "ERROR", message: "timeout", issues: [] },
+          },
+        ],
+      }),
+    );
+    expect(xml).toContain('<error message="timeout" type="AuditError">timeout</error>');
+    expect(xml).toContain('failures="0" errors="1"');
+  });
+
+  it("reports skipped files as skipped testcases", () => {
+    const xml = formatJUnitReport(
+      buildReport({ skipped: [{ path: "assets/logo.png", reason: "Binary diff skipped" }] }),
+    );
+    expect(xml).toContain('name="assets/logo.png" time="0.000">');
+    expect(xml).toContain('<skipped message="Binary diff skipped" />');
+    expect(xml).toContain('tests="3"');
+  });
+
+  it("escapes XML special characters in messages", () => {
+    expect(escapeXml(`a < b && "c" > 'd'`)).toBe(
+      "a &lt; b &amp;&amp; &quot;c&quot; &gt; &apos;d&apos;",
+    );
+  });
+});
+
+// ── buildCheckRunReport ───────────────────────────────────────────────────────
+
+describe("buildCheckRunReport", () => {
+  it("maps the report status to a check conclusion", () => {
+    expect(buildCheckRunReport(buildReport()).conclusion).toBe("failure");
+    expect(buildCheckRunReport(buildReport({ status: "PASS" })).conclusion).toBe("success");
+    expect(buildCheckRunReport(buildReport({ status: "ERROR" })).conclusion).toBe("failure");
+  });
+
+  it("annotates anchored issues and uses the markdown report as summary", () => {
+    const check = buildCheckRunReport(buildReport(), "custom-check");
+    expect(check.name).toBe("custom-check");
+    expect(check.title).toBe("1 critical, 1 warning, 0 info");
+    expect(check.summary).toContain("# MP Sentinel Review Report");
+    expect(check.annotations).toHaveLength(2);
+    expect(check.annotations[0]).toMatchObject({
+      path: "src/a.ts",
+      startLine: 12,
+      level: "failure",
+      message: "SQL injection\n\nSuggestion: Use params",
+    });
+  });
+
+  it("leaves unanchored issues out of the annotations", () => {
+    const report = buildReport({
+      results: [
+        {
+          filePath: "src/a.ts",
+          duration: 1,
+          result: {
+            status: "FAIL",
+            issues: [{ line: 900, severity: "WARNING", message: "Guess", anchored: false }],
+          },
+        },
+      ],
+    });
+    expect(buildCheckRunReport(report).annotations).toHaveLength(0);
+  });
+});
+
+// ── Usage section ────────────────────────────────────────────────────────────
+
+describe("report usage", () => {
+  const usage: NonNullable<ReviewReport["usage"]> = {
+    promptTokens: 1200,
+    completionTokens: 300,
+    totalTokens: 1500,
+    estimatedCost: 0.006,
+    unpricedModels: ["openai-compatible/llama3.1"],
+    byProvider: [
+      {
+        provider: "openai",
+        model: "gpt-4o",
+        requests: 2,
+        promptTokens: 1000,
+        completionTokens: 250,
+        estimatedCost: 0.006,
+      },
+      {
+        provider: "openai-compatible",
+        model: "llama3.1",
+        requests: 1,
+        promptTokens: 200,
+        completionTokens: 50,
+      },
+    ],
+    byFile: [{ path: "src/a.ts", promptTokens: 1200, completionTokens: 300, estimatedCost: 0.006 }],
+  };
+
+  it("renders token and cost tables in markdown", () => {
+    const markdown = formatMarkdownReport(buildReport({ usage }));
+    expect(markdown).toContain("## Usage");
+    expect(markdown).toContain("- Estimated cost: $0.0060");
+    expect(markdown).toContain("- No price configured for: `openai-compatible/llama3.1`");
+    expect(markdown).toContain("| openai | `gpt-4o` | 2 | 1000 | 250 | $0.0060 |");
+    expect(markdown).toContain("| openai-compatible | `llama3.1` | 1 | 200 | 50 | n/a |");
+    expect(markdown).toContain("| `src/a.ts` | 1200 | 300 | $0.0060 |");
+  });
+
+  it("explains how much of the run budget was used", () => {
+    const markdown = formatMarkdownReport(
+      buildReport({
+        usage: {
+          ...usage,
+          budget: {
+            maxTokens: 1000,
+            maxCost: 0.01,
+            usedTokens: 1500,
+            usedCost: 0.006,
+            exhausted: true,
+            skippedFiles: 3,
+          },
+        },
+      }),
+    );
+    expect(markdown).toContain(
+      "- Budget: 1,500 of 1,000 tokens (150%), $0.0060 of $0.01 (60%), exhausted: 3 file(s) skipped",
+    );
+  });
+
+  it("omits the section when the AI review did not run", () => {
+    expect(formatMarkdownReport(buildReport())).not.toContain("## Usage");
+  });
+
+  it("includes usage in JSON output", () => {
+    expect(JSON.parse(formatReport(buildReport({ usage }), "json")).usage).toEqual(usage);
+  });
+});
+
+// ── report findings ──────────────────────────────────────────────────────────
+
+describe("report findings", () => {
+  it("names the provider that produced each finding in markdown", () => {
+    const [failed, passed] = buildReport().results;
+    const markdown = formatMarkdownReport(
+      buildReport({
+        results: [
+          { ...(failed as FileAuditResult), providers: ["anthropic/claude-sonnet-4.5"] },
+          passed as FileAuditResult,
+        ],
+      }),
+    );
+    expect(markdown).toContain("### `src/a.ts` (via anthropic/claude-sonnet-4.5)");
+  });
+});
@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, jest } from "@jest/globals";
-import { withRetry, isRetryableError } from "../utils/retry.js";
+import { withRetry, isRateLimitError, isRetryableError, parseRetryAfter } from "../utils/retry.js";
+import { ProviderHttpError } from "../utils/errors.js";
 
 // ── isRetryableError ──────────────────────────────────────────────────────────
 
@@ -83,4 +84,105 @@ describe("withRetry", () => {
     );
     expect(fn).toHaveBeenCalledTimes(1);
   });
+
+  it("waits as long as the provider asks and reports each retry", async () => {
+    const delays: number[] = [];
+    let calls = 0;
+    const fn = jest.fn<() => Promise<string>>().mockImplementation(async () => {
+      calls++;
+      if (calls === 1) throw new ProviderHttpError("API error: 429 Too Many Requests", 429, 30);
+      return "ok";
+    });
+
+    const started = Date.now();
+    await expect(
+      withRetry(fn, { baseDelayMs: 1, onRetry: (_, delay) => delays.push(delay) }),
+    ).resolves.toBe("ok");
+    expect(delays).toEqual([30]);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(25);
+  });
+
+  it("gives up at once when the requested wait is too long", async () => {
+    const fn = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(new ProviderHttpError("API error: 429", 429, 120_000));
+
+    await expect(withRetry(fn, { maxRetryAfterMs: 60_000 })).rejects.toThrow("429");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ── isRateLimitError ──────────────────────────────────────────────────────────
+
+describe("isRateLimitError", () => {
+  it("detects 429 responses by status or message", () => {
+    expect(isRateLimitError(new ProviderHttpError("API error: 429", 429))).toBe(true);
+    expect(isRateLimitError(new ProviderHttpError("API error: 503", 503))).toBe(false);
+    expect(isRateLimitError(new Error("[429 Too Many Requests]"))).toBe(true);
+    expect(isRateLimitError("429")).toBe(false);
+  });
+});
+
+// ── parseRetryAfter ───────────────────────────────────────────────────────────
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  it("reads Retry-After seconds and HTTP dates", () => {
+    expect(parseRetryAfter(new Headers({ "retry-after": "7" }), now)).toBe(7000);
+    expect(
+      parseRetryAfter(new Headers({ "retry-after": "Thu, 01 Jan 2026 00:00:05 GMT" }), now),
+    ).toBe(5000);
+  });
+
+  it("prefers retry-after-ms", () => {
+    const headers = new Headers({ "retry-after-ms": "250", "retry-after": "1" });
+    expect(parseRetryAfter(headers, now)).toBe(250);
+  });
+
+  it("prefers the reset of an exhausted bucket", () => {
+    expect(
+      parseRetryAfter(
+        new Headers({
+          "x-ratelimit-remaining-requests": "0",
+          "x-ratelimit-reset-requests": "2s",
+          "x-ratelimit-remaining-tokens": "40000",
+          "x-ratelimit-reset-tokens": "6m0s",
+        }),
+        now,
+      ),
+    ).toBe(2000);
+    expect(
+      parseRetryAfter(
+        new Headers({
+          "anthropic-ratelimit-requests-remaining": "12",
+          "anthropic-ratelimit-requests-reset": "2026-01-01T00:05:00Z",
+          "anthropic-ratelimit-tokens-remaining": "0",
+          "anthropic-ratelimit-tokens-reset": "2026-01-01T00:00:04Z",
+        }),
+        now,
+      ),
+    ).toBe(4000);
+  });
+
+  it("falls back to the latest rate-limit reset", () => {
+    expect(
+      parseRetryAfter(
+        new Headers({ "x-ratelimit-reset-requests": "1s", "x-ratelimit-reset-tokens": "6m0s" }),
+        now,
+      ),
+    ).toBe(360_000);
+    expect(
+      parseRetryAfter(
+        new Headers({ "anthropic-ratelimit-tokens-reset": "2026-01-01T00:00:03Z" }),
+        now,
+      ),
+    ).toBe(3000);
+  });
+
+  it("returns undefined without rate-limit headers", () => {
+    expect(
+      parseRetryAfter(new Headers({ "content-type": "application/json" }), now),
+    ).toBeUndefined();
+  });
 });
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for PR comment selection
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  buildReviewSubmission,
+  collectReviewedFiles,
+  selectCommentableIssues,
+} from "../services/review-comments.js";
+import { buildReviewComments, planCommentSync } from "../services/git-provider/index.js";
+import { SECRET_DETECTED_RULE_ID } from "../formatters/sarif.js";
+import type { FileAuditResult, ReviewReport } from "../types/index.js";
+
+const results: FileAuditResult[] = [
+  {
+    filePath: "src/a.ts",
+    duration: 1,
+    result: {
+      status: "FAIL",
+      issues: [
+        { line: 10, severity: "CRITICAL", message: "SQL injection", anchored: true },
+        { line: 12, severity: "WARNING", message: "Magic number", anchored: true },
+        { line: 14, severity: "INFO", message: "Consider JSDoc", anchored: true },
+        { line: 400, severity: "CRITICAL", message: "Hallucinated", anchored: false },
+      ],
+    },
+  },
+  {
+    filePath: "src/secrets.ts",
+    duration: 0,
+    result: {
+      status: "FAIL",
+      issues: [
+        {
+          ruleId: SECRET_DETECTED_RULE_ID,
+          line: 1,
+          severity: "CRITICAL",
+          message: "Potential secret detected (1 redaction(s))",
+        },
+      ],
+    },
+  },
+  {
+    filePath: "src/broken.ts",
+    duration: 1,
+    result: { status: "ERROR", message: "timeout", issues: [] },
+  },
+];
+
+describe("selectCommentableIssues", () => {
+  it("defaults to WARNING and above", () => {
+    const selected = selectCommentableIssues(results);
+    expect(selected.map((entry) => entry.issue.message)).toEqual(["SQL injection", "Magic number"]);
+  });
+
+  it("respects the minimum severity", () => {
+    expect(selectCommentableIssues(results, "CRITICAL")).toHaveLength(1);
+    expect(selectCommentableIssues(results, "INFO")).toHaveLength(3);
+  });
+
+  it("never selects secret-detection findings", () => {
+    const selected = selectCommentableIssues(results, "INFO");
+    expect(selected.some((entry) => entry.filePath === "src/secrets.ts")).toBe(false);
+  });
+
+  it("skips issues that are not anchored to the diff", () => {
+    const selected = selectCommentableIssues(results, "INFO");
+    expect(selected.some((entry) => entry.issue.line === 400)).toBe(false);
+  });
+});
+
+const report = (
+  status: ReviewReport["status"],
+  overrides: Partial<ReviewReport> = {},
+): ReviewReport => ({
+  schemaVersion: "1.1",
+  status,
+  target: { mode: "range", value: "main..HEAD" },
+  aiEnabled: true,
+  promptVersion: "v1",
+  summary: {
+    totalFiles: 3,
+    auditedFiles: 3,
+    passedFiles: 1,
+    failedFiles: 2,
+    criticalIssues: 2,
+    warningIssues: 1,
+    infoIssues: 1,
+    durationMs: 10,
+    totalChangedLines: 40,
+  },
+  results,
+  skipped: [],
+  redactions: [],
+  errors: [],
+  generatedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("buildReviewSubmission", () => {
+  it("requests changes only for failing reports", () => {
+    expect(buildReviewSubmission(report("FAIL")).requestChanges).toBe(true);
+    expect(buildReviewSubmission(report("PASS")).requestChanges).toBe(false);
+    expect(buildReviewSubmission(report("ERROR")).requestChanges).toBe(false);
+  });
+
+  it("dismisses earlier change requests only for passing reports", () => {
+    expect(buildReviewSubmission(report("PASS")).passed).toBe(true);
+    expect(buildReviewSubmission(report("FAIL")).passed).toBe(false);
+    expect(buildReviewSubmission(report("ERROR")).passed).toBe(false);
+  });
+
+  it("summarizes the report counts", () => {
+    const { summary } = buildReviewSubmission(report("FAIL"));
+    expect(summary).toContain("MP Sentinel Review: FAIL");
+    expect(summary).toContain("| Critical issues | 2 |");
+  });
+});
+
+describe("collectReviewedFiles", () => {
+  it("lists only files reviewed to PASS or FAIL", () => {
+    expect([...collectReviewedFiles(report("FAIL"))]).toEqual(["src/a.ts", "src/secrets.ts"]);
+  });
+
+  it("keeps the existing comment of a file that came back ERROR", () => {
+    const [stale] = buildReviewComments([
+      {
+        filePath: "src/broken.ts",
+        issue: { line: 3, severity: "WARNING", message: "Old finding" },
+      },
+    ]);
+    const existing = [
+      { id: "1", fingerprint: stale!.fingerprint, body: stale!.body, filePath: "src/broken.ts" },
+    ];
+
+    const plan = planCommentSync([], existing, collectReviewedFiles(report("FAIL")));
+    expect(plan.remove).toEqual([]);
+    // The same comment is removed once its file is reviewed again
+    expect(planCommentSync([], existing, new Set(["src/broken.ts"])).remove).toEqual(existing);
+  });
+
+  it("removes nothing when the AI review did not run or failed", () => {
+    expect(collectReviewedFiles(report("FAIL", { aiEnabled: false })).size).toBe(0);
+    expect(collectReviewedFiles(report("ERROR", { errors: ["AI provider crashed"] })).size).toBe(0);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the work-queue scheduler and its rate-limit adaptation
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { createScheduler, formatSchedulerStats } from "../services/ai/scheduler.js";
+import { parseRetryAfter } from "../utils/retry.js";
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A task that records when it starts and finishes after `ms` */
+const timed = (log: string[], name: string, ms: number) => async (): Promise<string> => {
+  log.push(`start ${name}`);
+  await sleep(ms);
+  log.push(`end ${name}`);
+  return name;
+};
+
+// ── createScheduler ──────────────────────────────────────────────────────────
+
+describe("createScheduler", () => {
+  it("starts the next task as soon as any finishes", async () => {
+    const log: string[] = [];
+    const scheduler = createScheduler(2);
+
+    const results = await scheduler.run([
+      timed(log, "slow", 60),
+      timed(log, "fast", 5),
+      timed(log, "next", 5),
+    ]);
+
+    // "next" does not wait for "slow"
+    expect(log.indexOf("start next")).toBeLessThan(log.indexOf("end slow"));
+    expect(results.map((result) => result.status === "fulfilled" && result.value)).toEqual([
+      "slow",
+      "fast",
+      "next",
+    ]);
+    expect(scheduler.stats()).toMatchObject({ tasks: 3, peakInFlight: 2, rateLimited: 0 });
+  });
+
+  it("never runs more than maxConcurrency tasks at once", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const scheduler = createScheduler(3);
+    const task = async (): Promise<void> => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await sleep(2);
+      inFlight -= 1;
+    };
+
+    await scheduler.run(Array.from({ length: 10 }, () => task));
+    expect(peak).toBe(3);
+  });
+
+  it("settles rejected tasks without stopping the queue", async () => {
+    const settledOrder: number[] = [];
+    const results = await createScheduler(1).run(
+      [
+        async () => {
+          throw new Error("boom");
+        },
+        async () => "ok",
+      ],
+      (_, index) => settledOrder.push(index),
+    );
+
+    expect(results[0]).toMatchObject({ status: "rejected" });
+    expect(results[1]).toEqual({ status: "fulfilled", value: "ok" });
+    expect(settledOrder).toEqual([0, 1]);
+  });
+
+  it("halves concurrency on rate limits and grows it back after successes", async () => {
+    const scheduler = createScheduler(4);
+    scheduler.rateLimited();
+    // A burst of 429s from calls already in flight counts once
+    scheduler.rateLimited();
+    expect(scheduler.stats()).toMatchObject({ finalConcurrency: 2, rateLimited: 2 });
+
+    await scheduler.run(Array.from({ length: 5 }, () => async () => undefined));
+    expect(scheduler.stats()).toMatchObject({ minConcurrency: 2, finalConcurrency: 4 });
+  });
+
+  it("holds back new tasks for the requested wait", async () => {
+    const scheduler = createScheduler(2);
+    const started: number[] = [];
+    const begin = Date.now();
+
+    await scheduler.run([
+      async () => {
+        started.push(Date.now() - begin);
+        scheduler.rateLimited(80);
+      },
+      async () => {
+        started.push(Date.now() - begin);
+      },
+      async () => {
+        started.push(Date.now() - begin);
+      },
+    ]);
+
+    // The second task started before the 429; the third waited for it
+    expect(started[2]).toBeGreaterThanOrEqual(70);
+    expect(scheduler.stats().pausedMs).toBeGreaterThanOrEqual(70);
+  });
+
+  it("caps the pause for a 429 with a long reset header", async () => {
+    const scheduler = createScheduler(1, 50);
+    const retryAfterMs = parseRetryAfter(
+      new Headers({ "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "10m0s" }),
+    );
+    expect(retryAfterMs).toBe(600_000);
+    const begin = Date.now();
+
+    await scheduler.run([async () => scheduler.rateLimited(retryAfterMs), async () => undefined]);
+
+    expect(Date.now() - begin).toBeLessThan(1000);
+    expect(scheduler.stats().pausedMs).toBeGreaterThanOrEqual(40);
+  });
+
+  it("resolves an empty run immediately", async () => {
+    await expect(createScheduler(2).run([])).resolves.toEqual([]);
+  });
+});
+
+describe("formatSchedulerStats", () => {
+  it("summarizes concurrency changes and rate limits", () => {
+    expect(
+      formatSchedulerStats({
+        tasks: 12,
+        maxConcurrency: 8,
+        minConcurrency: 2,
+        finalConcurrency: 5,
+        peakInFlight: 8,
+        rateLimited: 3,
+        pausedMs: 4200,
+      }),
+    ).toBe(
+      "Scheduler: 12 task(s), concurrency 8 → 2 → 5, peak 8 in flight, 3 rate limit(s), 4.2s paused",
+    );
+  });
+});
@@ -2,14 +2,17 @@
  * Unit tests for token estimation utilities
  */
 
-import { describe, it, expect } from "@jest/globals";
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
 import {
   resolveTokenLimit,
   PROVIDER_TOKEN_LIMITS,
   warnIfTokenLimitExceeded,
   chunkFileContent,
   estimatePayloadTokens,
+  generatePayloadSummary,
 } from "../utils/tokens.js";
+import { splitFilesIntoPromptPayloads } from "../utils/diff.js";
+import { setLogQuietMode } from "../utils/logger.js";
 
 // ── resolveTokenLimit ─────────────────────────────────────────────────────────
 
@@ -137,3 +140,41 @@ describe("estimatePayloadTokens", () => {
     expect(largeTotal).toBeGreaterThan(smallTotal);
   });
 });
+
+// ── generatePayloadSummary ────────────────────────────────────────────────────
+
+describe("generatePayloadSummary", () => {
+  beforeAll(() => setLogQuietMode(true));
+  afterAll(() => setLogQuietMode(false));
+
+  // 40 hunks of ~20 lines each: far more tokens than the limit below in total
+  const largePatch = Array.from({ length: 40 }, (_, hunk) => [
+    `@@ -${hunk * 30 + 1},20 +${hunk * 30 + 1},20 @@`,
+    ...Array.from({ length: 20 }, (_, line) => `+const value${line} = compute(input${line});`),
+  ])
+    .flat()
+    .join("\n");
+  const files = [{ path: "src/large.ts", content: largePatch }];
+  const tokenLimit = 2_000;
+
+  it("compares the whole payload against the limit", async () => {
+    const { exceeded, total } = await generatePayloadSummary(files, tokenLimit);
+    expect(total).toBeGreaterThan(tokenLimit);
+    expect(exceeded).toBe(true);
+  });
+
+  it("checks each prompt of a chunked review against the limit instead", async () => {
+    const payloads = splitFilesIntoPromptPayloads(files, 4_000);
+    expect(payloads.length).toBeGreaterThan(1);
+    expect(payloads[0]?.path).toBe("src/large.ts#1");
+
+    const { exceeded, total } = await generatePayloadSummary(
+      payloads,
+      tokenLimit,
+      "system prompt",
+      true,
+    );
+    expect(total).toBeGreaterThan(tokenLimit);
+    expect(exceeded).toBe(false);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Unit tests for token usage aggregation and model pricing
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { estimateCost, resolveModelPricing } from "../config/pricing.js";
+import {
+  createBudgetTracker,
+  createUsageRecorder,
+  splitUsage,
+  summarizeUsage,
+} from "../services/ai/usage.js";
+import type { FileAuditResult } from "../types/index.js";
+
+// ── resolveModelPricing ──────────────────────────────────────────────────────
+
+describe("resolveModelPricing", () => {
+  it("matches exact model names and dated snapshots by the longest prefix", () => {
+    expect(resolveModelPricing("gpt-4o")).toEqual({ input: 2.5, output: 10 });
+    expect(resolveModelPricing("gpt-4o-mini-2024-07-18")).toEqual({ input: 0.15, output: 0.6 });
+  });
+
+  it("prefers configured prices and returns undefined for unknown models", () => {
+    expect(resolveModelPricing("gpt-4o", { "gpt-4o": { input: 1, output: 2 } })).toEqual({
+      input: 1,
+      output: 2,
+    });
+    expect(resolveModelPricing("qwen2.5-coder")).toBeUndefined();
+  });
+
+  it("estimates cost per million tokens", () => {
+    expect(
+      estimateCost(
+        { promptTokens: 2_000_000, completionTokens: 500_000 },
+        { input: 3, output: 15 },
+      ),
+    ).toBeCloseTo(13.5);
+  });
+});
+
+// ── Usage aggregation ────────────────────────────────────────────────────────
+
+describe("createUsageRecorder", () => {
+  it("sums retries per provider and model and prices known models", () => {
+    const recorder = createUsageRecorder();
+    recorder.record(
+      { provider: "openai", model: "gpt-4o" },
+      { promptTokens: 100, completionTokens: 10 },
+    );
+    recorder.record(
+      { provider: "openai", model: "gpt-4o" },
+      { promptTokens: 100, completionTokens: 20 },
+    );
+    recorder.record(
+      { provider: "openai-compatible", model: "llama3.1" },
+      { promptTokens: 50, completionTokens: 5 },
+    );
+
+    expect(recorder.entries()).toEqual([
+      {
+        provider: "openai",
+        model: "gpt-4o",
+        requests: 2,
+        promptTokens: 200,
+        completionTokens: 30,
+        estimatedCost: 0.0008,
+      },
+      {
+        provider: "openai-compatible",
+        model: "llama3.1",
+        requests: 1,
+        promptTokens: 50,
+        completionTokens: 5,
+      },
+    ]);
+  });
+});
+
+describe("summarizeUsage", () => {
+  const result = (filePath: string, usage?: FileAuditResult["usage"]): FileAuditResult => ({
+    filePath,
+    duration: 1,
+    result: { status: "PASS", issues: [] },
+    ...(usage && { usage }),
+  });
+
+  it("aggregates usage per provider and per file, skipping cached results", () => {
+    const usage = summarizeUsage([
+      result("a.ts", [
+        {
+          provider: "openai",
+          model: "gpt-4o",
+          requests: 1,
+          promptTokens: 100,
+          completionTokens: 10,
+          estimatedCost: 0.01,
+        },
+      ]),
+      result("b.ts", [
+        {
+          provider: "openai",
+          model: "gpt-4o",
+          requests: 1,
+          promptTokens: 300,
+          completionTokens: 30,
+          estimatedCost: 0.03,
+        },
+        {
+          provider: "openai-compatible",
+          model: "llama3.1",
+          requests: 1,
+          promptTokens: 5,
+          completionTokens: 1,
+        },
+      ]),
+      result("cached.ts"),
+    ]);
+
+    expect(usage).toMatchObject({
+      promptTokens: 405,
+      completionTokens: 41,
+      totalTokens: 446,
+      unpricedModels: ["openai-compatible/llama3.1"],
+    });
+    expect(usage.estimatedCost).toBeCloseTo(0.04);
+    expect(usage.byProvider.map((entry) => [entry.model, entry.requests])).toEqual([
+      ["gpt-4o", 2],
+      ["llama3.1", 1],
+    ]);
+    expect(usage.byFile.map((entry) => entry.path)).toEqual(["a.ts", "b.ts"]);
+    expect(usage.byFile[1]).toMatchObject({ promptTokens: 305, completionTokens: 31 });
+  });
+});
+
+// ── Run budget ───────────────────────────────────────────────────────────────
+
+describe("createBudgetTracker", () => {
+  const entry = (promptTokens: number, estimatedCost?: number) => ({
+    provider: "openai",
+    model: "gpt-4o",
+    requests: 1,
+    promptTokens,
+    completionTokens: 0,
+    ...(estimatedCost !== undefined && { estimatedCost }),
+  });
+
+  it("stays open until the token limit is reached", () => {
+    const budget = createBudgetTracker({ maxTokens: 1000 });
+    budget.add([entry(600)]);
+    expect(budget.exhaustedReason()).toBeNull();
+    budget.add([entry(400)]);
+    expect(budget.exhaustedReason()).toBe(
+      "AI budget exhausted: 1,000 of 1,000 tokens used (ai.maxTokensPerRun)",
+    );
+  });
+
+  it("counts only priced usage toward the cost limit", () => {
+    const budget = createBudgetTracker({ maxCost: 0.1 });
+    budget.add([entry(1_000_000)]);
+    expect(budget.exhaustedReason()).toBeNull();
+    budget.add([entry(10, 0.12)]);
+    expect(budget.exhaustedReason()).toContain("$0.1200 of $0.10 used (ai.maxCostPerRun)");
+  });
+
+  it("never runs out without limits", () => {
+    const budget = createBudgetTracker({});
+    budget.add([entry(10_000_000, 100)]);
+    expect(budget.exhaustedReason()).toBeNull();
+  });
+});
+
+describe("summarizeUsage budget", () => {
+  const results: FileAuditResult[] = [
+    {
+      filePath: "a.ts",
+      duration: 1,
+      result: { status: "PASS" },
+      usage: [
+        {
+          provider: "openai",
+          model: "gpt-4o",
+          requests: 1,
+          promptTokens: 900,
+          completionTokens: 100,
+          estimatedCost: 0.2,
+        },
+      ],
+    },
+  ];
+
+  it("reports used amounts against the limits", () => {
+    expect(summarizeUsage(results, { maxTokens: 5000, skippedFiles: 0 }).budget).toEqual({
+      maxTokens: 5000,
+      usedTokens: 1000,
+      usedCost: 0.2,
+      exhausted: false,
+      skippedFiles: 0,
+    });
+    expect(summarizeUsage(results, { maxCost: 0.2, skippedFiles: 2 }).budget).toMatchObject({
+      exhausted: true,
+      skippedFiles: 2,
+    });
+  });
+
+  it("omits the budget when no limit is set", () => {
+    expect(summarizeUsage(results).budget).toBeUndefined();
+  });
+});
+
+// ── splitUsage ───────────────────────────────────────────────────────────────
+
+describe("splitUsage", () => {
+  it("shares a batched prompt's usage by content length and keeps the totals", () => {
+    const [first, second] = splitUsage(
+      [
+        {
+          provider: "openai",
+          model: "gpt-4o",
+          requests: 1,
+          promptTokens: 1001,
+          completionTokens: 100,
+          estimatedCost: 0.01,
+        },
+      ],
+      [300, 700],
+    );
+
+    expect(first).toEqual([
+      {
+        provider: "openai",
+        model: "gpt-4o",
+        requests: 1,
+        promptTokens: 300,
+        completionTokens: 30,
+        estimatedCost: 0.003,
+      },
+    ]);
+    expect(second?.[0]).toMatchObject({ requests: 0, promptTokens: 701, completionTokens: 70 });
+    expect(second?.[0]?.estimatedCost).toBeCloseTo(0.007);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the issue verification pass
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { applyVerification } from "../services/ai/verification.js";
+import { buildVerificationPrompt } from "../config/prompts.js";
+import type { AuditResult, IssueVerdict } from "../types/index.js";
+
+const result: AuditResult = {
+  status: "FAIL",
+  message: "Problems found",
+  issues: [
+    { line: 3, severity: "CRITICAL", message: "SQL injection" },
+    { line: 8, severity: "WARNING", message: "Unhandled promise" },
+    { line: 12, severity: "INFO", message: "Rename variable" },
+  ],
+};
+
+const verdicts = new Map<number, IssueVerdict>([
+  [0, { confirmed: true, confidence: 0.9 }],
+  [1, { confirmed: true, confidence: 0.3 }],
+]);
+
+// ── applyVerification ────────────────────────────────────────────────────────
+
+describe("applyVerification", () => {
+  it("drops issues below the confidence threshold and keeps unverified ones", () => {
+    expect(
+      applyVerification(result, verdicts, { minConfidence: 0.5, unconfirmed: "drop" }),
+    ).toEqual({
+      ...result,
+      issues: [
+        { line: 3, severity: "CRITICAL", message: "SQL injection", confidence: 0.9 },
+        { line: 12, severity: "INFO", message: "Rename variable" },
+      ],
+    });
+  });
+
+  it("lowers unconfirmed issues one severity level in downgrade mode", () => {
+    const downgraded = applyVerification(
+      result,
+      new Map([[0, { confirmed: false, confidence: 0.7 }]]),
+      { minConfidence: 0.5, unconfirmed: "downgrade" },
+    );
+
+    expect(downgraded.issues?.[0]).toEqual({
+      line: 3,
+      severity: "WARNING",
+      message: "SQL injection",
+      confidence: 0.7,
+    });
+  });
+
+  it("passes the file when verification rejects every issue", () => {
+    const rejected = new Map<number, IssueVerdict>(
+      [0, 1, 2].map((index) => [index, { confirmed: false, confidence: 0.1 }]),
+    );
+
+    expect(
+      applyVerification(result, rejected, { minConfidence: 0.5, unconfirmed: "drop" }),
+    ).toEqual({
+      status: "PASS",
+      message: "All reported issues were rejected by verification",
+      issues: [],
+    });
+  });
+});
+
+// ── buildVerificationPrompt ──────────────────────────────────────────────────
+
+describe("buildVerificationPrompt", () => {
+  it("quotes numbered code lines around each finding", () => {
+    const content = ["@@ -1,4 +1,4 @@", "+const a = 1;", "+query(input);", "+return a;"].join("\n");
+    const prompt = buildVerificationPrompt("src/a.ts", content, [
+      { index: 1, issue: { line: 3, severity: "CRITICAL", message: "SQL injection" } },
+    ]);
+
+    expect(prompt).toContain("[1] CRITICAL at line 3: SQL injection");
+    expect(prompt).toContain(
+      [
+        "  1 | @@ -1,4 +1,4 @@",
+        "  2 | +const a = 1;",
+        "> 3 | +query(input);",
+        "  4 | +return a;",
+      ].join("\n"),
+    );
+  });
+});
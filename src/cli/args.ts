@@ -6,7 +6,7 @@
 import { Command } from "commander";
 import { UserError } from "../utils/errors.js";
 
-export type CLICommand = "review" | "default";
+export type CLICommand = "review" | "cache" | "default";
 
 /**
  * Parsed CLI option values
@@ -39,6 +39,32 @@ export interface CLIValues {
   files: string[];
   /** Output format */
   format?: string;
+  /** Write an additional report file (format inferred from the extension) */
+  output?: string;
+  /** Repeatable `format=path` pairs for additional report files */
+  report: string[];
+  /** Post findings as inline PR/MR comments (tri-state through env/config resolution) */
+  "post-comments"?: boolean;
+  /** Minimum severity posted as PR/MR comments */
+  "comment-severity"?: string;
+  /** Publish the review as a GitHub check run (tri-state through env/config resolution) */
+  "check-run"?: boolean;
+  /** Stream AI responses with live progress (tri-state through env/config resolution) */
+  stream?: boolean;
+  /** Overall AI deadline in milliseconds */
+  timeout?: string;
+  /** Token budget for the run's AI calls */
+  "max-tokens"?: string;
+  /** Estimated cost budget in USD for the run's AI calls */
+  "max-cost"?: string;
+  /** Review related files together in one prompt (tri-state through env/config resolution) */
+  batch?: boolean;
+  /** Review oversized patches in chunks (tri-state through env/config resolution) */
+  "chunk-large-files"?: boolean;
+  /** Comma-separated providers for ensemble review */
+  ensemble?: string;
+  /** Verify FAIL results in a second pass (tri-state through env/config resolution) */
+  verify?: boolean;
   /** Explicit AI toggle (tri-state through env/config resolution) */
   ai?: boolean;
   /** Disable skills.sh fetch (useful in air-gapped environments) */
@@ -49,6 +75,9 @@ export interface CLIValues {
 
 const PACKAGE_VERSION = process.env.npm_package_version ?? "1.0.3";
 
+/** Commander reducer for options that may be passed multiple times */
+const collectRepeatable = (value: string, previous: string[]): string[] => [...previous, value];
+
 /**
  * Build the commander program (exported for testing).
  */
@@ -78,7 +107,41 @@ export const buildProgram = (): Command => {
     .option("--range <range>", "Review a git range (e.g. main..HEAD)")
     .option("--files [files...]", "Review explicit file paths", [])
     // ── Output & AI ───────────────────────────────────────────────────────────
-    .option("--format <fmt>", "Output format: console | json | markdown (default: console)")
+    .option(
+      "--format <fmt>",
+      "Output format: console | json | markdown | sarif | junit (default: console)",
+    )
+    .option("-o, --output <path>", "Also write the report to a file (format from extension)")
+    .option(
+      "--report <format=path>",
+      "Also write a report file, e.g. sarif=review.sarif (repeatable)",
+      collectRepeatable,
+      [],
+    )
+    .option(
+      "--post-comments",
+      "Post findings as inline PR/MR comments (GitHub/GitLab/Bitbucket/Azure)",
+    )
+    .option(
+      "--comment-severity <level>",
+      "Minimum severity to post as comments: CRITICAL | WARNING | INFO (default: WARNING)",
+    )
+    .option("--check-run", "Publish the review as a GitHub check run with annotations")
+    .option("--stream", "Stream AI responses with live per-file progress (console output)")
+    .option("--no-stream", "Wait for complete AI responses")
+    .option("--timeout <ms>", "Overall deadline for AI calls; unfinished files become errors")
+    .option("--max-tokens <n>", "Token budget for AI calls; files past it are skipped")
+    .option("--max-cost <usd>", "Estimated cost budget in USD; files past it are skipped")
+    .option("--batch", "Review related files together in one AI prompt")
+    .option("--no-batch", "Review every file in its own AI prompt")
+    .option("--chunk-large-files", "Review patches over maxCharsPerFile in chunks, not truncated")
+    .option("--no-chunk-large-files", "Truncate patches over maxCharsPerFile")
+    .option(
+      "--ensemble <providers>",
+      "Review with 2-3 providers (e.g. openai,anthropic) and keep issues they agree on",
+    )
+    .option("--verify", "Ask the model to confirm each issue against the code in a second pass")
+    .option("--no-verify", "Skip the verification pass")
     .option("--ai", "Force-enable AI review")
     .option("--no-ai", "Force-disable AI review")
     .option("--no-skills-fetch", "Disable skills.sh API calls (air-gapped mode)", false)
@@ -97,8 +160,22 @@ Examples:
   $ npx mp-sentinel --range main..HEAD           # Review a commit range
   $ npx mp-sentinel --format json                # Output as JSON
   $ npx mp-sentinel --format markdown            # Output as Markdown
+  $ npx mp-sentinel --format sarif               # Output as SARIF 2.1.0
+  $ npx mp-sentinel --format junit               # Output as JUnit XML
+  $ npx mp-sentinel --output review.json         # Console report + JSON file
+  $ npx mp-sentinel --report sarif=review.sarif  # Console report + SARIF file
+  $ npx mp-sentinel --post-comments              # Review and comment on the current PR/MR
+  $ npx mp-sentinel --check-run                  # Review and publish a GitHub check run
+  $ npx mp-sentinel --timeout 120000            # Stop waiting on AI after two minutes
+  $ npx mp-sentinel --max-cost 0.50              # Stop sending files after ~$0.50 of AI usage
+  $ npx mp-sentinel --batch                      # Review related files together
+  $ npx mp-sentinel --chunk-large-files          # Fully review large diffs in several prompts
+  $ npx mp-sentinel --ensemble openai,anthropic  # Keep issues both models report
+  $ npx mp-sentinel --verify                     # Drop issues the model cannot confirm
   $ npx mp-sentinel --no-skills-fetch            # Disable external skills.sh calls
   $ npx mp-sentinel --dry-run                    # Security-only preview (no AI)
+  $ npx mp-sentinel cache stats                  # Show audit cache size and age
+  $ npx mp-sentinel cache prune                  # Drop expired and least recently used entries
   $ npx mp-sentinel --quiet --format json        # CI-friendly JSON output
 `,
     );
@@ -149,13 +226,29 @@ export const parseCliArgs = (): {
     const opts = program.opts<Record<string, unknown>>();
     const rawPositionals = program.args;
 
-    const command: CLICommand = rawPositionals[0] === "review" ? "review" : "default";
-    const commandPositionals = command === "review" ? rawPositionals.slice(1) : rawPositionals;
+    const command: CLICommand =
+      rawPositionals[0] === "review" || rawPositionals[0] === "cache"
+        ? rawPositionals[0]
+        : "default";
+    const commandPositionals = command === "default" ? rawPositionals : rawPositionals.slice(1);
 
     // Normalise the "no-ai" flag: commander sets `ai: false` when --no-ai is passed
     const aiValue: boolean | undefined =
       opts["ai"] === false ? false : opts["ai"] === true ? true : undefined;
 
+    const streamValue: boolean | undefined =
+      opts["stream"] === false ? false : opts["stream"] === true ? true : undefined;
+    const batchValue: boolean | undefined =
+      opts["batch"] === false ? false : opts["batch"] === true ? true : undefined;
+    const verifyValue: boolean | undefined =
+      opts["verify"] === false ? false : opts["verify"] === true ? true : undefined;
+    const chunkLargeFilesValue: boolean | undefined =
+      opts["chunkLargeFiles"] === false
+        ? false
+        : opts["chunkLargeFiles"] === true
+          ? true
+          : undefined;
+
     // Build values object — use type assertion to satisfy exactOptionalPropertyTypes
     // (optional fields are only set when they have a real value)
     const values = {
@@ -170,6 +263,7 @@ export const parseCliArgs = (): {
       "branch-diff": Boolean(opts["branchDiff"] ?? false),
       staged: Boolean(opts["staged"] ?? false),
       files: Array.isArray(opts["files"]) ? (opts["files"] as string[]) : [],
+      report: Array.isArray(opts["report"]) ? (opts["report"] as string[]) : [],
       "no-skills-fetch": opts["skillsFetch"] === false,
       "dry-run": Boolean(opts["dryRun"] ?? false),
       ...(typeof opts["targetBranch"] === "string" && {
@@ -184,7 +278,21 @@ export const parseCliArgs = (): {
       ...(typeof opts["commit"] === "string" && { commit: opts["commit"] }),
       ...(typeof opts["range"] === "string" && { range: opts["range"] }),
       ...(typeof opts["format"] === "string" && { format: opts["format"] }),
+      ...(typeof opts["output"] === "string" && { output: opts["output"] }),
       ...(aiValue !== undefined && { ai: aiValue }),
+      ...(streamValue !== undefined && { stream: streamValue }),
+      ...(batchValue !== undefined && { batch: batchValue }),
+      ...(chunkLargeFilesValue !== undefined && { "chunk-large-files": chunkLargeFilesValue }),
+      ...(typeof opts["ensemble"] === "string" && { ensemble: opts["ensemble"] }),
+      ...(verifyValue !== undefined && { verify: verifyValue }),
+      ...(typeof opts["timeout"] === "string" && { timeout: opts["timeout"] }),
+      ...(typeof opts["maxTokens"] === "string" && { "max-tokens": opts["maxTokens"] }),
+      ...(typeof opts["maxCost"] === "string" && { "max-cost": opts["maxCost"] }),
+      ...(opts["postComments"] === true && { "post-comments": true }),
+      ...(typeof opts["commentSeverity"] === "string" && {
+        "comment-severity": opts["commentSeverity"],
+      }),
+      ...(opts["checkRun"] === true && { "check-run": true }),
     } as CLIValues;
 
     return {
@@ -0,0 +1,87 @@
+/**
+ * Cache Command
+ * `mp-sentinel cache stats|prune|clear` — inspect and maintain the audit cache
+ */
+
+import type { ProjectConfig } from "../types/index.js";
+import type { CacheStats } from "../services/ai/types.js";
+import { createCacheBackend } from "../services/ai/cache.js";
+import { log } from "../utils/logger.js";
+import { formatBytes } from "../utils/parser.js";
+import { UserError } from "../utils/errors.js";
+import type { CLIValues } from "./args.js";
+
+export interface CacheRunOptions {
+  values: CLIValues;
+  commandPositionals: string[];
+  config: ProjectConfig;
+}
+
+const CACHE_ACTIONS = ["stats", "prune", "clear"] as const;
+type CacheAction = (typeof CACHE_ACTIONS)[number];
+
+const resolveCacheAction = (positionals: string[]): CacheAction => {
+  const action = positionals[0] ?? "stats";
+  if (!CACHE_ACTIONS.includes(action as CacheAction)) {
+    throw new UserError(
+      `Unknown cache action "${action}". Use one of: ${CACHE_ACTIONS.join(", ")}.`,
+    );
+  }
+  return action as CacheAction;
+};
+
+const formatDate = (epochMs: number | undefined): string =>
+  epochMs === undefined ? "-" : new Date(epochMs).toISOString();
+
+const printCacheStats = (stats: CacheStats): void => {
+  console.log();
+  console.log(`📦 Audit Cache (${stats.backend})`);
+  console.log(`   Location:  ${stats.location}`);
+  console.log(`   Entries:   ${stats.entries} (${stats.expired} expired)`);
+  console.log(`   Size:      ${formatBytes(stats.bytes)}`);
+  console.log(`   Oldest:    ${formatDate(stats.oldest)}`);
+  console.log(`   Newest:    ${formatDate(stats.newest)}`);
+  console.log();
+};
+
+/**
+ * Run a cache action against the configured backend (`cache.backend`)
+ *
+ * @returns process exit code
+ */
+export const runCacheCommand = async (options: CacheRunOptions): Promise<number> => {
+  const { values, commandPositionals, config } = options;
+  const action = resolveCacheAction(commandPositionals);
+  const backend = createCacheBackend(config.cache);
+  if (backend.name === "http") {
+    throw new UserError(
+      `"cache ${action}" works on local caches only; the cache server manages its own entries.`,
+    );
+  }
+
+  switch (action) {
+    case "stats": {
+      const stats = await backend.stats();
+      if ((values.format ?? process.env.MP_SENTINEL_FORMAT) === "json") {
+        console.log(JSON.stringify(stats, null, 2));
+      } else {
+        printCacheStats(stats);
+      }
+      return 0;
+    }
+    case "prune": {
+      const pruned = await backend.prune();
+      log.success(
+        `Pruned ${pruned.expired + pruned.evicted} cache entries ` +
+          `(${pruned.expired} expired, ${pruned.evicted} over the size limits); ` +
+          `${pruned.remaining} left (${formatBytes(pruned.bytes)})`,
+      );
+      return 0;
+    }
+    case "clear": {
+      const removed = await backend.clear();
+      log.success(`Removed ${removed} cache entries`);
+      return 0;
+    }
+  }
+};
@@ -136,8 +136,8 @@ const auditFileList = async (
     maxConcurrency,
   );
 
-  // Git Provider Integration (GitHub/GitLab) — lazy-loaded
-  await postGitProviderComments(auditResults);
+  // Git Provider Integration (GitHub/GitLab/Bitbucket/Azure DevOps) — lazy-loaded
+  await postGitProviderComments(auditResults, config);
 
   // Print summary
   const auditDuration = performance.now() - startTime;
@@ -147,27 +147,47 @@ const auditFileList = async (
 };
 
 /**
- * Post review comments to git provider (GitHub/GitLab) if available
+ * Post review comments to git provider (GitHub/GitLab/Bitbucket/Azure DevOps) if available
  */
 const postGitProviderComments = async (
   auditResults: import("../types/index.js").FileAuditResult[],
+  config: ProjectConfig,
 ): Promise<void> => {
   try {
-    const gitProvider = await import("../services/git-provider.js").then((m) => m.getGitProvider());
+    const { getGitProvider, buildReviewComments, syncReviewComments } =
+      await import("../services/git-provider/index.js");
+    const gitProvider = getGitProvider(config.gitProvider);
 
-    if (!gitProvider) return;
+    if (!gitProvider?.isAvailable()) return;
 
-    log.info("Git Provider detected. Posting comments for issues...");
+    log.info("Git Provider detected. Syncing comments for issues...");
 
     const failedAudits = auditResults.filter(
       (r) => r.result.status === "FAIL" && r.result.issues && r.result.issues.length > 0,
     );
+    const comments = buildReviewComments(
+      failedAudits.flatMap((audit) =>
+        (audit.result.issues ?? []).map((issue) => ({ filePath: audit.filePath, issue })),
+      ),
+    );
 
-    for (const audit of failedAudits) {
-      for (const issue of audit.result.issues ?? []) {
-        await gitProvider.postComment(audit.filePath, issue.line, issue);
-      }
-    }
+    // Syncing with no findings still cleans up comments from earlier runs, but only
+    // on files that were reviewed: errored files keep their comments
+    const reviewedFiles = new Set(
+      auditResults
+        .filter((r) => r.result.status === "PASS" || r.result.status === "FAIL")
+        .map((r) => r.filePath),
+    );
+    await syncReviewComments(
+      gitProvider,
+      comments,
+      {
+        summary: `## MP Sentinel Review\n\n${comments.length} issue(s) found in ${failedAudits.length} file(s).`,
+        requestChanges: failedAudits.length > 0,
+        passed: auditResults.every((r) => r.result.status === "PASS"),
+      },
+      reviewedFiles,
+    );
   } catch {
     // Git provider not available — silently skip
   }
@@ -15,6 +15,7 @@ export const showHelp = (): void => {
 Usage:
   mp-sentinel review [target] [options]
   mp-sentinel [options]                      # shortcut for review
+  mp-sentinel cache <stats|prune|clear>      # inspect or clean the audit cache
 
 Targets (choose one):
   --staged                    Review staged changes (git diff --cached)
@@ -28,8 +29,21 @@ Default target when omitted:
 Options:
   -h, --help             Show this help message
   -v, --version          Show version number
-  --format <type>        Output format: console | json | markdown (default: console)
+  --format <type>        Output format: console | json | markdown | sarif | junit (default: console)
+  -o, --output <path>    Also write the report to a file (format from extension)
+  --report <fmt=path>    Also write a report file, e.g. sarif=review.sarif (repeatable)
+  --post-comments        Post findings as inline PR/MR comments (GitHub/GitLab/Bitbucket/Azure)
+  --comment-severity     Minimum severity to post: CRITICAL | WARNING | INFO (default: WARNING)
+  --check-run            Publish the review as a GitHub check run with annotations
   --ai                   Force-enable AI review (useful for --staged)
+  --stream               Stream AI responses with live per-file progress (--no-stream to disable)
+  --timeout <ms>         Overall deadline for AI calls; unfinished files become errors
+  --max-tokens <n>       Token budget for AI calls; files past it are skipped
+  --max-cost <usd>       Estimated cost budget in USD; files past it are skipped
+  --batch                Review related files together in one AI prompt (--no-batch to disable)
+  --chunk-large-files    Review patches over maxCharsPerFile in chunks instead of truncating
+  --ensemble <providers> Review with 2-3 providers (e.g. openai,anthropic); keep agreed issues
+  --verify               Confirm each issue against the code in a second pass (--no-verify to skip)
   -b, --target-branch    Target branch for default range mode (default: origin/main)
   -c, --concurrency      Max concurrent file audits (default: 5, or config)
   --verbose              Enable verbose output and detailed skip reasons
@@ -48,6 +62,7 @@ Examples:
   mp-sentinel review --range origin/main..HEAD --format markdown
   mp-sentinel review --files src/index.ts src/utils/git.ts --ai
   mp-sentinel review --format json
+  mp-sentinel cache stats
 
   # AI policy:
   # - staged mode defaults to AI OFF unless --ai or MP_SENTINEL_AI=1
@@ -62,6 +77,9 @@ Configuration (.mp-sentinelrc.json or .sentinelrc.json):
       "maxCharsPerFile": 12000,
       "promptVersion": "2026-02-16"
     },
+    "reports": [
+      { "format": "sarif", "path": "reports/review.sarif" }
+    ],
     "localReview": {
       "enabled": true,
       "commitCount": 10,
@@ -13,6 +13,7 @@ import {
 } from "../utils/git.js";
 import { readFilesForAudit } from "../services/file.js";
 import { auditCommit, auditFilesWithConcurrency } from "../services/ai.js";
+import { formatSchedulerStats, type SchedulerStats } from "../services/ai/scheduler.js";
 import { log } from "../utils/logger.js";
 import { printResultsSummary } from "./summary.js";
 import type { CLIValues } from "./args.js";
@@ -120,6 +121,9 @@ export const runLocalReview = async (options: LocalReviewOptions): Promise<numbe
     fileReadResult.success.map((f) => ({ path: f.path, content: f.content })),
     config,
     maxConcurrency,
+    values.verbose
+      ? { onSchedulerStats: (stats: SchedulerStats) => log.info(formatSchedulerStats(stats)) }
+      : {},
   );
 
   // Print summary
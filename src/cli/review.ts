@@ -2,25 +2,45 @@
  * Stable review command implementation.
  */
 
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, extname, resolve } from "node:path";
 import type {
   FileAuditResult,
   ProjectConfig,
+  ReportFileFormat,
+  ReportOutput,
   ReviewFormat,
+  ReviewRedaction,
   ReviewReport,
+  RunBudget,
   ReviewTarget,
 } from "../types/index.js";
 import type { CLIValues } from "./args.js";
 import { log } from "../utils/logger.js";
-import { UserError } from "../utils/errors.js";
+import { SystemError, UserError } from "../utils/errors.js";
 import { collectReviewInput, listFilesForTarget } from "../utils/git.js";
 import { FileHandler } from "../services/file-handler/index.js";
 import { getSecurityService } from "../services/security/index.js";
-import { auditFilesWithConcurrency } from "../services/ai/index.js";
-import { formatMarkdownReport, printConsoleReport } from "../formatters/report.js";
+import { auditFilesWithConcurrency, summarizeUsage } from "../services/ai/index.js";
+import {
+  DEFAULT_COMMENT_MIN_SEVERITY,
+  publishReviewComments,
+  type CommentSeverity,
+} from "../services/review-comments.js";
+import { publishCheckRun, DEFAULT_CHECK_RUN_NAME } from "../services/check-run.js";
+import { formatReport, printConsoleReport } from "../formatters/report.js";
+import { SECRET_DETECTED_RULE_ID } from "../formatters/sarif.js";
 import { DEFAULT_PROMPT_VERSION } from "../config/prompts.js";
 import { generatePayloadSummary, resolveTokenLimit } from "../utils/tokens.js";
+import {
+  anchorAuditResult,
+  splitFilesIntoPromptPayloads,
+  type UnanchoredIssueMode,
+} from "../utils/diff.js";
 import { buildSystemPrompt } from "../config/prompts.js";
 import { AIConfig } from "../services/ai/index.js";
+import { formatSchedulerStats, type SchedulerStats } from "../services/ai/scheduler.js";
+import { validateCacheConfig } from "../services/ai/cache.js";
 
 export interface ReviewRunOptions {
   values: CLIValues;
@@ -41,11 +61,198 @@ const parseBooleanEnv = (value: string | undefined): boolean | undefined => {
   return undefined;
 };
 
+const REVIEW_FORMATS: readonly ReviewFormat[] = ["console", "json", "markdown", "sarif", "junit"];
+const REPORT_FILE_FORMATS: readonly ReportFileFormat[] = ["json", "markdown", "sarif", "junit"];
+
+/** Report file format inferred from the `--output` extension (JSON when unknown) */
+const OUTPUT_EXTENSION_FORMATS: Record<string, ReportFileFormat> = {
+  ".json": "json",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".sarif": "sarif",
+  ".xml": "junit",
+};
+
 const resolveFormat = (raw: string): ReviewFormat => {
-  if (raw === "console" || raw === "json" || raw === "markdown") {
-    return raw;
+  const format = REVIEW_FORMATS.find((candidate) => candidate === raw);
+  if (format) {
+    return format;
+  }
+  throw new UserError(
+    `Unsupported format "${raw}". Expected one of: ${REVIEW_FORMATS.join(", ")}.`,
+  );
+};
+
+const resolveReportFileFormat = (raw: string, source: string): ReportFileFormat => {
+  const format = REPORT_FILE_FORMATS.find((candidate) => candidate === raw);
+  if (format) {
+    return format;
+  }
+  throw new UserError(
+    `Unsupported report format "${raw}" in ${source}. Expected one of: ${REPORT_FILE_FORMATS.join(", ")}.`,
+  );
+};
+
+/**
+ * Collect report files from config, `--output` and `--report format=path` pairs.
+ * Later entries for the same path override earlier ones (CLI wins over config).
+ */
+const resolveReportOutputs = (values: CLIValues, config: ProjectConfig): ReportOutput[] => {
+  const outputs: ReportOutput[] = [...(config.reports ?? [])];
+
+  if (values.output) {
+    const extension = extname(values.output).toLowerCase();
+    outputs.push({ format: OUTPUT_EXTENSION_FORMATS[extension] ?? "json", path: values.output });
+  }
+
+  for (const spec of values.report) {
+    const separatorIndex = spec.indexOf("=");
+    const rawFormat = spec.slice(0, separatorIndex).trim();
+    const path = spec.slice(separatorIndex + 1).trim();
+    if (separatorIndex <= 0 || !path) {
+      throw new UserError(`Invalid --report value "${spec}". Expected format=path.`);
+    }
+    outputs.push({ format: resolveReportFileFormat(rawFormat, "--report"), path });
+  }
+
+  const byPath = new Map(outputs.map((output) => [resolve(output.path), output]));
+  return Array.from(byPath.values());
+};
+
+const COMMENT_SEVERITIES: readonly CommentSeverity[] = ["CRITICAL", "WARNING", "INFO"];
+
+/**
+ * Resolve PR comment publishing: flag > env > config, disabled by default.
+ * Returns null when comments should not be posted.
+ */
+const resolveCommentSeverity = (
+  values: CLIValues,
+  config: ProjectConfig,
+): CommentSeverity | null => {
+  const enabled =
+    values["post-comments"] ??
+    parseBooleanEnv(process.env.MP_SENTINEL_POST_COMMENTS) ??
+    config.prComments?.enabled ??
+    false;
+  if (!enabled) return null;
+
+  const raw = values["comment-severity"]?.toUpperCase();
+  if (raw === undefined) {
+    return config.prComments?.minSeverity ?? DEFAULT_COMMENT_MIN_SEVERITY;
+  }
+  const severity = COMMENT_SEVERITIES.find((candidate) => candidate === raw);
+  if (!severity) {
+    throw new UserError(
+      `Unsupported comment severity "${values["comment-severity"]}". Expected one of: ${COMMENT_SEVERITIES.join(", ")}.`,
+    );
+  }
+  return severity;
+};
+
+/**
+ * Resolve check run publishing: flag > env > config, disabled by default.
+ * Returns the check run name, or null when no check run should be published.
+ */
+const resolveCheckRunName = (values: CLIValues, config: ProjectConfig): string | null => {
+  const enabled =
+    values["check-run"] ??
+    parseBooleanEnv(process.env.MP_SENTINEL_CHECK_RUN) ??
+    config.checkRun?.enabled ??
+    false;
+  return enabled ? (config.checkRun?.name ?? DEFAULT_CHECK_RUN_NAME) : null;
+};
+
+/**
+ * Resolve streaming: flag > env > config, on by default. Only console output
+ * shows the live progress line, so other formats never stream.
+ */
+const resolveStream = (values: CLIValues, config: ProjectConfig, format: ReviewFormat): boolean =>
+  format === "console" &&
+  (values.stream ?? parseBooleanEnv(process.env.MP_SENTINEL_STREAM) ?? config.ai?.stream ?? true);
+
+/**
+ * Resolve the overall AI deadline in milliseconds: flag > env > config.
+ */
+const resolveTimeoutMs = (values: CLIValues, config: ProjectConfig): number | undefined => {
+  const raw = values.timeout ?? process.env.MP_SENTINEL_TIMEOUT_MS;
+  if (raw === undefined || raw === "") {
+    return config.ai?.timeoutMs;
+  }
+  const timeoutMs = Number(raw);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new UserError(`Invalid timeout "${raw}". Expected a positive number of milliseconds.`);
+  }
+  return timeoutMs;
+};
+
+/**
+ * Parse a positive number from a flag or env value; `integer` rejects fractions
+ */
+const parseLimit = (raw: string, label: string, integer: boolean): number => {
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+    throw new UserError(
+      `Invalid ${label} "${raw}". Expected a positive ${integer ? "integer" : "number"}.`,
+    );
+  }
+  return value;
+};
+
+/**
+ * Resolve the run budget: flag > env > config for each limit.
+ */
+const resolveBudget = (values: CLIValues, config: ProjectConfig): RunBudget => {
+  const rawTokens = values["max-tokens"] ?? process.env.MP_SENTINEL_MAX_TOKENS;
+  const rawCost = values["max-cost"] ?? process.env.MP_SENTINEL_MAX_COST;
+  const maxTokens = rawTokens
+    ? parseLimit(rawTokens, "token budget", true)
+    : config.ai?.maxTokensPerRun;
+  const maxCost = rawCost ? parseLimit(rawCost, "cost budget", false) : config.ai?.maxCostPerRun;
+
+  return {
+    ...(maxTokens !== undefined && { maxTokens }),
+    ...(maxCost !== undefined && { maxCost }),
+  };
+};
+
+/**
+ * Resolve cross-file batching: flag > env > config, off by default.
+ */
+const resolveBatch = (values: CLIValues, config: ProjectConfig): boolean =>
+  values.batch ?? parseBooleanEnv(process.env.MP_SENTINEL_BATCH) ?? config.ai?.batching ?? false;
+
+/**
+ * Resolve chunked review of oversized patches: flag > env > config, off by default.
+ */
+const resolveChunkLargeFiles = (values: CLIValues, config: ProjectConfig): boolean =>
+  values["chunk-large-files"] ??
+  parseBooleanEnv(process.env.MP_SENTINEL_CHUNK_LARGE_FILES) ??
+  config.ai?.chunkLargeFiles ??
+  false;
+
+/**
+ * Resolve the verification pass: flag > env > config, off by default.
+ */
+const resolveVerify = (values: CLIValues, config: ProjectConfig): boolean =>
+  values.verify ??
+  parseBooleanEnv(process.env.MP_SENTINEL_VERIFY) ??
+  config.ai?.verifyIssues ??
+  false;
+
+/**
+ * Resolve ensemble providers from the flag or env; undefined leaves `ai.ensemble` in effect.
+ */
+const resolveEnsembleProviders = (values: CLIValues): string[] | undefined => {
+  const raw = values.ensemble ?? process.env.MP_SENTINEL_ENSEMBLE;
+  if (!raw) return undefined;
+  const providers = raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (providers.length < 2 || providers.length > 3) {
+    throw new UserError(`Ensemble review needs two or three providers, got "${raw}".`);
   }
-  throw new UserError(`Unsupported format "${raw}". Expected one of: console, json, markdown.`);
+  return providers;
 };
 
 const resolveTarget = (
@@ -95,11 +302,7 @@ const resolveAIEnabled = (
 
 const createSecurityOnlyResults = (
   files: Array<{ path: string; content: string }>,
-  redactionReport: Array<{
-    path: string;
-    redactedCount: number;
-    matchedPatterns: string[];
-  }>,
+  redactionReport: ReviewRedaction[],
 ): FileAuditResult[] => {
   const redactedMap = new Map(redactionReport.map((entry) => [entry.path, entry]));
 
@@ -124,6 +327,7 @@ const createSecurityOnlyResults = (
         status: "FAIL",
         issues: [
           {
+            ruleId: SECRET_DETECTED_RULE_ID,
             line: 1,
             severity: "CRITICAL",
             message: `Potential secret detected (${redaction.redactedCount} redaction(s))`,
@@ -137,15 +341,36 @@ const createSecurityOnlyResults = (
   });
 };
 
+/**
+ * Map AI issue lines (relative to the patch text the model saw) to new-file lines.
+ */
+const anchorIssueLines = (
+  results: FileAuditResult[],
+  reviewedFiles: Array<{ path: string; content: string }>,
+  mode: UnanchoredIssueMode,
+): FileAuditResult[] => {
+  const patchByPath = new Map(reviewedFiles.map((file) => [file.path, file.content]));
+
+  return results.map((entry) => {
+    const patch = patchByPath.get(entry.filePath);
+    if (patch === undefined || entry.result.status === "ERROR") {
+      return entry;
+    }
+    return { ...entry, result: anchorAuditResult(entry.result, patch, mode) };
+  });
+};
+
 const buildReport = (
   target: ReviewTarget,
   aiEnabled: boolean,
   promptVersion: string,
   results: FileAuditResult[],
   skipped: Array<{ path: string; reason: string }>,
+  redactions: ReviewRedaction[],
   errors: string[],
   totalChangedLines: number,
   startTime: number,
+  budget: RunBudget & { skippedFiles?: number } = {},
 ): ReviewReport => {
   const criticalIssues = results.reduce(
     (acc, result) =>
@@ -177,7 +402,7 @@ const buildReport = (
   const failedFiles = results.filter((r) => r.result.status !== "PASS").length;
 
   return {
-    schemaVersion: "1.0",
+    schemaVersion: "1.1",
     status,
     target,
     aiEnabled,
@@ -195,23 +420,51 @@ const buildReport = (
     },
     results,
     skipped,
+    redactions,
     errors,
+    ...(aiEnabled && { usage: summarizeUsage(results, budget) }),
     generatedAt: new Date().toISOString(),
   };
 };
 
 const renderReport = (report: ReviewReport, format: ReviewFormat): void => {
-  if (format === "json") {
-    console.log(JSON.stringify(report, null, 2));
+  if (format === "console") {
+    printConsoleReport(report);
     return;
   }
 
-  if (format === "markdown") {
-    console.log(formatMarkdownReport(report));
-    return;
-  }
+  console.log(formatReport(report, format));
+};
 
-  printConsoleReport(report);
+/**
+ * Write report artifacts to disk.
+ * Uses fs directly, so files are written even when logs are in quiet mode.
+ */
+const writeReportFiles = async (report: ReviewReport, outputs: ReportOutput[]): Promise<void> => {
+  await Promise.all(
+    outputs.map(async (output) => {
+      const fullPath = resolve(output.path);
+      try {
+        await mkdir(dirname(fullPath), { recursive: true });
+        await writeFile(fullPath, `${formatReport(report, output.format)}\n`, "utf-8");
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        throw new SystemError(
+          `Failed to write ${output.format} report to "${output.path}": ${msg}`,
+        );
+      }
+      log.success(`Wrote ${output.format} report to ${output.path}`);
+    }),
+  );
+};
+
+const emitReport = async (
+  report: ReviewReport,
+  format: ReviewFormat,
+  outputs: ReportOutput[],
+): Promise<void> => {
+  renderReport(report, format);
+  await writeReportFiles(report, outputs);
 };
 
 export const runReview = async (options: ReviewRunOptions): Promise<number> => {
@@ -227,9 +480,24 @@ export const runReview = async (options: ReviewRunOptions): Promise<number> => {
 
   const formatRaw = values.format ?? process.env.MP_SENTINEL_FORMAT ?? "console";
   const format = resolveFormat(formatRaw);
+  const reportOutputs = resolveReportOutputs(values, config);
+  // Dry-run never talks to the git provider
+  const commentSeverity = dryRun ? null : resolveCommentSeverity(values, config);
+  const checkRunName = dryRun ? null : resolveCheckRunName(values, config);
+  const stream = resolveStream(values, config, format);
+  const timeoutMs = resolveTimeoutMs(values, config);
+  const budget = resolveBudget(values, config);
+  const batch = resolveBatch(values, config);
+  const chunkLargeFiles = resolveChunkLargeFiles(values, config);
+  const ensemble = resolveEnsembleProviders(values);
+  const verify = resolveVerify(values, config);
   const target = resolveTarget(values, commandPositionals, targetBranch);
   // In dry-run mode, AI is always disabled
   const aiEnabled = dryRun ? false : resolveAIEnabled(values, target, config);
+  // Report an unusable cache backend as a config error, before the diff is collected
+  if (aiEnabled && config.cacheEnabled !== false) {
+    validateCacheConfig(config.cache);
+  }
 
   const maxFiles = Math.max(1, config.ai?.maxFiles ?? 15);
   const maxDiffLines = Math.max(100, config.ai?.maxDiffLines ?? 1200);
@@ -248,8 +516,8 @@ export const runReview = async (options: ReviewRunOptions): Promise<number> => {
 
   const candidateFiles = await listFilesForTarget(target);
   if (candidateFiles.length === 0) {
-    const emptyReport = buildReport(target, aiEnabled, promptVersion, [], [], [], 0, startTime);
-    renderReport(emptyReport, format);
+    const emptyReport = buildReport(target, aiEnabled, promptVersion, [], [], [], [], 0, startTime);
+    await emitReport(emptyReport, format, reportOutputs);
     return 0;
   }
 
@@ -266,6 +534,7 @@ export const runReview = async (options: ReviewRunOptions): Promise<number> => {
     maxFiles,
     maxDiffLines,
     maxCharsPerFile,
+    keepLargePatches: chunkLargeFiles,
   });
 
   skipped.push(...diffResult.skipped);
@@ -278,10 +547,11 @@ export const runReview = async (options: ReviewRunOptions): Promise<number> => {
       [],
       skipped,
       [],
+      [],
       diffResult.totalChangedLines,
       startTime,
     );
-    renderReport(emptyReport, format);
+    await emitReport(emptyReport, format, reportOutputs);
     return 0;
   }
 
@@ -292,6 +562,7 @@ export const runReview = async (options: ReviewRunOptions): Promise<number> => {
 
   const runtimeErrors: string[] = [];
   let auditResults: FileAuditResult[] = [];
+  let budgetSkippedFiles = 0;
 
   if (aiEnabled || dryRun) {
     // Resolve provider-specific token limit
@@ -313,10 +584,14 @@ export const runReview = async (options: ReviewRunOptions): Promise<number> => {
       // Non-critical — skip system prompt in estimate
     }
 
+    // Chunked patches are sent in prompts of at most maxCharsPerFile each, so the
+    // context window bounds each prompt rather than the untruncated total
+    const payloads = sanitizedFiles.map((f) => ({ path: f.path, content: f.content }));
     const { exceeded, total } = await generatePayloadSummary(
-      sanitizedFiles.map((f) => ({ path: f.path, content: f.content })),
+      chunkLargeFiles ? splitFilesIntoPromptPayloads(payloads, maxCharsPerFile) : payloads,
       tokenLimit,
       systemPromptForEstimate,
+      chunkLargeFiles,
     );
 
     if (dryRun) {
@@ -333,11 +608,38 @@ export const runReview = async (options: ReviewRunOptions): Promise<number> => {
       process.exitCode = 2;
       return 2;
     } else {
+      if (budget.maxTokens !== undefined && total > budget.maxTokens) {
+        log.warning(
+          `Estimated payload (~${total.toLocaleString()} tokens) exceeds the run budget of ` +
+            `${budget.maxTokens.toLocaleString()} tokens; files past the budget will be skipped.`,
+        );
+      }
       try {
         auditResults = await auditFilesWithConcurrency(
           sanitizedFiles.map((file) => ({ path: file.path, content: file.content })),
           config,
           maxConcurrency,
+          {
+            stream,
+            ...(timeoutMs && { timeoutMs }),
+            budget,
+            batch,
+            ...(chunkLargeFiles && { maxCharsPerChunk: maxCharsPerFile }),
+            ...(ensemble && { ensemble }),
+            verify,
+            ...(values.verbose && {
+              onSchedulerStats: (stats: SchedulerStats) => log.info(formatSchedulerStats(stats)),
+            }),
+            onSkipped: (item) => {
+              skipped.push(item);
+              budgetSkippedFiles += 1;
+            },
+          },
+        );
+        auditResults = anchorIssueLines(
+          auditResults,
+          sanitizedFiles,
+          config.ai?.unanchoredIssues ?? "flag",
         );
       } catch (error) {
         runtimeErrors.push(error instanceof Error ? error.message : "Unknown AI runtime error");
@@ -353,12 +655,22 @@ export const runReview = async (options: ReviewRunOptions): Promise<number> => {
     promptVersion,
     auditResults,
     skipped,
+    redactionReport,
     runtimeErrors,
     diffResult.totalChangedLines,
     startTime,
+    { ...budget, skippedFiles: budgetSkippedFiles },
   );
 
-  renderReport(report, format);
+  await emitReport(report, format, reportOutputs);
+
+  if (commentSeverity) {
+    await publishReviewComments(report, commentSeverity, config.gitProvider);
+  }
+
+  if (checkRunName) {
+    await publishCheckRun(report, checkRunName, config.gitProvider);
+  }
 
   if (report.status === "PASS") return 0;
   if (report.status === "FAIL") return 1;
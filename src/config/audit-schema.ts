@@ -0,0 +1,114 @@
+/**
+ * JSON schemas for AI audit responses (single file, batched files and verification)
+ * Drives structured output for every provider (OpenAI json_schema, Gemini
+ * responseSchema, Anthropic forced tool use) and strict response validation.
+ */
+
+/**
+ * JSON Schema subset understood by all structured-output providers:
+ * no `$ref`, no unions, every property required.
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  description?: string;
+  enum?: readonly string[];
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: false;
+  items?: JsonSchema;
+}
+
+export interface StructuredOutputSchema {
+  /** Schema / tool name (`^[a-zA-Z0-9_-]+$`) */
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+const AUDIT_ISSUE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    line: { type: "integer", description: "Line number in the reviewed code" },
+    severity: { type: "string", enum: ["CRITICAL", "WARNING", "INFO"] },
+    message: { type: "string", description: "What is wrong and why" },
+    suggestion: { type: "string", description: "How to fix it; empty string if none" },
+  },
+  required: ["line", "severity", "message", "suggestion"],
+  additionalProperties: false,
+};
+
+/**
+ * AuditResult as produced by the AI. Optional fields are required strings that may
+ * be empty, because OpenAI strict mode does not allow optional properties.
+ */
+export const AUDIT_RESULT_SCHEMA: StructuredOutputSchema = {
+  name: "audit_result",
+  description: "Report the code review verdict and the issues found",
+  schema: {
+    type: "object",
+    properties: {
+      status: { type: "string", enum: ["PASS", "FAIL"] },
+      message: { type: "string", description: "Short summary or reason; empty string if none" },
+      suggestion: { type: "string", description: "Overall suggestion; empty string if none" },
+      issues: { type: "array", items: AUDIT_ISSUE_SCHEMA },
+    },
+    required: ["status", "message", "suggestion", "issues"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Results for a batch of related files, one entry per file path
+ */
+export const AUDIT_BATCH_RESULT_SCHEMA: StructuredOutputSchema = {
+  name: "audit_batch_result",
+  description: "Report the code review verdict and the issues found for each file",
+  schema: {
+    type: "object",
+    properties: {
+      files: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            path: { type: "string", description: "File path exactly as given in the prompt" },
+            ...AUDIT_RESULT_SCHEMA.schema.properties,
+          },
+          required: ["path", ...(AUDIT_RESULT_SCHEMA.schema.required ?? [])],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["files"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Verdicts of the verification pass, one per issue index given in the prompt
+ */
+export const AUDIT_VERIFICATION_SCHEMA: StructuredOutputSchema = {
+  name: "audit_verification",
+  description: "Confirm or reject each reported issue",
+  schema: {
+    type: "object",
+    properties: {
+      verdicts: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            index: { type: "integer", description: "Index of the issue as given in the prompt" },
+            confirmed: { type: "boolean", description: "Whether the issue is real" },
+            confidence: { type: "number", description: "Certainty that the issue is real, 0 to 1" },
+            reason: { type: "string", description: "Why it was confirmed or rejected" },
+          },
+          required: ["index", "confirmed", "confidence", "reason"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["verdicts"],
+    additionalProperties: false,
+  },
+};
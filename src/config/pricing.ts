@@ -0,0 +1,50 @@
+/**
+ * Model price table for estimating review cost
+ * Prices are USD per million tokens, from the providers' public price lists.
+ * Override or extend them with `ai.pricing` in the project config.
+ */
+
+import type { ModelPricing, TokenUsage } from "../types/index.js";
+
+export const DEFAULT_MODEL_PRICING: Readonly<Record<string, ModelPricing>> = {
+  // OpenAI
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  // Anthropic
+  "claude-sonnet-4.5": { input: 3, output: 15 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  // Google
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+};
+
+/**
+ * Price for `model`: an exact entry, else the longest entry the model name starts
+ * with (dated snapshots like `gpt-4o-2024-08-06`). Config entries take precedence.
+ */
+export const resolveModelPricing = (
+  model: string,
+  overrides: Record<string, ModelPricing> = {},
+): ModelPricing | undefined => {
+  for (const table of [overrides, DEFAULT_MODEL_PRICING]) {
+    if (table[model]) return table[model];
+
+    const prefix = Object.keys(table)
+      .filter((key) => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return table[prefix];
+  }
+  return undefined;
+};
+
+/** Cost in USD of `usage` at `pricing` */
+export const estimateCost = (usage: TokenUsage, pricing: ModelPricing): number =>
+  (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
@@ -2,7 +2,7 @@
  * Prompt templates for AI-powered code auditing
  */
 
-import type { ProjectConfig } from "../types/index.js";
+import type { AuditIssue, ProjectConfig } from "../types/index.js";
 import { fetchSkillsForTechStack, buildSkillsPromptSection } from "../services/skills-fetcher.js";
 
 export const DEFAULT_PROMPT_VERSION = "2026-02-16";
@@ -95,3 +95,70 @@ Any commit message NOT following this pattern must be REJECTED.
 
   return parts.join("");
 };
+
+/**
+ * User prompt for a batch of related files. Its output format replaces the
+ * single-file format of the system prompt.
+ */
+export const buildBatchPrompt = (files: Array<{ path: string; content: string }>): string => {
+  const parts: string[] = [
+    `### BATCH REVIEW
+These files changed together and are related (same directory, imports, or test and source).
+Review them as one change: check that each file stays consistent with the others, such as callers of renamed or changed exports and tests of changed behavior.
+Report every issue under the file it belongs to. Line numbers are relative to that file's code.
+`,
+    `\n### OUTPUT FORMAT (JSON ONLY, replaces the single-file format)\n{ "files": [{ "path": "string", "status": "PASS" | "FAIL", "issues": [{ "line": number, "severity": "CRITICAL" | "WARNING" | "INFO", "message": "string", "suggestion": "string" }] }] }\nInclude exactly one entry per file, using the path as given.\n`,
+  ];
+
+  for (const file of files) {
+    parts.push(`\n### FILE: ${file.path}\n${file.content}\n`);
+  }
+
+  return parts.join("");
+};
+
+export const VERIFICATION_PROMPT = `
+### ROLE & OBJECTIVE
+You are a meticulous Code Reviewer double-checking findings another reviewer made on a git diff.
+For each finding, read the quoted code and decide whether the problem really exists there.
+### RULES
+1. Reject findings whose line does not exist or whose quoted code does not show the problem.
+2. Reject findings that are speculative, style-only, or already handled in the code.
+3. Confirm a finding only when the code clearly supports it.
+### OUTPUT FORMAT (JSON ONLY)
+{ "verdicts": [{ "index": number, "confirmed": boolean, "confidence": number, "reason": "string" }] }
+"confidence" is from 0 to 1: how certain you are that the finding is a real problem.
+Include one verdict per finding, using the index given.
+`;
+
+/** Lines around a finding shown to the verification pass */
+const VERIFICATION_CONTEXT_LINES = 2;
+
+/**
+ * User prompt for the verification pass: each finding with the numbered code lines
+ * around the line it points at (`>` marks that line).
+ */
+export const buildVerificationPrompt = (
+  filePath: string,
+  content: string,
+  issues: Array<{ index: number; issue: AuditIssue }>,
+): string => {
+  const lines = content.split("\n");
+  const width = String(lines.length).length;
+  const parts: string[] = [`### FILE: ${filePath}\n### FINDINGS`];
+
+  for (const { index, issue } of issues) {
+    const first = Math.max(1, issue.line - VERIFICATION_CONTEXT_LINES);
+    const last = Math.min(lines.length, issue.line + VERIFICATION_CONTEXT_LINES);
+    const excerpt: string[] = [];
+    for (let line = first; line <= last; line++) {
+      const marker = line === issue.line ? ">" : " ";
+      excerpt.push(`${marker} ${String(line).padStart(width)} | ${lines[line - 1] ?? ""}`);
+    }
+    parts.push(
+      `\n[${index}] ${issue.severity} at line ${issue.line}: ${issue.message}\n${excerpt.join("\n")}`,
+    );
+  }
+
+  return parts.join("\n");
+};
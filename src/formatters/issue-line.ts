@@ -0,0 +1,26 @@
+/**
+ * Shared issue-location label for report formatters.
+ */
+
+import type { AuditIssue } from "../types/index.js";
+
+/**
+ * Describe where an issue points, showing both the resolved file line and the
+ * patch line the AI originally reported (when the issue has been anchored), plus
+ * how many ensemble models reported it and the verification confidence.
+ */
+export const formatIssueLine = (issue: AuditIssue): string => {
+  const notes: string[] = [];
+  if (issue.patchLine !== undefined) {
+    notes.push(
+      issue.anchored === false ? "outside changed lines" : `patch line ${issue.patchLine}`,
+    );
+  }
+  if (issue.agreement) {
+    notes.push(`${issue.agreement.models.length}/${issue.agreement.total} models`);
+  }
+  if (issue.confidence !== undefined) {
+    notes.push(`confidence ${Math.round(issue.confidence * 100)}%`);
+  }
+  return notes.length > 0 ? `${issue.line} (${notes.join(", ")})` : `${issue.line}`;
+};
@@ -0,0 +1,110 @@
+/**
+ * JUnit XML formatter for CI test dashboards (Jenkins, GitLab, Azure Pipelines).
+ * One <testsuite> per review, one <testcase> per audited or skipped file.
+ */
+
+import type { AuditIssue, FileAuditResult, ReviewReport } from "../types/index.js";
+import { formatIssueLine } from "./issue-line.js";
+
+const SUITE_NAME = "mp-sentinel";
+const TESTCASE_CLASSNAME = "mp-sentinel.review";
+
+const XML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+/**
+ * Escape text for use in XML attributes and text nodes.
+ * Control characters that are invalid in XML 1.0 are stripped.
+ */
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/[&<>"']/g, (char) => XML_ESCAPES[char] ?? char);
+
+const toSeconds = (ms: number): string => (ms / 1000).toFixed(3);
+
+const formatIssue = (issue: AuditIssue): string =>
+  `[${issue.severity}] Line ${formatIssueLine(issue)}: ${issue.message}` +
+  (issue.suggestion ? `\n  Suggestion: ${issue.suggestion}` : "");
+
+const testcaseAttributes = (name: string, durationMs: number): string =>
+  `classname="${TESTCASE_CLASSNAME}" name="${escapeXml(name)}" time="${toSeconds(durationMs)}"`;
+
+const formatResultCase = (entry: FileAuditResult): string[] => {
+  const attributes = testcaseAttributes(entry.filePath, entry.duration);
+  const issues = entry.result.issues ?? [];
+
+  if (entry.result.status === "PASS") {
+    return [`    <testcase ${attributes} />`];
+  }
+
+  const open = `    <testcase ${attributes}>`;
+
+  if (entry.result.status === "ERROR") {
+    const message = entry.result.message || "Unknown runtime error";
+    const errorType = entry.result.errorKind === "schema" ? "SchemaValidationError" : "AuditError";
+    return [
+      open,
+      `      <error message="${escapeXml(message)}" type="${errorType}">${escapeXml(message)}</error>`,
+      `    </testcase>`,
+    ];
+  }
+
+  const message = `${issues.length} issue(s) found`;
+  const body = issues.length > 0 ? issues.map(formatIssue).join("\n") : entry.result.message || "";
+  return [
+    open,
+    `      <failure message="${escapeXml(message)}" type="AuditFailure">${escapeXml(body)}</failure>`,
+    `    </testcase>`,
+  ];
+};
+
+/**
+ * Render a review report as a JUnit XML document.
+ */
+export const formatJUnitReport = (report: ReviewReport): string => {
+  const failures = report.results.filter((entry) => entry.result.status === "FAIL").length;
+  const errors = report.results.filter((entry) => entry.result.status === "ERROR").length;
+  const tests = report.results.length + report.skipped.length;
+  const time = toSeconds(report.summary.durationMs);
+  const target = `${report.target.mode}${report.target.value ? `:${report.target.value}` : ""}`;
+  const suiteName = `${SUITE_NAME} (${target})`;
+
+  const lines: string[] = [];
+  lines.push(`<?xml version="1.0" encoding="UTF-8"?>`);
+  lines.push(
+    `<testsuites name="${SUITE_NAME}" tests="${tests}" failures="${failures}" errors="${errors}" skipped="${report.skipped.length}" time="${time}">`,
+  );
+  lines.push(
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${tests}" failures="${failures}" errors="${errors}" skipped="${report.skipped.length}" time="${time}" timestamp="${escapeXml(report.generatedAt)}">`,
+  );
+  lines.push(`    <properties>`);
+  lines.push(`      <property name="status" value="${report.status}" />`);
+  lines.push(`      <property name="aiEnabled" value="${report.aiEnabled}" />`);
+  lines.push(`      <property name="promptVersion" value="${escapeXml(report.promptVersion)}" />`);
+  lines.push(`    </properties>`);
+
+  for (const entry of report.results) {
+    lines.push(...formatResultCase(entry));
+  }
+
+  for (const skipped of report.skipped) {
+    lines.push(`    <testcase ${testcaseAttributes(skipped.path, 0)}>`);
+    lines.push(`      <skipped message="${escapeXml(skipped.reason)}" />`);
+    lines.push(`    </testcase>`);
+  }
+
+  if (report.errors.length > 0) {
+    lines.push(`    <system-err>${escapeXml(report.errors.join("\n"))}</system-err>`);
+  }
+
+  lines.push(`  </testsuite>`);
+  lines.push(`</testsuites>`);
+
+  return lines.join("\n");
+};
@@ -2,8 +2,17 @@
  * Report formatters for console/json/markdown outputs.
  */
 
-import type { ReviewReport } from "../types/index.js";
+import type {
+  BudgetUsage,
+  FileAuditResult,
+  ReportFileFormat,
+  ReviewReport,
+  ReviewUsage,
+} from "../types/index.js";
 import { formatDuration, log } from "../utils/logger.js";
+import { formatIssueLine } from "./issue-line.js";
+import { formatJUnitReport } from "./junit.js";
+import { formatSarifReport } from "./sarif.js";
 
 const statusIcon = (status: ReviewReport["status"]): string => {
   if (status === "PASS") return "✅";
@@ -11,6 +20,60 @@ const statusIcon = (status: ReviewReport["status"]): string => {
   return "💥";
 };
 
+const formatCost = (cost: number | undefined): string =>
+  cost === undefined ? "n/a" : `$${cost.toFixed(4)}`;
+
+const formatTokens = (usage: { promptTokens: number; completionTokens: number }): string =>
+  `${(usage.promptTokens + usage.completionTokens).toLocaleString()} ` +
+  `(${usage.promptTokens.toLocaleString()} prompt / ${usage.completionTokens.toLocaleString()} completion)`;
+
+/** " (cached)" or " (via openai/gpt-4o)": where a file's result came from */
+const formatSourceNote = (result: FileAuditResult): string => {
+  if (result.cached) return " (cached)";
+  return result.providers ? ` (via ${result.providers.join(", ")})` : "";
+};
+
+const percentOf = (used: number, limit: number): string => `${Math.round((used / limit) * 100)}%`;
+
+/** e.g. "45,000 of 50,000 tokens (90%), $0.4100 of $1.00 (41%), exhausted: 3 file(s) skipped" */
+const formatBudget = (budget: BudgetUsage): string => {
+  const parts: string[] = [];
+  if (budget.maxTokens !== undefined) {
+    parts.push(
+      `${budget.usedTokens.toLocaleString()} of ${budget.maxTokens.toLocaleString()} tokens ` +
+        `(${percentOf(budget.usedTokens, budget.maxTokens)})`,
+    );
+  }
+  if (budget.maxCost !== undefined) {
+    parts.push(
+      `${formatCost(budget.usedCost)} of $${budget.maxCost.toFixed(2)} ` +
+        `(${percentOf(budget.usedCost, budget.maxCost)})`,
+    );
+  }
+  if (budget.exhausted) {
+    parts.push(`exhausted: ${budget.skippedFiles} file(s) skipped`);
+  }
+  return parts.join(", ");
+};
+
+const printConsoleUsage = (usage: ReviewUsage): void => {
+  console.log(`   🪙 Tokens:       ${formatTokens(usage)}`);
+  console.log(`   💲 Est. cost:    ${formatCost(usage.estimatedCost)}`);
+  if (usage.budget) {
+    console.log(`   🧮 Budget:       ${formatBudget(usage.budget)}`);
+  }
+  if (usage.byProvider.length > 1) {
+    for (const entry of usage.byProvider) {
+      log.file(
+        `${entry.provider}/${entry.model}: ${formatTokens(entry)}, ${formatCost(entry.estimatedCost)}`,
+      );
+    }
+  }
+  if (usage.unpricedModels.length > 0) {
+    log.file(`No price for ${usage.unpricedModels.join(", ")} (set ai.pricing)`);
+  }
+};
+
 export const printConsoleReport = (report: ReviewReport): void => {
   log.divider();
   console.log(`📊 Review Summary`);
@@ -28,6 +91,9 @@ export const printConsoleReport = (report: ReviewReport): void => {
   console.log(`   ℹ️  Info:         ${report.summary.infoIssues}`);
   console.log(`   ⏱️  Duration:     ${formatDuration(report.summary.durationMs)}`);
   console.log(`   🔢 Diff lines:   ${report.summary.totalChangedLines}`);
+  if (report.usage) {
+    printConsoleUsage(report.usage);
+  }
 
   if (report.skipped.length > 0) {
     console.log();
@@ -45,10 +111,10 @@ export const printConsoleReport = (report: ReviewReport): void => {
     console.log();
     for (const result of failedOrErrored) {
       const marker = result.result.status === "ERROR" ? "💥" : "❌";
-      console.log(`${marker} ${result.filePath}${result.cached ? " (cached)" : ""}`);
+      console.log(`${marker} ${result.filePath}${formatSourceNote(result)}`);
       if (result.result.issues && result.result.issues.length > 0) {
         for (const issue of result.result.issues) {
-          log.issue(issue.severity, issue.line, issue.message);
+          log.issue(issue.severity, formatIssueLine(issue), issue.message);
           if (issue.suggestion) {
             log.file(`💡 ${issue.suggestion}`);
           }
@@ -68,6 +134,47 @@ export const printConsoleReport = (report: ReviewReport): void => {
   }
 };
 
+const formatMarkdownUsage = (usage: ReviewUsage): string[] => {
+  const lines = [
+    `## Usage`,
+    "",
+    `- Tokens: ${formatTokens(usage)}`,
+    `- Estimated cost: ${formatCost(usage.estimatedCost)}`,
+  ];
+  if (usage.budget) {
+    lines.push(`- Budget: ${formatBudget(usage.budget)}`);
+  }
+  if (usage.unpricedModels.length > 0) {
+    lines.push(
+      `- No price configured for: ${usage.unpricedModels.map((m) => `\`${m}\``).join(", ")}`,
+    );
+  }
+
+  if (usage.byProvider.length > 0) {
+    lines.push("");
+    lines.push(`| Provider | Model | Requests | Prompt tokens | Completion tokens | Est. cost |`);
+    lines.push(`| --- | --- | --- | --- | --- | --- |`);
+    for (const entry of usage.byProvider) {
+      lines.push(
+        `| ${entry.provider} | \`${entry.model}\` | ${entry.requests} | ${entry.promptTokens} | ${entry.completionTokens} | ${formatCost(entry.estimatedCost)} |`,
+      );
+    }
+  }
+
+  if (usage.byFile.length > 0) {
+    lines.push("");
+    lines.push(`| File | Prompt tokens | Completion tokens | Est. cost |`);
+    lines.push(`| --- | --- | --- | --- |`);
+    for (const entry of usage.byFile) {
+      lines.push(
+        `| \`${entry.path}\` | ${entry.promptTokens} | ${entry.completionTokens} | ${formatCost(entry.estimatedCost)} |`,
+      );
+    }
+  }
+
+  return lines;
+};
+
 export const formatMarkdownReport = (report: ReviewReport): string => {
   const lines: string[] = [];
 
@@ -94,6 +201,11 @@ export const formatMarkdownReport = (report: ReviewReport): string => {
   lines.push(`| Duration (ms) | ${Math.round(report.summary.durationMs)} |`);
   lines.push(`| Diff lines | ${report.summary.totalChangedLines} |`);
 
+  if (report.usage) {
+    lines.push("");
+    lines.push(...formatMarkdownUsage(report.usage));
+  }
+
   if (report.skipped.length > 0) {
     lines.push("");
     lines.push(`## Skipped Files`);
@@ -111,11 +223,11 @@ export const formatMarkdownReport = (report: ReviewReport): string => {
     lines.push(`## Findings`);
     lines.push("");
     for (const result of failedOrErrored) {
-      lines.push(`### \`${result.filePath}\``);
+      lines.push(`### \`${result.filePath}\`${formatSourceNote(result)}`);
       if (result.result.issues && result.result.issues.length > 0) {
         for (const issue of result.result.issues) {
           lines.push(
-            `- **${issue.severity}** (line ${issue.line}): ${issue.message}${issue.suggestion ? ` — _${issue.suggestion}_` : ""}`,
+            `- **${issue.severity}** (line ${formatIssueLine(issue)}): ${issue.message}${issue.suggestion ? ` — _${issue.suggestion}_` : ""}`,
           );
         }
       } else {
@@ -136,3 +248,19 @@ export const formatMarkdownReport = (report: ReviewReport): string => {
 
   return lines.join("\n").trimEnd();
 };
+
+/**
+ * Serialize a report into one of the file-friendly formats.
+ */
+export const formatReport = (report: ReviewReport, format: ReportFileFormat): string => {
+  switch (format) {
+    case "json":
+      return JSON.stringify(report, null, 2);
+    case "markdown":
+      return formatMarkdownReport(report);
+    case "sarif":
+      return formatSarifReport(report);
+    case "junit":
+      return formatJUnitReport(report);
+  }
+};
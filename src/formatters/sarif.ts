@@ -0,0 +1,255 @@
+/**
+ * SARIF 2.1.0 formatter for GitHub code scanning and IDE integrations.
+ * Reference: https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+
+import type { AuditIssue, ReviewReport } from "../types/index.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SARIF_VERSION = "2.1.0";
+const TOOL_NAME = "mp-sentinel";
+const TOOL_VERSION = process.env.npm_package_version ?? "1.0.3";
+const TOOL_INFORMATION_URI = "https://github.com/peter-minhnn/mp-sentinel";
+const SRCROOT_BASE_ID = "%SRCROOT%";
+
+/** Rule ID attached to the synthetic issue created when AI is disabled and secrets were found */
+export const SECRET_DETECTED_RULE_ID = "mp-sentinel/secret-detected";
+
+const SECRET_RULE_PREFIX = "mp-sentinel/secret/";
+const SECRET_SECURITY_SEVERITY = "9.0";
+
+type SarifLevel = "error" | "warning" | "note";
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties?: Record<string, unknown>;
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number };
+    };
+  }>;
+  properties?: Record<string, unknown>;
+}
+
+interface SarifNotification {
+  level: SarifLevel;
+  message: { text: string };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    invocations: Array<{
+      executionSuccessful: boolean;
+      toolExecutionNotifications: SarifNotification[];
+    }>;
+    results: SarifResult[];
+    properties: Record<string, unknown>;
+  }>;
+}
+
+const SEVERITY_RULES: Record<AuditIssue["severity"], SarifRule> = {
+  CRITICAL: {
+    id: "mp-sentinel/critical",
+    name: "CriticalFinding",
+    shortDescription: { text: "Critical issue reported by the AI review" },
+    defaultConfiguration: { level: "error" },
+  },
+  WARNING: {
+    id: "mp-sentinel/warning",
+    name: "WarningFinding",
+    shortDescription: { text: "Warning reported by the AI review" },
+    defaultConfiguration: { level: "warning" },
+  },
+  INFO: {
+    id: "mp-sentinel/info",
+    name: "InfoFinding",
+    shortDescription: { text: "Informational note reported by the AI review" },
+    defaultConfiguration: { level: "note" },
+  },
+};
+
+const SEVERITY_LEVELS: Record<AuditIssue["severity"], SarifLevel> = {
+  CRITICAL: "error",
+  WARNING: "warning",
+  INFO: "note",
+};
+
+/**
+ * Rule ID for an issue: its explicit `ruleId`, or the rule of its severity for AI findings.
+ */
+export const resolveIssueRuleId = (issue: AuditIssue): string =>
+  issue.ruleId ?? SEVERITY_RULES[issue.severity].id;
+
+const toRuleSlug = (patternName: string): string =>
+  patternName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const toPascalCase = (patternName: string): string =>
+  patternName
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+
+const buildSecretRule = (patternName: string): SarifRule => ({
+  id: `${SECRET_RULE_PREFIX}${toRuleSlug(patternName)}`,
+  name: `Secret${toPascalCase(patternName)}`,
+  shortDescription: { text: `Potential secret detected: ${patternName}` },
+  defaultConfiguration: { level: "error" },
+  properties: {
+    tags: ["security", "secret"],
+    "security-severity": SECRET_SECURITY_SEVERITY,
+  },
+});
+
+const toArtifactUri = (filePath: string): string => filePath.replace(/\\/g, "/");
+
+/**
+ * Convert a review report into a SARIF 2.1.0 log.
+ * AI issues map to one rule per severity; each redacted secret pattern becomes its own rule.
+ */
+export const buildSarifLog = (report: ReviewReport): SarifLog => {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+  const notifications: SarifNotification[] = [];
+
+  const registerRule = (rule: SarifRule): number => {
+    const existing = ruleIndexes.get(rule.id);
+    if (existing !== undefined) return existing;
+    rules.push(rule);
+    ruleIndexes.set(rule.id, rules.length - 1);
+    return rules.length - 1;
+  };
+
+  for (const entry of report.results) {
+    if (entry.result.status === "ERROR") {
+      notifications.push({
+        level: "error",
+        message: {
+          text: `${entry.filePath}: ${entry.result.message || "Unknown runtime error"}`,
+        },
+      });
+      continue;
+    }
+
+    for (const issue of entry.result.issues ?? []) {
+      // Secret findings are reported through the redaction rules below
+      if (issue.ruleId === SECRET_DETECTED_RULE_ID) continue;
+
+      const rule = SEVERITY_RULES[issue.severity];
+      const properties: Record<string, unknown> = {
+        ...(issue.suggestion && { suggestion: issue.suggestion }),
+        ...(issue.patchLine !== undefined && { patchLine: issue.patchLine }),
+        ...(issue.anchored !== undefined && { anchored: issue.anchored }),
+        ...(issue.agreement && { agreement: issue.agreement }),
+        ...(issue.confidence !== undefined && { confidence: issue.confidence }),
+      };
+      results.push({
+        ruleId: rule.id,
+        ruleIndex: registerRule(rule),
+        level: SEVERITY_LEVELS[issue.severity],
+        message: { text: issue.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: toArtifactUri(entry.filePath),
+                uriBaseId: SRCROOT_BASE_ID,
+              },
+              // Unanchored lines are not real file lines, so only the file is reported
+              ...(issue.anchored !== false && { region: { startLine: issue.line } }),
+            },
+          },
+        ],
+        ...(Object.keys(properties).length > 0 && { properties }),
+      });
+    }
+  }
+
+  for (const redaction of report.redactions) {
+    for (const patternName of redaction.matchedPatterns) {
+      const rule = buildSecretRule(patternName);
+      results.push({
+        ruleId: rule.id,
+        ruleIndex: registerRule(rule),
+        level: "error",
+        message: {
+          text: `Potential secret (${patternName}) was redacted before the AI review. Remove it from the change and use environment variables or a secret manager.`,
+        },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: toArtifactUri(redaction.path),
+                uriBaseId: SRCROOT_BASE_ID,
+              },
+            },
+          },
+        ],
+      });
+    }
+  }
+
+  for (const error of report.errors) {
+    notifications.push({ level: "error", message: { text: error } });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            informationUri: TOOL_INFORMATION_URI,
+            rules,
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: report.status !== "ERROR",
+            toolExecutionNotifications: notifications,
+          },
+        ],
+        results,
+        properties: {
+          status: report.status,
+          target: report.target,
+          aiEnabled: report.aiEnabled,
+          promptVersion: report.promptVersion,
+          summary: report.summary,
+          generatedAt: report.generatedAt,
+        },
+      },
+    ],
+  };
+};
+
+export const formatSarifReport = (report: ReviewReport): string =>
+  JSON.stringify(buildSarifLog(report), null, 2);
@@ -10,18 +10,22 @@
 
 import * as dotenv from "dotenv";
 
-import type { ProjectConfig } from "./types/index.js";
+import type { ProjectConfig, ReviewFormat } from "./types/index.js";
 import { loadProjectConfig } from "./utils/config.js";
 import { isGitRepository, getCurrentBranch } from "./utils/git.js";
 import { log, setLogQuietMode } from "./utils/logger.js";
 import { parseCliArgs } from "./cli/args.js";
 import { runLocalReview } from "./cli/local-review.js";
 import { runReview } from "./cli/review.js";
+import { runCacheCommand } from "./cli/cache.js";
 import { isTypedError, SystemError, UserError } from "./utils/errors.js";
 
 // Load environment variables
 dotenv.config();
 
+/** Formats whose stdout must stay parseable, so progress logs are silenced */
+const MACHINE_READABLE_FORMATS: readonly ReviewFormat[] = ["json", "markdown", "sarif", "junit"];
+
 // ── SIGINT handler — clean up progress bar on Ctrl+C ─────────────────────────
 process.on("SIGINT", () => {
   // Move to a new line so the progress bar doesn't leave artefacts
@@ -37,9 +41,17 @@ const run = async (): Promise<void> => {
   const startTime = performance.now();
   const { command, values, positionals, commandPositionals } = parseCliArgs();
   const requestedFormat = values.format ?? process.env.MP_SENTINEL_FORMAT;
-  const quietLogs = values.quiet || requestedFormat === "json" || requestedFormat === "markdown";
+  const quietLogs =
+    values.quiet || MACHINE_READABLE_FORMATS.includes(requestedFormat as ReviewFormat);
   setLogQuietMode(quietLogs);
 
+  // Cache maintenance needs only the config, not a git checkout
+  if (command === "cache") {
+    const config = await loadProjectConfig();
+    process.exitCode = await runCacheCommand({ values, commandPositionals, config });
+    return;
+  }
+
   // Check if in git repository
   if (!(await isGitRepository())) {
     throw new SystemError("Not a git repository. Please run from a git project root.");
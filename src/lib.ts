@@ -1,17 +1,32 @@
 // Type exports
 export type {
   ProjectConfig,
+  PRCommentsConfig,
+  CheckRunConfig,
+  CacheConfig,
   AuditIssue,
   AuditResult,
   FileAuditResult,
   CLIOptions,
+  ReportFileFormat,
+  ReportOutput,
   ReviewFormat,
   ReviewInputFile,
   ReviewMode,
+  ReviewRedaction,
   ReviewReport,
   ReviewSkippedItem,
   ReviewSummary,
   ReviewTarget,
+  ReviewUsage,
+  TokenUsage,
+  ModelPricing,
+  ProviderUsage,
+  FileUsage,
+  EnsembleConfig,
+  CircuitBreakerConfig,
+  IssueAgreement,
+  IssueVerdict,
 } from "./types/index.js";
 export { DEFAULT_CONFIG } from "./types/index.js";
 
@@ -25,9 +40,51 @@ export {
   isGitRepository,
   getCurrentBranch,
 } from "./utils/git.js";
-export { cleanJSON, parseAuditResponse, formatBytes } from "./utils/parser.js";
+export {
+  cleanJSON,
+  parseAuditResponse,
+  parseStructuredAuditResponse,
+  parseBatchAuditResponse,
+  parseStructuredBatchAuditResponse,
+  parseVerificationResponse,
+  validateJsonSchema,
+  SchemaValidationError,
+  formatBytes,
+} from "./utils/parser.js";
+export {
+  AUDIT_RESULT_SCHEMA,
+  AUDIT_BATCH_RESULT_SCHEMA,
+  AUDIT_VERIFICATION_SCHEMA,
+} from "./config/audit-schema.js";
+export type { JsonSchema, StructuredOutputSchema } from "./config/audit-schema.js";
+export { DEFAULT_MODEL_PRICING, resolveModelPricing, estimateCost } from "./config/pricing.js";
+export {
+  anchorAuditResult,
+  parsePatchLineMap,
+  resolvePatchLine,
+  splitPatchIntoChunks,
+  splitFilesIntoPromptPayloads,
+  splitPatchIntoHunks,
+  stripHunkLineNumbers,
+  stripPatchFileHeader,
+  mergeChunkResults,
+} from "./utils/diff.js";
+export type {
+  DiffHunk,
+  PatchChunk,
+  PatchLineMap,
+  PatchLineMapping,
+  ResolvedIssueLine,
+  UnanchoredIssueMode,
+} from "./utils/diff.js";
 export { log, formatDuration, setLogQuietMode } from "./utils/logger.js";
-export { UserError, SystemError, ProviderError } from "./utils/errors.js";
+export { UserError, SystemError, ProviderError, ProviderHttpError } from "./utils/errors.js";
+export {
+  withRetry,
+  isRateLimitError,
+  parseRetryAfter,
+  DEFAULT_MAX_RETRY_AFTER_MS,
+} from "./utils/retry.js";
 
 // Service exports
 export {
@@ -36,6 +93,52 @@ export {
   auditFilesWithConcurrency,
   clearModelCache,
 } from "./services/ai.js";
+export {
+  auditFileBatch,
+  auditFileInChunks,
+  verifyAuditResult,
+  summarizeUsage,
+} from "./services/ai/index.js";
+export { groupRelatedFiles, findRelativeImports } from "./services/ai/batching.js";
+export { createScheduler, formatSchedulerStats } from "./services/ai/scheduler.js";
+export type { Scheduler, SchedulerStats } from "./services/ai/scheduler.js";
+export {
+  createProviderHealth,
+  DEFAULT_CIRCUIT_COOLDOWN_MS,
+  DEFAULT_FAILURE_THRESHOLD,
+  isProviderHealthError,
+} from "./services/ai/provider-health.js";
+export type {
+  CircuitBreakerSettings,
+  CircuitState,
+  ProviderHealth,
+  ProviderHealthStats,
+} from "./services/ai/provider-health.js";
+export { mergeEnsembleResults, messageSimilarity } from "./services/ai/ensemble.js";
+export type { EnsembleMemberResult } from "./services/ai/ensemble.js";
+export { applyVerification, DEFAULT_MIN_CONFIDENCE } from "./services/ai/verification.js";
+export type { VerificationSettings } from "./services/ai/verification.js";
+export type { BatchCandidate, BatchLimits } from "./services/ai/batching.js";
+export {
+  buildAuditCacheKey,
+  createCacheBackend,
+  validateCacheConfig,
+  resolveCacheLimits,
+  readCachedAuditResult,
+  writeCachedAuditResult,
+} from "./services/ai/cache.js";
+export { FileSystemCacheBackend } from "./services/ai/cache-backends/fs.backend.js";
+export { JsonLinesCacheBackend } from "./services/ai/cache-backends/jsonl.backend.js";
+export { HttpCacheBackend, signCacheEntry } from "./services/ai/cache-backends/http.backend.js";
+export type { HttpCacheOptions } from "./services/ai/cache-backends/http.backend.js";
+export { planHunkReview, splitResultByHunks, mergeHunkResults } from "./services/ai/hunk-cache.js";
+export type { CachedHunk, HunkReviewPlan } from "./services/ai/hunk-cache.js";
+export type {
+  ICacheBackend,
+  CacheLimits,
+  CacheStats,
+  CachePruneResult,
+} from "./services/ai/types.js";
 export { readFilesForAudit, getFileExtension, isCodeFile } from "./services/file.js";
 export type { FileContent, FileReadResult } from "./services/file.js";
 
@@ -45,6 +148,9 @@ export {
   BASE_AUDIT_PROMPT,
   buildSystemPrompt,
   buildCommitPrompt,
+  buildBatchPrompt,
+  buildVerificationPrompt,
+  VERIFICATION_PROMPT,
 } from "./config/prompts.js";
 
 // Security exports
@@ -65,5 +171,63 @@ export type {
 export { FileHandler } from "./services/file-handler.js";
 export type { FileHandlerOptions, FileFilterResult } from "./services/file-handler.js";
 
+// Git provider exports
+export {
+  getGitProvider,
+  registerGitProvider,
+  unregisterGitProvider,
+  getRegisteredGitProviders,
+  buildIssueFingerprint,
+  buildReviewComments,
+  planCommentSync,
+  syncReviewComments,
+  GitHubProvider,
+  GitLabProvider,
+  BitbucketProvider,
+  AzureDevOpsProvider,
+} from "./services/git-provider/index.js";
+export type {
+  GitProvider,
+  GitProviderName,
+  GitProviderRegistration,
+  ReviewComment,
+  ExistingComment,
+  ReviewSubmission,
+  CommitStatus,
+  CommitStatusState,
+  CheckAnnotation,
+  CheckRunConclusion,
+  CheckRunReport,
+  CommentSyncResult,
+} from "./services/git-provider/index.js";
+
+// PR comment exports
+export {
+  publishReviewComments,
+  selectCommentableIssues,
+  collectReviewedFiles,
+  buildReviewSubmission,
+  DEFAULT_COMMENT_MIN_SEVERITY,
+} from "./services/review-comments.js";
+export type {
+  CommentSeverity,
+  CommentableIssue,
+  PublishCommentsResult,
+} from "./services/review-comments.js";
+
+// Check run exports
+export {
+  buildCheckRunReport,
+  publishCheckRun,
+  DEFAULT_CHECK_RUN_NAME,
+} from "./services/check-run.js";
+export type { PublishCheckRunResult } from "./services/check-run.js";
+
+// Formatter exports
+export { formatMarkdownReport, formatReport } from "./formatters/report.js";
+export { buildSarifLog, formatSarifReport, SECRET_DETECTED_RULE_ID } from "./formatters/sarif.js";
+export type { SarifLog } from "./formatters/sarif.js";
+export { formatJUnitReport } from "./formatters/junit.js";
+
 // Review command export (programmatic)
 export { runReview } from "./cli/review.js";
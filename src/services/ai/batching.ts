@@ -0,0 +1,138 @@
+/**
+ * Cross-file batching: groups related files so one prompt can review them together
+ * Relations, strongest first: relative imports, test/source pairs, shared directory.
+ */
+
+import { posix } from "node:path";
+
+export interface BatchCandidate {
+  path: string;
+  content: string;
+  /** Estimated prompt tokens of `content` */
+  tokens: number;
+}
+
+export interface BatchLimits {
+  /** Maximum estimated tokens of all files in one batch */
+  maxTokens: number;
+  /** Maximum files in one batch */
+  maxFiles: number;
+}
+
+export const DEFAULT_MAX_BATCH_TOKENS = 12_000;
+export const DEFAULT_MAX_BATCH_FILES = 8;
+
+const SOURCE_EXTENSION = /\.(?:[cm]?[jt]sx?|vue|svelte)$/;
+const TEST_SUFFIX = /\.(?:test|spec)$/;
+const TEST_DIRECTORY = /(?:^|\/)(?:__tests__|tests?)\//;
+
+/**
+ * Relative module specifiers in ESM imports/exports, dynamic imports and require calls
+ */
+const IMPORT_PATTERN =
+  /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)["'](\.{1,2}\/[^"']+)["']/g;
+
+/** `src/a/b.ts` → `src/a/b` */
+const stripExtension = (path: string): string => path.replace(SOURCE_EXTENSION, "");
+
+/** Module paths a file can be imported as: `src/a/b` and, for index files, `src/a` */
+const moduleIds = (path: string): string[] => {
+  const id = stripExtension(path);
+  return posix.basename(id) === "index" ? [id, posix.dirname(id)] : [id];
+};
+
+/** Resolved module paths imported by the patch, relative to the repository root */
+export const findRelativeImports = (path: string, content: string): string[] => {
+  const directory = posix.dirname(path);
+  return [...content.matchAll(IMPORT_PATTERN)].map((match) =>
+    stripExtension(posix.join(directory, match[1] ?? "")),
+  );
+};
+
+/** `src/__tests__/user.test.ts` → `user`; null for non-test files */
+const testSubject = (path: string): string | null => {
+  const name = posix.basename(stripExtension(path));
+  if (TEST_SUFFIX.test(name)) return name.replace(TEST_SUFFIX, "");
+  return TEST_DIRECTORY.test(path) ? name : null;
+};
+
+/**
+ * Pairs of related file indexes, strongest relation first
+ */
+const findRelations = (files: BatchCandidate[]): Array<[number, number]> => {
+  const byModuleId = new Map<string, number>();
+  files.forEach((file, index) => {
+    for (const id of moduleIds(file.path)) byModuleId.set(id, index);
+  });
+
+  const imports: Array<[number, number]> = [];
+  files.forEach((file, index) => {
+    for (const id of findRelativeImports(file.path, file.content)) {
+      const target = byModuleId.get(id);
+      if (target !== undefined && target !== index) imports.push([index, target]);
+    }
+  });
+
+  const testPairs: Array<[number, number]> = [];
+  files.forEach((file, index) => {
+    const subject = testSubject(file.path);
+    if (subject === null) return;
+    files.forEach((other, otherIndex) => {
+      const name = posix.basename(stripExtension(other.path));
+      if (testSubject(other.path) === null && name === subject) testPairs.push([index, otherIndex]);
+    });
+  });
+
+  const sameDirectory: Array<[number, number]> = [];
+  files.forEach((file, index) => {
+    for (let other = index + 1; other < files.length; other += 1) {
+      if (posix.dirname(file.path) === posix.dirname(files[other]?.path ?? "")) {
+        sameDirectory.push([index, other]);
+      }
+    }
+  });
+
+  return [...imports, ...testPairs, ...sameDirectory];
+};
+
+/**
+ * Group related files into batches within `limits`. Relations are merged greedily,
+ * strongest first, and a merge that would exceed a limit is skipped. Groups keep the
+ * input order; unrelated files stay in groups of one.
+ */
+export const groupRelatedFiles = <T extends BatchCandidate>(
+  files: T[],
+  limits: BatchLimits,
+): T[][] => {
+  const parent = files.map((_, index) => index);
+  const tokens = files.map((file) => file.tokens);
+  const sizes = files.map(() => 1);
+
+  const find = (index: number): number => {
+    let root = index;
+    while (parent[root] !== root) root = parent[root] ?? root;
+    return root;
+  };
+
+  for (const [a, b] of findRelations(files)) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) continue;
+
+    const mergedTokens = (tokens[rootA] ?? 0) + (tokens[rootB] ?? 0);
+    const mergedSize = (sizes[rootA] ?? 0) + (sizes[rootB] ?? 0);
+    if (mergedTokens > limits.maxTokens || mergedSize > limits.maxFiles) continue;
+
+    const [root, child] = rootA < rootB ? [rootA, rootB] : [rootB, rootA];
+    parent[child] = root;
+    tokens[root] = mergedTokens;
+    sizes[root] = mergedSize;
+  }
+
+  const groups = new Map<number, T[]>();
+  files.forEach((file, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), file]);
+  });
+  return [...groups.values()];
+};
@@ -0,0 +1,166 @@
+/**
+ * Filesystem cache backend: one JSON file per entry
+ * Write time is the file's mtime (TTL) and last use its atime (LRU), which
+ * reads set explicitly so `noatime`/`relatime` mounts do not matter.
+ */
+
+import { randomBytes } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import type { CacheLimits, CachePruneResult, CacheStats, ICacheBackend } from "../types.js";
+import { isExpired, planPrune, type RetainedEntry } from "./retention.js";
+
+const ENTRY_SUFFIX = ".json";
+const TEMP_SUFFIX = ".tmp";
+/** Temp files older than this were left by an interrupted write */
+const STALE_TEMP_MS = 60 * 60 * 1000;
+
+interface FileEntry extends RetainedEntry {
+  path: string;
+}
+
+const isMissing = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && "code" in error && error.code === "ENOENT";
+
+const removeFile = async (path: string): Promise<void> => {
+  await unlink(path).catch((error: unknown) => {
+    if (!isMissing(error)) throw error;
+  });
+};
+
+export class FileSystemCacheBackend implements ICacheBackend {
+  readonly name = "fs";
+  private directory: string;
+  private limits: CacheLimits;
+
+  constructor(directory: string, limits: CacheLimits = {}) {
+    this.directory = directory;
+    this.limits = limits;
+  }
+
+  private entryPath(key: string): string {
+    return join(this.directory, `${key}${ENTRY_SUFFIX}`);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const path = this.entryPath(key);
+    try {
+      const info = await stat(path);
+      const entry = { key, bytes: info.size, writtenAt: info.mtimeMs, accessedAt: info.atimeMs };
+      if (isExpired(entry, this.limits, Date.now())) {
+        await removeFile(path);
+        return null;
+      }
+
+      const content = await readFile(path, "utf-8");
+      // Record the use for LRU eviction; keep mtime as the write time
+      await utimes(path, new Date(), info.mtime).catch(() => undefined);
+      return content;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const path = this.entryPath(key);
+    // Write to a temp file and rename it over the entry, so concurrent runs
+    // never read a partially written entry
+    const tempPath = `${path}.${process.pid}.${randomBytes(4).toString("hex")}${TEMP_SUFFIX}`;
+    await mkdir(this.directory, { recursive: true });
+    try {
+      await writeFile(tempPath, value, "utf-8");
+      await rename(tempPath, path);
+    } catch (error) {
+      await removeFile(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      return await readdir(this.directory);
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  }
+
+  private async listEntries(): Promise<FileEntry[]> {
+    const names = (await this.listFiles()).filter((name) => name.endsWith(ENTRY_SUFFIX));
+    const entries = await Promise.all(
+      names.map(async (name): Promise<FileEntry | null> => {
+        const path = join(this.directory, name);
+        try {
+          const info = await stat(path);
+          return {
+            key: name.slice(0, -ENTRY_SUFFIX.length),
+            path,
+            bytes: info.size,
+            writtenAt: info.mtimeMs,
+            accessedAt: info.atimeMs,
+          };
+        } catch {
+          return null; // removed by a concurrent run
+        }
+      }),
+    );
+    return entries.filter((entry): entry is FileEntry => entry !== null);
+  }
+
+  async stats(): Promise<CacheStats> {
+    const entries = await this.listEntries();
+    const now = Date.now();
+    const writeTimes = entries.map((entry) => entry.writtenAt);
+
+    return {
+      backend: this.name,
+      location: this.directory,
+      entries: entries.length,
+      bytes: entries.reduce((acc, entry) => acc + entry.bytes, 0),
+      expired: entries.filter((entry) => isExpired(entry, this.limits, now)).length,
+      ...(writeTimes.length > 0 && {
+        oldest: Math.min(...writeTimes),
+        newest: Math.max(...writeTimes),
+      }),
+    };
+  }
+
+  async prune(): Promise<CachePruneResult> {
+    const now = Date.now();
+    const { expired, evicted, kept } = planPrune(await this.listEntries(), this.limits, now);
+    await Promise.all([...expired, ...evicted].map((entry) => removeFile(entry.path)));
+
+    const tempNames = (await this.listFiles()).filter((name) => name.endsWith(TEMP_SUFFIX));
+    await Promise.all(
+      tempNames.map(async (name) => {
+        const path = join(this.directory, name);
+        const info = await stat(path).catch(() => null);
+        if (info && now - info.mtimeMs > STALE_TEMP_MS) await removeFile(path);
+      }),
+    );
+
+    return {
+      expired: expired.length,
+      evicted: evicted.length,
+      remaining: kept.length,
+      bytes: kept.reduce((acc, entry) => acc + entry.bytes, 0),
+    };
+  }
+
+  async clear(): Promise<number> {
+    const names = (await this.listFiles()).filter(
+      (name) => name.endsWith(ENTRY_SUFFIX) || name.endsWith(TEMP_SUFFIX),
+    );
+    await Promise.all(names.map((name) => removeFile(join(this.directory, name))));
+    return names.filter((name) => name.endsWith(ENTRY_SUFFIX)).length;
+  }
+}
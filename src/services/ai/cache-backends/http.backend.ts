@@ -0,0 +1,154 @@
+/**
+ * HTTP cache backend: a cache server shared by every CI runner
+ * Protocol: `GET {url}/{key}` returns the entry (404 when missing) and
+ * `PUT {url}/{key}` stores it. Entries are signed with an HMAC over the key,
+ * write time and value, so a server or proxy that rewrites entries cannot
+ * inject audit results; entries that fail verification are misses.
+ * Retention belongs to the server: `prune` only honours the TTL on read.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { CacheLimits, CachePruneResult, CacheStats, ICacheBackend } from "../types.js";
+import { SystemError, UserError } from "../../../utils/errors.js";
+import { isExpired } from "./retention.js";
+
+export const DEFAULT_HTTP_CACHE_TIMEOUT_MS = 5000;
+const ENTRY_VERSION = 1;
+const UNSUPPORTED_MESSAGE =
+  "The http cache backend cannot list or remove entries; manage them on the cache server.";
+
+export interface HttpCacheOptions {
+  /** Base URL; entries live at `{url}/{key}` */
+  url: string;
+  /** HMAC-SHA256 key shared by every runner */
+  secret: string;
+  /** Sent as `Authorization: Bearer <token>` when set */
+  token?: string;
+  timeoutMs?: number;
+  limits?: CacheLimits;
+}
+
+/** Signed envelope stored on the server */
+interface HttpCacheEntry {
+  version: number;
+  key: string;
+  writtenAt: number;
+  value: string;
+  signature: string;
+}
+
+/**
+ * HMAC-SHA256 (hex) of an entry. The key is signed too, so a valid entry
+ * cannot be served under another file's key.
+ */
+export const signCacheEntry = (
+  secret: string,
+  entry: Pick<HttpCacheEntry, "version" | "key" | "writtenAt" | "value">,
+): string =>
+  createHmac("sha256", secret)
+    .update([entry.version, entry.key, entry.writtenAt, entry.value].join("\n"))
+    .digest("hex");
+
+const isEntry = (value: unknown): value is HttpCacheEntry => {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.version === "number" &&
+    typeof entry.key === "string" &&
+    typeof entry.writtenAt === "number" &&
+    typeof entry.value === "string" &&
+    typeof entry.signature === "string"
+  );
+};
+
+const hasValidSignature = (secret: string, entry: HttpCacheEntry): boolean => {
+  const expected = Buffer.from(signCacheEntry(secret, entry), "hex");
+  const actual = Buffer.from(entry.signature, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+export class HttpCacheBackend implements ICacheBackend {
+  readonly name = "http";
+  private baseUrl: string;
+  private secret: string;
+  private token: string | undefined;
+  private timeoutMs: number;
+  private limits: CacheLimits;
+
+  constructor(options: HttpCacheOptions) {
+    this.baseUrl = options.url.replace(/\/+$/, "");
+    this.secret = options.secret;
+    this.token = options.token;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_HTTP_CACHE_TIMEOUT_MS;
+    this.limits = options.limits ?? {};
+  }
+
+  private entryUrl(key: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(key)}`;
+  }
+
+  private request(key: string, init: RequestInit): Promise<Response> {
+    return fetch(this.entryUrl(key), {
+      ...init,
+      signal: AbortSignal.timeout(this.timeoutMs),
+      headers: {
+        "User-Agent": "mp-sentinel/1.0",
+        ...(this.token && { Authorization: `Bearer ${this.token}` }),
+        ...init.headers,
+      },
+    });
+  }
+
+  async get(key: string): Promise<string | null> {
+    try {
+      const response = await this.request(key, {
+        method: "GET",
+        headers: { Accept: "application/json" },
+      });
+      if (!response.ok) return null;
+
+      const entry: unknown = await response.json();
+      if (
+        !isEntry(entry) ||
+        entry.version !== ENTRY_VERSION ||
+        entry.key !== key ||
+        !hasValidSignature(this.secret, entry)
+      ) {
+        return null;
+      }
+
+      const age = { key, bytes: 0, writtenAt: entry.writtenAt, accessedAt: entry.writtenAt };
+      return isExpired(age, this.limits, Date.now()) ? null : entry.value;
+    } catch {
+      // Unreachable server or malformed body: audit the file instead
+      return null;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const unsigned = { version: ENTRY_VERSION, key, writtenAt: Date.now(), value };
+    const entry: HttpCacheEntry = { ...unsigned, signature: signCacheEntry(this.secret, unsigned) };
+
+    const response = await this.request(key, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(entry),
+    });
+    if (!response.ok) {
+      throw new SystemError(`Cache server rejected entry: HTTP ${response.status}`);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    throw new UserError(UNSUPPORTED_MESSAGE);
+  }
+
+  async prune(): Promise<CachePruneResult> {
+    // Expired entries are ignored on read; the server enforces storage limits
+    return { expired: 0, evicted: 0, remaining: 0, bytes: 0 };
+  }
+
+  async clear(): Promise<number> {
+    throw new UserError(UNSUPPORTED_MESSAGE);
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * JSON-lines cache backend: every entry in one append-only file
+ * Writes append a line (the last line for a key wins). Prune compacts the file only
+ * when entries expired or were evicted, or superseded lines take up most of it;
+ * compaction persists last-use times for LRU eviction. Suited to caches that are
+ * saved and restored as a single CI artifact.
+ *
+ * Concurrent runs may share the file: appends are single writes of whole lines, one
+ * run at a time compacts (guarded by a lock file), and lines appended while it does
+ * are carried over before the compacted file replaces the original.
+ */
+
+import { randomBytes } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { CacheLimits, CachePruneResult, CacheStats, ICacheBackend } from "../types.js";
+import { isExpired, planPrune, type RetainedEntry } from "./retention.js";
+
+export const JSONL_CACHE_FILE = "cache.jsonl";
+
+/** Compact when the file is this many times the size of the entries it keeps */
+const COMPACT_SIZE_RATIO = 2;
+/** A compaction lock older than this was left by a run that crashed */
+const LOCK_STALE_MS = 60_000;
+
+interface JsonLinesEntry extends RetainedEntry {
+  value: string;
+}
+
+interface JsonLinesRecord {
+  key: string;
+  value: string;
+  writtenAt: number;
+  accessedAt: number;
+}
+
+const serialize = (entry: JsonLinesEntry): string =>
+  JSON.stringify({
+    key: entry.key,
+    value: entry.value,
+    writtenAt: entry.writtenAt,
+    accessedAt: entry.accessedAt,
+  } satisfies JsonLinesRecord);
+
+const toEntry = (record: JsonLinesRecord): JsonLinesEntry => ({
+  ...record,
+  bytes: Buffer.byteLength(serialize({ ...record, bytes: 0 })) + 1,
+});
+
+const isRecord = (value: unknown): value is JsonLinesRecord => {
+  if (typeof value !== "object" || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.key === "string" &&
+    typeof record.value === "string" &&
+    typeof record.writtenAt === "number" &&
+    typeof record.accessedAt === "number"
+  );
+};
+
+export class JsonLinesCacheBackend implements ICacheBackend {
+  readonly name = "jsonl";
+  private directory: string;
+  private filePath: string;
+  private limits: CacheLimits;
+  private entries: Map<string, JsonLinesEntry> | null = null;
+  /** Last-use times recorded since the file was loaded, persisted by prune */
+  private accessed = new Map<string, number>();
+
+  constructor(directory: string, limits: CacheLimits = {}) {
+    this.directory = directory;
+    this.filePath = join(directory, JSONL_CACHE_FILE);
+    this.limits = limits;
+  }
+
+  /** Raw file content; empty when there is no file yet */
+  private async readContent(): Promise<Buffer> {
+    try {
+      return await readFile(this.filePath);
+    } catch {
+      return Buffer.alloc(0);
+    }
+  }
+
+  /** Entries currently in the file; unreadable lines (e.g. a torn append) are skipped */
+  private async readEntries(content?: Buffer): Promise<Map<string, JsonLinesEntry>> {
+    const entries = new Map<string, JsonLinesEntry>();
+    for (const line of (content ?? (await this.readContent())).toString("utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record: unknown = JSON.parse(line);
+        if (isRecord(record)) entries.set(record.key, toEntry(record));
+      } catch {
+        // skip corrupted line
+      }
+    }
+    return entries;
+  }
+
+  private async load(): Promise<Map<string, JsonLinesEntry>> {
+    this.entries ??= await this.readEntries();
+    return this.entries;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = (await this.load()).get(key);
+    if (!entry) return null;
+
+    const now = Date.now();
+    if (isExpired(entry, this.limits, now)) return null;
+    entry.accessedAt = now;
+    this.accessed.set(key, now);
+    return entry.value;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const entries = await this.load();
+    const now = Date.now();
+    const entry = toEntry({ key, value, writtenAt: now, accessedAt: now });
+
+    await mkdir(this.directory, { recursive: true });
+    await appendFile(this.filePath, `${serialize(entry)}\n`, "utf-8");
+    entries.set(key, entry);
+  }
+
+  async stats(): Promise<CacheStats> {
+    const entries = [...(await this.readEntries()).values()];
+    const now = Date.now();
+    const writeTimes = entries.map((entry) => entry.writtenAt);
+
+    return {
+      backend: this.name,
+      location: this.filePath,
+      entries: entries.length,
+      bytes: entries.reduce((acc, entry) => acc + entry.bytes, 0),
+      expired: entries.filter((entry) => isExpired(entry, this.limits, now)).length,
+      ...(writeTimes.length > 0 && {
+        oldest: Math.min(...writeTimes),
+        newest: Math.max(...writeTimes),
+      }),
+    };
+  }
+
+  async prune(): Promise<CachePruneResult> {
+    // Re-read so entries appended by other runs since our load are kept
+    const content = await this.readContent();
+    const entries = await this.readEntries(content);
+    for (const [key, accessedAt] of this.accessed) {
+      const entry = entries.get(key);
+      if (entry) entry.accessedAt = Math.max(entry.accessedAt, accessedAt);
+    }
+
+    const { expired, evicted, kept } = planPrune([...entries.values()], this.limits);
+    const keptBytes = kept.reduce((acc, entry) => acc + entry.bytes, 0);
+    const untouched: CachePruneResult = {
+      expired: 0,
+      evicted: 0,
+      remaining: entries.size,
+      bytes: [...entries.values()].reduce((acc, entry) => acc + entry.bytes, 0),
+    };
+
+    const worthCompacting =
+      expired.length > 0 || evicted.length > 0 || content.length > keptBytes * COMPACT_SIZE_RATIO;
+    // Another run is compacting: leave it to that run
+    if (!worthCompacting || !(await this.acquireLock())) return untouched;
+
+    try {
+      await this.compact(kept, content.length);
+    } finally {
+      await unlink(this.lockPath).catch(() => undefined);
+    }
+
+    // Reload on next use to pick up lines other runs appended meanwhile
+    this.entries = null;
+    this.accessed.clear();
+    return {
+      expired: expired.length,
+      evicted: evicted.length,
+      remaining: kept.length,
+      bytes: keptBytes,
+    };
+  }
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  /** Take the compaction lock; false while another run holds it */
+  private async acquireLock(): Promise<boolean> {
+    const create = (): Promise<boolean> =>
+      writeFile(this.lockPath, String(process.pid), { flag: "wx" }).then(
+        () => true,
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === "EEXIST") return false;
+          throw error;
+        },
+      );
+
+    if (await create()) return true;
+    const lock = await stat(this.lockPath).catch(() => null);
+    if (lock && Date.now() - lock.mtimeMs < LOCK_STALE_MS) return false;
+    await unlink(this.lockPath).catch(() => undefined);
+    return create();
+  }
+
+  /**
+   * Replace the file with `kept`, through a temp file so readers never see a half-written
+   * store. The file is append-only, so lines other runs appended after the first
+   * `readBytes` bytes were read are carried over before the rename.
+   */
+  private async compact(kept: JsonLinesEntry[], readBytes: number): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+    try {
+      await writeFile(tempPath, kept.map((entry) => `${serialize(entry)}\n`).join(""), "utf-8");
+      const current = await this.readContent();
+      if (current.length > readBytes) {
+        await appendFile(tempPath, current.subarray(readBytes));
+      }
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async clear(): Promise<number> {
+    const removed = (await this.readEntries()).size;
+    await unlink(this.filePath).catch(() => undefined);
+    this.entries = new Map();
+    this.accessed.clear();
+    return removed;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Retention rules shared by the cache backends: TTL expiry, then LRU eviction
+ */
+
+import type { CacheLimits } from "../types.js";
+
+export interface RetainedEntry {
+  key: string;
+  bytes: number;
+  /** Epoch ms of the write, the start of the TTL */
+  writtenAt: number;
+  /** Epoch ms of the last read or write, the LRU order */
+  accessedAt: number;
+}
+
+export interface PrunePlan<T extends RetainedEntry> {
+  expired: T[];
+  evicted: T[];
+  kept: T[];
+}
+
+export const isExpired = (entry: RetainedEntry, limits: CacheLimits, now: number): boolean =>
+  limits.ttlMs !== undefined && now - entry.writtenAt > limits.ttlMs;
+
+/**
+ * Split `entries` into expired, evicted and kept. Live entries are kept most
+ * recently used first until a limit would be exceeded; that entry and every
+ * less recently used one are evicted.
+ */
+export const planPrune = <T extends RetainedEntry>(
+  entries: T[],
+  limits: CacheLimits,
+  now: number = Date.now(),
+): PrunePlan<T> => {
+  const expired = entries.filter((entry) => isExpired(entry, limits, now));
+  const live = entries
+    .filter((entry) => !isExpired(entry, limits, now))
+    .sort((a, b) => b.accessedAt - a.accessedAt);
+
+  const maxEntries = limits.maxEntries ?? Infinity;
+  const maxBytes = limits.maxBytes ?? Infinity;
+  let bytes = 0;
+  let cut = live.findIndex((entry, index) => {
+    bytes += entry.bytes;
+    return index >= maxEntries || bytes > maxBytes;
+  });
+  if (cut === -1) cut = live.length;
+
+  return { expired, evicted: live.slice(cut), kept: live.slice(0, cut) };
+};
@@ -1,18 +1,82 @@
 /**
  * Persistent cache for AI audit responses.
+ * Entries live in a pluggable backend (`cache.backend`) with TTL and LRU size limits.
  */
 
 import { createHash } from "node:crypto";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { resolve } from "node:path";
-import type { AuditResult } from "../../types/index.js";
+import type { AuditResult, CacheConfig } from "../../types/index.js";
 import { parseAuditResponse } from "../../utils/parser.js";
+import type { CacheLimits, ICacheBackend } from "./types.js";
+import { FileSystemCacheBackend } from "./cache-backends/fs.backend.js";
+import { JsonLinesCacheBackend } from "./cache-backends/jsonl.backend.js";
+import { HttpCacheBackend } from "./cache-backends/http.backend.js";
+import { UserError } from "../../utils/errors.js";
 
-const CACHE_DIR = ".mp-sentinel-cache";
+export const DEFAULT_CACHE_DIR = ".mp-sentinel-cache";
+export const DEFAULT_CACHE_TTL_HOURS = 168;
+export const DEFAULT_CACHE_MAX_SIZE_MB = 100;
 const CACHE_VERSION = "1";
 
-const getCachePath = (key: string, cwd: string = process.cwd()): string =>
-  resolve(cwd, CACHE_DIR, `${key}.json`);
+/**
+ * Retention limits for `config`, with the default TTL and size cap
+ */
+export const resolveCacheLimits = (config: CacheConfig = {}): CacheLimits => ({
+  ttlMs: (config.ttlHours ?? DEFAULT_CACHE_TTL_HOURS) * 60 * 60 * 1000,
+  maxBytes: Math.round((config.maxSizeMb ?? DEFAULT_CACHE_MAX_SIZE_MB) * 1024 * 1024),
+  ...(config.maxEntries !== undefined && { maxEntries: config.maxEntries }),
+});
+
+/** Server URL and signing secret of the http backend; throws UserError when one is missing */
+const resolveHttpCacheSettings = (config: CacheConfig): { url: string; secret: string } => {
+  const secret = process.env.MP_SENTINEL_CACHE_SECRET;
+  if (!config.url) {
+    throw new UserError("cache.url is required for the http cache backend.");
+  }
+  if (!secret) {
+    throw new UserError(
+      "MP_SENTINEL_CACHE_SECRET is required for the http cache backend (entries are HMAC-signed).",
+    );
+  }
+  return { url: config.url, secret };
+};
+
+/**
+ * Check that the backend selected by `config.backend` can be created, so a bad cache
+ * setup is reported before any work starts. Throws UserError otherwise.
+ */
+export const validateCacheConfig = (config: CacheConfig = {}): void => {
+  if (config.backend === "http") resolveHttpCacheSettings(config);
+};
+
+/**
+ * Cache backend selected by `config.backend`: local ones are rooted at
+ * `config.directory` under `cwd`; the http backend signs entries with
+ * `MP_SENTINEL_CACHE_SECRET` and authenticates with `MP_SENTINEL_CACHE_TOKEN`.
+ */
+export const createCacheBackend = (
+  config: CacheConfig = {},
+  cwd: string = process.cwd(),
+): ICacheBackend => {
+  const limits = resolveCacheLimits(config);
+
+  if (config.backend === "http") {
+    const { url, secret } = resolveHttpCacheSettings(config);
+    const token = process.env.MP_SENTINEL_CACHE_TOKEN;
+    return new HttpCacheBackend({
+      url,
+      secret,
+      limits,
+      ...(token && { token }),
+      ...(config.timeoutMs && { timeoutMs: config.timeoutMs }),
+    });
+  }
+
+  const directory = resolve(cwd, config.directory ?? DEFAULT_CACHE_DIR);
+  return config.backend === "jsonl"
+    ? new JsonLinesCacheBackend(directory, limits)
+    : new FileSystemCacheBackend(directory, limits);
+};
 
 export const buildAuditCacheKey = (input: {
   provider: string;
@@ -38,12 +102,12 @@ export const buildAuditCacheKey = (input: {
 };
 
 export const readCachedAuditResult = async (
+  backend: ICacheBackend,
   key: string,
-  cwd: string = process.cwd(),
 ): Promise<AuditResult | null> => {
   try {
-    const fullPath = getCachePath(key, cwd);
-    const content = await readFile(fullPath, "utf-8");
+    const content = await backend.get(key);
+    if (content === null) return null;
     // Validate cached data through the same normalizer used for live responses
     // to prevent tampered/corrupted cache files from injecting bad data.
     const result = parseAuditResponse(content);
@@ -57,12 +121,9 @@ export const readCachedAuditResult = async (
 };
 
 export const writeCachedAuditResult = async (
+  backend: ICacheBackend,
   key: string,
   result: AuditResult,
-  cwd: string = process.cwd(),
 ): Promise<void> => {
-  const fullPath = getCachePath(key, cwd);
-  const dir = resolve(cwd, CACHE_DIR);
-  await mkdir(dir, { recursive: true });
-  await writeFile(fullPath, JSON.stringify(result), "utf-8");
+  await backend.set(key, JSON.stringify(result));
 };
@@ -3,21 +3,54 @@
  * Handles environment variables and provider selection
  */
 
-import type { AIModelConfig, AIProvider } from "./types.js";
+import type { AIModelConfig, AIProvider, AWSCredentials } from "./types.js";
 import { AIProviderFactory } from "./factory.js";
 import { ProviderError } from "../../utils/errors.js";
+import { DEFAULT_OPENAI_COMPATIBLE_BASE_URL } from "./providers/openai-compatible.provider.js";
+import { DEFAULT_AZURE_OPENAI_API_VERSION } from "./providers/azure-openai.provider.js";
+
+/** Provider name aliases accepted in AI_PROVIDER / fallbackProvider */
+const PROVIDER_ALIASES: Record<string, AIProvider> = {
+  ollama: "openai-compatible",
+  azure: "azure-openai",
+  "aws-bedrock": "bedrock",
+};
+
+const SUPPORTED_PROVIDERS: readonly AIProvider[] = [
+  "gemini",
+  "openai",
+  "anthropic",
+  "openai-compatible",
+  "azure-openai",
+  "bedrock",
+];
+
+/** Providers that can run without an API key (self-hosted servers) */
+const KEYLESS_PROVIDERS: ReadonlySet<AIProvider> = new Set<AIProvider>(["openai-compatible"]);
 
 export class AIConfig {
+  /**
+   * Normalize a provider name (case, aliases). Returns undefined for unknown names.
+   */
+  static parseProvider(name: string): AIProvider | undefined {
+    const normalized = name.trim().toLowerCase();
+    const provider = PROVIDER_ALIASES[normalized] ?? normalized;
+    return SUPPORTED_PROVIDERS.find((candidate) => candidate === provider);
+  }
+
   /**
    * Get AI configuration from environment variables
    * Priority: AI_PROVIDER > GEMINI_API_KEY (backward compatibility)
    */
   static fromEnvironment(): AIModelConfig {
-    const provider = (process.env.AI_PROVIDER?.toLowerCase() as AIProvider) || "gemini";
-    const model = process.env.AI_MODEL || AIProviderFactory.getDefaultModel(provider);
+    const rawProvider = process.env.AI_PROVIDER;
+    const provider = rawProvider
+      ? (this.parseProvider(rawProvider) ?? (rawProvider.toLowerCase() as AIProvider))
+      : "gemini";
+    const model = process.env.AI_MODEL || this.getDefaultModel(provider);
 
     const apiKey = this.getApiKey(provider);
-    if (!apiKey) {
+    if (!this.hasCredentials(provider, apiKey)) {
       throw new ProviderError(
         `API key not found for provider: ${provider}. ` +
           `Set ${this.getApiKeyEnvName(provider)} environment variable.`,
@@ -27,7 +60,8 @@ export class AIConfig {
     return {
       provider,
       model,
-      apiKey,
+      apiKey: apiKey ?? "",
+      ...this.getEndpointConfig(provider),
       temperature: parseFloat(process.env.AI_TEMPERATURE || "0.2"),
       maxTokens: parseInt(process.env.AI_MAX_TOKENS || "2048", 10),
     };
@@ -38,9 +72,9 @@ export class AIConfig {
    * Throws ProviderError if the API key for that provider is not set.
    */
   static fromEnvironmentForProvider(provider: AIProvider): AIModelConfig {
-    const model = AIProviderFactory.getDefaultModel(provider);
+    const model = this.getDefaultModel(provider);
     const apiKey = this.getApiKey(provider);
-    if (!apiKey) {
+    if (!this.hasCredentials(provider, apiKey)) {
       throw new ProviderError(
         `Fallback provider "${provider}" has no API key. ` +
           `Set ${this.getApiKeyEnvName(provider)} environment variable.`,
@@ -49,12 +83,76 @@ export class AIConfig {
     return {
       provider,
       model,
-      apiKey,
+      apiKey: apiKey ?? "",
+      ...this.getEndpointConfig(provider),
       temperature: parseFloat(process.env.AI_TEMPERATURE || "0.2"),
       maxTokens: parseInt(process.env.AI_MAX_TOKENS || "2048", 10),
     };
   }
 
+  /**
+   * Azure OpenAI routes by deployment name rather than model name
+   */
+  private static getDefaultModel(provider: AIProvider): string {
+    if (provider === "azure-openai" && process.env.AZURE_OPENAI_DEPLOYMENT) {
+      return process.env.AZURE_OPENAI_DEPLOYMENT;
+    }
+    return AIProviderFactory.getDefaultModel(provider);
+  }
+
+  private static hasCredentials(provider: AIProvider, apiKey: string | undefined): boolean {
+    if (provider === "bedrock") {
+      return !!this.getAwsCredentials();
+    }
+    return !!apiKey || KEYLESS_PROVIDERS.has(provider);
+  }
+
+  /**
+   * Get endpoint settings for self-hosted and cloud-hosted providers
+   */
+  private static getEndpointConfig(
+    provider: AIProvider,
+  ): Pick<AIModelConfig, "baseURL" | "apiVersion" | "region" | "credentials"> {
+    switch (provider) {
+      case "openai-compatible":
+        return {
+          baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+        };
+      case "azure-openai": {
+        const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+        return {
+          ...(endpoint && { baseURL: endpoint }),
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_OPENAI_API_VERSION,
+        };
+      }
+      case "bedrock": {
+        const region = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION;
+        const endpoint = process.env.AWS_ENDPOINT_URL_BEDROCK_RUNTIME;
+        const credentials = this.getAwsCredentials();
+        return {
+          ...(region && { region }),
+          ...(endpoint && { baseURL: endpoint }),
+          ...(credentials && { credentials }),
+        };
+      }
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Read static AWS credentials from the standard environment variables
+   */
+  private static getAwsCredentials(): AWSCredentials | undefined {
+    const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+    if (!accessKeyId || !secretAccessKey) {
+      return undefined;
+    }
+    const sessionToken = process.env.AWS_SESSION_TOKEN;
+    return { accessKeyId, secretAccessKey, ...(sessionToken && { sessionToken }) };
+  }
+
   /**
    * Get API key for specific provider
    */
@@ -66,6 +164,10 @@ export class AIConfig {
         return process.env.OPENAI_API_KEY;
       case "anthropic":
         return process.env.ANTHROPIC_API_KEY;
+      case "openai-compatible":
+        return process.env.OPENAI_COMPATIBLE_API_KEY;
+      case "azure-openai":
+        return process.env.AZURE_OPENAI_API_KEY;
       default:
         return undefined;
     }
@@ -79,6 +181,9 @@ export class AIConfig {
       gemini: "GEMINI_API_KEY",
       openai: "OPENAI_API_KEY",
       anthropic: "ANTHROPIC_API_KEY",
+      "openai-compatible": "OPENAI_COMPATIBLE_API_KEY",
+      "azure-openai": "AZURE_OPENAI_API_KEY",
+      bedrock: "AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY",
     };
     return names[provider];
   }
@@ -87,9 +192,33 @@ export class AIConfig {
    * Validate configuration
    */
   static validate(config: AIModelConfig): void {
-    if (!config.apiKey) {
+    if (KEYLESS_PROVIDERS.has(config.provider)) {
+      // API key is optional and the model can be discovered from the server
+      if (!config.baseURL) {
+        throw new Error(`Base URL is required for ${config.provider}`);
+      }
+      return;
+    }
+    if (config.provider === "bedrock") {
+      if (!config.credentials) {
+        throw new Error("AWS credentials are required for bedrock");
+      }
+      if (!config.region) {
+        throw new Error("AWS region is required for bedrock. Set AWS_REGION.");
+      }
+    } else if (!config.apiKey) {
       throw new Error(`API key is required for ${config.provider}`);
     }
+    if (config.provider === "azure-openai") {
+      if (!config.baseURL) {
+        throw new Error("Endpoint is required for azure-openai. Set AZURE_OPENAI_ENDPOINT.");
+      }
+      if (!config.model) {
+        throw new Error(
+          "Deployment name is required for azure-openai. Set AZURE_OPENAI_DEPLOYMENT.",
+        );
+      }
+    }
     if (!config.model) {
       throw new Error(`Model name is required for ${config.provider}`);
     }
@@ -0,0 +1,120 @@
+/**
+ * Ensemble review: merges the findings of several models on the same file and
+ * keeps the issues enough of them agree on
+ */
+
+import type { AuditIssue, AuditResult } from "../../types/index.js";
+import type { UsageSource } from "./usage.js";
+
+export interface EnsembleMemberResult {
+  source: UsageSource;
+  result: AuditResult;
+}
+
+/** Reported lines of the same finding may differ by a few lines between models */
+const LINE_TOLERANCE = 2;
+/** Share of words two messages must have in common to describe the same finding */
+const MIN_MESSAGE_SIMILARITY = 0.3;
+
+const SEVERITY_RANK: Record<AuditIssue["severity"], number> = { INFO: 0, WARNING: 1, CRITICAL: 2 };
+
+const words = (message: string): Set<string> =>
+  new Set(message.toLowerCase().match(/[a-z0-9_]{3,}/g) ?? []);
+
+/**
+ * Jaccard similarity of the words (3+ characters) of two messages, from 0 to 1
+ */
+export const messageSimilarity = (a: string, b: string): number => {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return a.trim() === b.trim() ? 1 : 0;
+
+  const shared = [...left].filter((word) => right.has(word)).length;
+  return shared / (left.size + right.size - shared);
+};
+
+/** Whether two models' issues describe the same finding */
+export const isSameIssue = (a: AuditIssue, b: AuditIssue): boolean =>
+  Math.abs(a.line - b.line) <= LINE_TOLERANCE &&
+  messageSimilarity(a.message, b.message) >= MIN_MESSAGE_SIMILARITY;
+
+/** Majority of `members`: 2 of 2, 2 of 3 */
+export const defaultMinAgreement = (members: number): number => Math.floor(members / 2) + 1;
+
+const sourceLabel = (source: UsageSource): string => `${source.provider}/${source.model}`;
+
+/**
+ * Merge ensemble results for one file. Issues are matched across models by line
+ * (within a few lines) and message similarity; a finding is kept when at least
+ * `minAgreement` models reported it, with the highest severity any of them gave
+ * and `agreement` listing those models. Failed models are left out of the count.
+ */
+export const mergeEnsembleResults = (
+  members: EnsembleMemberResult[],
+  minAgreement: number,
+): AuditResult => {
+  const succeeded = members.filter(({ result }) => result.status !== "ERROR");
+  const failed = members.filter(({ result }) => result.status === "ERROR");
+  if (succeeded.length === 0) {
+    return (
+      failed[0]?.result ?? {
+        status: "ERROR",
+        errorKind: "provider",
+        message: "No ensemble model returned a result",
+        issues: [],
+      }
+    );
+  }
+
+  const clusters: Array<{ issues: AuditIssue[]; models: string[] }> = [];
+  for (const { source, result } of succeeded) {
+    const model = sourceLabel(source);
+    for (const issue of result.issues ?? []) {
+      // A model counts once per finding, even if it reported it twice
+      const cluster = clusters.find(
+        (candidate) =>
+          !candidate.models.includes(model) &&
+          candidate.issues.some((existing) => isSameIssue(existing, issue)),
+      );
+      if (cluster) {
+        cluster.issues.push(issue);
+        cluster.models.push(model);
+      } else {
+        clusters.push({ issues: [issue], models: [model] });
+      }
+    }
+  }
+
+  // Fewer models answered than required: agreement among all of them is enough
+  const required = Math.min(minAgreement, succeeded.length);
+  const issues = clusters
+    .filter((cluster) => cluster.models.length >= required)
+    .map((cluster) => {
+      const strongest = cluster.issues.reduce((best, issue) =>
+        SEVERITY_RANK[issue.severity] > SEVERITY_RANK[best.severity] ? issue : best,
+      );
+      return { ...strongest, agreement: { models: cluster.models, total: succeeded.length } };
+    })
+    .sort((a, b) => a.line - b.line);
+
+  // Models may fail a file without pinning the problem to a line
+  const failedWithoutIssues = succeeded.filter(
+    ({ result }) => result.status === "FAIL" && (result.issues ?? []).length === 0,
+  ).length;
+  const status = issues.length > 0 || failedWithoutIssues >= required ? "FAIL" : "PASS";
+
+  const summaries =
+    status === "FAIL"
+      ? succeeded
+          .filter(({ result }) => result.status === "FAIL")
+          .map(({ result }) => result.message?.trim())
+      : [];
+  const firstFailure = failed[0];
+  const failureNote =
+    firstFailure &&
+    `${failed.length} of ${members.length} ensemble models failed ` +
+      `(${sourceLabel(firstFailure.source)}: ${firstFailure.result.message ?? "unknown error"})`;
+  const message = [...new Set([...summaries, failureNote].filter((note) => !!note))].join("\n");
+
+  return { status, issues, ...(message && { message }) };
+};
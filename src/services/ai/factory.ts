@@ -7,6 +7,9 @@ import type { IAIProvider, AIModelConfig, AIProvider } from "./types.js";
 import { GeminiProvider } from "./providers/gemini.provider.js";
 import { OpenAIProvider } from "./providers/openai.provider.js";
 import { AnthropicProvider } from "./providers/anthropic.provider.js";
+import { OpenAICompatibleProvider } from "./providers/openai-compatible.provider.js";
+import { AzureOpenAIProvider } from "./providers/azure-openai.provider.js";
+import { BedrockProvider } from "./providers/bedrock.provider.js";
 
 export class AIProviderFactory {
   static createProvider(config: AIModelConfig): IAIProvider {
@@ -17,6 +20,12 @@ export class AIProviderFactory {
         return new OpenAIProvider(config);
       case "anthropic":
         return new AnthropicProvider(config);
+      case "openai-compatible":
+        return new OpenAICompatibleProvider(config);
+      case "azure-openai":
+        return new AzureOpenAIProvider(config);
+      case "bedrock":
+        return new BedrockProvider(config);
       default:
         throw new Error(`Unsupported AI provider: ${config.provider}`);
     }
@@ -27,6 +36,11 @@ export class AIProviderFactory {
       gemini: "gemini-2.5-flash",
       openai: "gpt-4o",
       anthropic: "claude-sonnet-4.5",
+      // Discovered from the server's /models endpoint
+      "openai-compatible": "",
+      // Deployment names are chosen per Azure resource (AZURE_OPENAI_DEPLOYMENT)
+      "azure-openai": "",
+      bedrock: "anthropic.claude-3-5-sonnet-20241022-v2:0",
     };
     return defaults[provider];
   }
@@ -36,6 +50,13 @@ export class AIProviderFactory {
       gemini: ["gemini-2.5-flash", "gemini-2.0-flash-exp", "gemini-1.5-pro"],
       openai: ["gpt-4.1", "gpt-4o", "gpt-4-turbo"],
       anthropic: ["claude-sonnet-4.5", "claude-opus-4", "claude-3-5-sonnet"],
+      "openai-compatible": ["qwen2.5-coder", "deepseek-coder-v2", "llama3.1"],
+      "azure-openai": ["gpt-4.1", "gpt-4o"],
+      bedrock: [
+        "anthropic.claude-3-5-sonnet-20241022-v2:0",
+        "us.anthropic.claude-3-7-sonnet-20250219-v1:0",
+        "anthropic.claude-3-5-haiku-20241022-v1:0",
+      ],
     };
     return recommendations[provider];
   }
@@ -0,0 +1,106 @@
+/**
+ * Hunk-level caching: a file's patch is cached per hunk (with its context lines),
+ * so editing one hunk re-audits only that hunk. Cached issues are stored relative
+ * to their hunk and re-based onto the hunk's position in the current patch.
+ */
+
+import type { AuditIssue, AuditResult } from "../../types/index.js";
+import type { PatchChunk } from "../../utils/diff.js";
+
+export interface CachedHunk extends PatchChunk {
+  /** Result for this hunk alone (hunk-relative lines), or null when it needs a review */
+  cached: AuditResult | null;
+}
+
+export interface HunkReviewPlan {
+  hunks: CachedHunk[];
+  /** Hunks without a cached result, joined into the patch sent for review */
+  freshPatch: string;
+  /** Fresh hunks with their positions in `freshPatch` */
+  freshHunks: PatchChunk[];
+}
+
+const lineCount = (content: string): number => content.split("\n").length;
+
+/** Whether `line` (1-based, patch-relative) falls within `hunk` */
+const containsLine = (hunk: PatchChunk, line: number): boolean =>
+  line > hunk.lineOffset && line <= hunk.lineOffset + lineCount(hunk.content);
+
+/**
+ * Which hunks need a review, and the patch of those hunks
+ */
+export const planHunkReview = (hunks: CachedHunk[]): HunkReviewPlan => {
+  const freshHunks: PatchChunk[] = [];
+  let lineOffset = 0;
+  for (const hunk of hunks) {
+    if (hunk.cached) continue;
+    freshHunks.push({ content: hunk.content, lineOffset });
+    lineOffset += lineCount(hunk.content);
+  }
+
+  return {
+    hunks,
+    freshPatch: freshHunks.map((hunk) => hunk.content).join("\n"),
+    freshHunks,
+  };
+};
+
+/**
+ * Split the result for `freshHunks` into one result per hunk, with hunk-relative
+ * lines. Null when part of the result cannot be pinned to a hunk (an issue outside
+ * every hunk, or a FAIL without issues), since caching it per hunk would lose it.
+ */
+export const splitResultByHunks = (
+  result: AuditResult,
+  freshHunks: PatchChunk[],
+): AuditResult[] | null => {
+  if (result.status === "ERROR") return null;
+  const issues = result.issues ?? [];
+  if (result.status === "FAIL" && issues.length === 0) return null;
+
+  const byHunk = freshHunks.map((): AuditIssue[] => []);
+  for (const issue of issues) {
+    const index = freshHunks.findIndex((hunk) => containsLine(hunk, issue.line));
+    const hunk = freshHunks[index];
+    if (!hunk) return null;
+    byHunk[index]?.push({ ...issue, line: issue.line - hunk.lineOffset });
+  }
+
+  return byHunk.map((hunkIssues) => ({
+    status: result.status === "FAIL" && hunkIssues.length > 0 ? "FAIL" : "PASS",
+    issues: hunkIssues,
+  }));
+};
+
+/**
+ * Result for the whole patch: cached hunks' issues re-based onto their current
+ * position, and the fresh result's issues moved from `freshPatch` lines to patch lines
+ */
+export const mergeHunkResults = (plan: HunkReviewPlan, fresh: AuditResult | null): AuditResult => {
+  const issues: AuditIssue[] = [];
+  for (const hunk of plan.hunks) {
+    for (const issue of hunk.cached?.issues ?? []) {
+      issues.push({ ...issue, line: issue.line + hunk.lineOffset });
+    }
+  }
+
+  const placed = plan.hunks.filter((hunk) => !hunk.cached);
+  for (const issue of fresh?.issues ?? []) {
+    const index = plan.freshHunks.findIndex((hunk) => containsLine(hunk, issue.line));
+    const from = plan.freshHunks[index];
+    const to = placed[index];
+    issues.push(
+      from && to ? { ...issue, line: issue.line - from.lineOffset + to.lineOffset } : issue,
+    );
+  }
+
+  const anyFail =
+    fresh?.status === "FAIL" || plan.hunks.some((hunk) => hunk.cached?.status === "FAIL");
+  return {
+    status: fresh?.status === "ERROR" ? "ERROR" : anyFail ? "FAIL" : "PASS",
+    issues: issues.sort((a, b) => a.line - b.line),
+    ...(fresh?.errorKind && { errorKind: fresh.errorKind }),
+    ...(fresh?.message && { message: fresh.message }),
+    ...(fresh?.suggestion && { suggestion: fresh.suggestion }),
+  };
+};
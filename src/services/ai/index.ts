@@ -1,25 +1,101 @@
 /**
  * Core AI service with multi-provider support
  * Supports: Google Gemini, OpenAI GPT, Anthropic Claude
- * Features: retry with exponential backoff, fallback provider chain
+ * Features: retry with exponential backoff, fallback provider chain with circuit breakers,
+ * streaming progress
  */
 
-import type { AuditResult, ProjectConfig, FileAuditResult } from "../../types/index.js";
+import { basename } from "node:path";
+import type {
+  AuditResult,
+  IssueVerdict,
+  ProjectConfig,
+  FileAuditResult,
+  ReviewSkippedItem,
+  RunBudget,
+  TokenUsage,
+} from "../../types/index.js";
 import {
   buildSystemPrompt,
   buildCommitPrompt,
+  buildBatchPrompt,
+  buildVerificationPrompt,
   DEFAULT_PROMPT_VERSION,
+  VERIFICATION_PROMPT,
 } from "../../config/prompts.js";
-import { parseAuditResponse } from "../../utils/parser.js";
+import {
+  AUDIT_BATCH_RESULT_SCHEMA,
+  AUDIT_RESULT_SCHEMA,
+  AUDIT_VERIFICATION_SCHEMA,
+  type StructuredOutputSchema,
+} from "../../config/audit-schema.js";
+import { resolveModelPricing } from "../../config/pricing.js";
+import {
+  parseAuditResponse,
+  parseBatchAuditResponse,
+  parseStructuredAuditResponse,
+  parseStructuredBatchAuditResponse,
+  parseVerificationResponse,
+} from "../../utils/parser.js";
 import { log } from "../../utils/logger.js";
-import { withRetry, isRetryableError } from "../../utils/retry.js";
-import type { IAIProvider, AIProvider } from "./types.js";
+import {
+  withRetry,
+  isRateLimitError,
+  isRetryableError,
+  type RetryOptions,
+} from "../../utils/retry.js";
+import { ProviderHttpError } from "../../utils/errors.js";
+import type {
+  IAIProvider,
+  AIProvider,
+  AIModelConfig,
+  GenerateOptions,
+  ICacheBackend,
+} from "./types.js";
 import { AIProviderFactory } from "./factory.js";
 import { AIConfig } from "./config.js";
-import { buildAuditCacheKey, readCachedAuditResult, writeCachedAuditResult } from "./cache.js";
+import {
+  buildAuditCacheKey,
+  createCacheBackend,
+  readCachedAuditResult,
+  writeCachedAuditResult,
+} from "./cache.js";
+import { createBudgetTracker, createUsageRecorder, splitUsage, type UsageSource } from "./usage.js";
+import {
+  DEFAULT_MAX_BATCH_FILES,
+  DEFAULT_MAX_BATCH_TOKENS,
+  groupRelatedFiles,
+} from "./batching.js";
+import { estimateTokens } from "../../utils/tokens.js";
+import {
+  mergeChunkResults,
+  splitPatchIntoChunks,
+  splitPatchIntoHunks,
+  stripHunkLineNumbers,
+  stripPatchFileHeader,
+  type PatchChunk,
+} from "../../utils/diff.js";
+import { mergeHunkResults, planHunkReview, splitResultByHunks } from "./hunk-cache.js";
+import { createScheduler, type SchedulerStats } from "./scheduler.js";
+import {
+  createProviderHealth,
+  DEFAULT_CIRCUIT_COOLDOWN_MS,
+  DEFAULT_FAILURE_THRESHOLD,
+  isProviderHealthError,
+  type ProviderHealth,
+} from "./provider-health.js";
+import { defaultMinAgreement, mergeEnsembleResults } from "./ensemble.js";
+import {
+  applyVerification,
+  DEFAULT_MIN_CONFIDENCE,
+  MISSING_LINE_VERDICT,
+  type VerificationSettings,
+} from "./verification.js";
 
 let providerInstance: IAIProvider | null = null;
 let providerConfigCache: ReturnType<typeof AIConfig.fromEnvironment> | null = null;
+/** Non-primary providers (ensemble members, fallbacks) by `provider/model` */
+const memberProviders = new Map<string, IAIProvider>();
 
 const TOOL_VERSION = process.env.npm_package_version || "1.0.3";
 
@@ -43,11 +119,228 @@ const getProvider = (): IAIProvider => {
   AIConfig.validate(config);
 
   providerInstance = AIProviderFactory.createProvider(config);
-  log.info(`AI Provider initialized: ${config.provider} (${config.model})`);
+  log.info(`AI Provider initialized: ${config.provider} (${config.model || "auto-discovered"})`);
 
   return providerInstance;
 };
 
+/**
+ * Provider instance for `config`: the primary singleton, or a cached member instance
+ */
+const getProviderFor = (config: AIModelConfig): IAIProvider => {
+  if (config === getProviderConfig()) {
+    return getProvider();
+  }
+
+  const key = `${config.provider}/${config.model}`;
+  let provider = memberProviders.get(key);
+  if (!provider) {
+    AIConfig.validate(config);
+    provider = AIProviderFactory.createProvider(config);
+    memberProviders.set(key, provider);
+  }
+  return provider;
+};
+
+/**
+ * Model name for cache keys. Providers with model discovery resolve it once;
+ * a failed discovery keeps the empty name (the audit itself reports the error).
+ */
+const resolveModelName = async (): Promise<string> => {
+  const config = getProviderConfig();
+  if (config.model) {
+    return config.model;
+  }
+
+  try {
+    const provider = getProvider();
+    if (provider.resolveModel) {
+      config.model = await provider.resolveModel();
+      log.info(`Discovered model: ${config.model}`);
+    }
+  } catch {
+    // Surfaced per file by auditFile
+  }
+  return config.model;
+};
+
+/**
+ * Structured output: `AI_STRUCTURED_OUTPUT` env var, then `ai.structuredOutput` config
+ */
+const isStructuredOutputEnabled = (config: ProjectConfig): boolean => {
+  const fromEnv = process.env.AI_STRUCTURED_OUTPUT?.trim().toLowerCase();
+  if (fromEnv) {
+    return fromEnv === "1" || fromEnv === "true";
+  }
+  return config.ai?.structuredOutput === true;
+};
+
+export interface AuditFileOptions {
+  /** Use the provider's structured-output mode (takes precedence over streaming) */
+  structuredOutput?: boolean;
+  /** Stream the response when the provider supports it */
+  stream?: boolean;
+  /** Receives each streamed text delta */
+  onChunk?: (text: string) => void;
+  /** Cancels the audit, e.g. when the overall review deadline passes */
+  signal?: AbortSignal;
+  /** Receives the token usage of every successful request, tagged with its provider */
+  onUsage?: (usage: TokenUsage, source: UsageSource) => void;
+  /** Position of `content` within an oversized patch reviewed in chunks */
+  part?: { index: number; total: number };
+  /** Audit with this provider instead of the primary one (ensemble members) */
+  provider?: AIModelConfig;
+  /** Audit with every ensemble member and merge their findings; fallbacks are not used */
+  ensemble?: EnsembleOptions;
+  /** Told about every rate-limit (429) response, with the wait the provider asked for */
+  onRateLimit?: (retryAfterMs?: number) => void;
+  /** Told which provider answered each request, after retries and fallbacks */
+  onResponse?: (source: UsageSource) => void;
+  /** Circuit breakers of the run: providers with an open circuit are skipped */
+  health?: ProviderHealth;
+}
+
+export interface EnsembleOptions {
+  members: AIModelConfig[];
+  /** Models that must report an issue for it to be kept */
+  minAgreement: number;
+}
+
+export interface AuditRunOptions {
+  /** Stream responses and show live per-file progress (console mode) */
+  stream?: boolean;
+  /** Deadline for the whole run; files not finished by then become ERROR results */
+  timeoutMs?: number;
+  /** Token/cost ceiling; defaults to `ai.maxTokensPerRun` / `ai.maxCostPerRun` */
+  budget?: RunBudget;
+  /** Receives files that were not sent because the budget ran out */
+  onSkipped?: (item: ReviewSkippedItem) => void;
+  /** Review related files together in one prompt; defaults to `ai.batching` */
+  batch?: boolean;
+  /** Review files longer than this many characters in chunks (see `splitPatchIntoChunks`) */
+  maxCharsPerChunk?: number;
+  /** Providers for ensemble review (`name` or `name:model`); defaults to `ai.ensemble.providers` */
+  ensemble?: string[];
+  /** Confirm FAIL results' issues in a second pass; defaults to `ai.verifyIssues` */
+  verify?: boolean;
+  /** Receives the work-queue scheduler's statistics once the run is done */
+  onSchedulerStats?: (stats: SchedulerStats) => void;
+}
+
+interface AuditResponse {
+  text: string;
+  /** Produced by the provider's structured-output mode */
+  structured: boolean;
+}
+
+/**
+ * The run deadline (`AbortSignal.timeout`) rejects with a `TimeoutError` DOMException,
+ * which is not always an `Error` instance, so only the name is checked.
+ */
+const isDeadlineError = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && "name" in error && error.name === "TimeoutError";
+
+/**
+ * Reject as soon as `signal` aborts. The request itself keeps running until its
+ * own timeout, since `generateContent` takes no signal.
+ */
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+
+/**
+ * Request an audit: structured output when enabled and supported, then streaming,
+ * then a plain completion. Providers without a capability fall back to the next mode.
+ */
+const requestAudit = async (
+  provider: IAIProvider,
+  systemPrompt: string,
+  userPrompt: string,
+  options: AuditFileOptions,
+  source: UsageSource,
+  schema: StructuredOutputSchema = AUDIT_RESULT_SCHEMA,
+): Promise<AuditResponse> => {
+  const { signal, onUsage } = options;
+  signal?.throwIfAborted();
+  const generateOptions: GenerateOptions = {
+    ...(onUsage && { onUsage: (usage: TokenUsage) => onUsage(usage, source) }),
+  };
+
+  if (options.structuredOutput && provider.generateStructuredContent) {
+    const request = provider.generateStructuredContent(
+      systemPrompt,
+      userPrompt,
+      schema,
+      generateOptions,
+    );
+    return { text: await (signal ? abortable(request, signal) : request), structured: true };
+  }
+
+  if (options.stream && provider.generateContentStream) {
+    let text = "";
+    const stream = provider.generateContentStream(systemPrompt, userPrompt, {
+      ...generateOptions,
+      ...(signal && { signal }),
+    });
+    for await (const delta of stream) {
+      text += delta;
+      options.onChunk?.(delta);
+    }
+    return { text, structured: false };
+  }
+
+  const request = provider.generateContent(systemPrompt, userPrompt, generateOptions);
+  return { text: await (signal ? abortable(request, signal) : request), structured: false };
+};
+
+/**
+ * Structured responses are validated strictly; a schema violation becomes an
+ * ERROR result tagged `errorKind: "schema"` instead of being repaired.
+ */
+const toAuditResult = (response: AuditResponse, subject: string): AuditResult => {
+  if (!response.structured) {
+    return parseAuditResponse(response.text);
+  }
+
+  try {
+    return parseStructuredAuditResponse(response.text, AUDIT_RESULT_SCHEMA);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : "Unknown error";
+    log.warning(`Invalid structured response for ${subject}: ${errorMsg}`);
+    return { status: "ERROR", errorKind: "schema", message: errorMsg, issues: [] };
+  }
+};
+
+/**
+ * Split a batch response into per-file results. A structured response that violates
+ * the schema yields the same schema ERROR for every file.
+ */
+const toBatchAuditResults = (
+  response: AuditResponse,
+  paths: string[],
+): Map<string, AuditResult> => {
+  if (!response.structured) {
+    return parseBatchAuditResponse(response.text, paths);
+  }
+
+  try {
+    return parseStructuredBatchAuditResponse(response.text, paths, AUDIT_BATCH_RESULT_SCHEMA);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : "Unknown error";
+    log.warning(`Invalid structured response for ${paths.join(", ")}: ${errorMsg}`);
+    const result: AuditResult = {
+      status: "ERROR",
+      errorKind: "schema",
+      message: errorMsg,
+      issues: [],
+    };
+    return new Map(paths.map((path) => [path, result]));
+  }
+};
+
 /**
  * Parse fallbackProvider config string into an ordered list of provider names.
  * Example: "gemini,openai" → ["gemini", "openai"]
@@ -56,32 +349,99 @@ const parseFallbackChain = (fallbackProvider?: string): AIProvider[] => {
   if (!fallbackProvider) return [];
   return fallbackProvider
     .split(",")
-    .map((p) => p.trim().toLowerCase() as AIProvider)
-    .filter((p): p is AIProvider => ["gemini", "openai", "anthropic"].includes(p));
+    .map((p) => AIConfig.parseProvider(p))
+    .filter((p): p is AIProvider => p !== undefined);
+};
+
+/** Pass a rate-limit error on to `options.onRateLimit` */
+const reportRateLimit = (error: unknown, options: AuditFileOptions): void => {
+  if (isRateLimitError(error)) {
+    options.onRateLimit?.(error instanceof ProviderHttpError ? error.retryAfterMs : undefined);
+  }
+};
+
+/** Retry settings that report every rate-limited attempt */
+const retryOptionsFor = (options: AuditFileOptions): RetryOptions => ({
+  onRetry: (error) => reportRateLimit(error, options),
+});
+
+/** Circuit breaker key of a provider */
+const healthKey = (source: UsageSource): string => `${source.provider}/${source.model}`;
+
+/**
+ * Send one request to `provider` with retries and record the outcome in `options.health`.
+ * Only provider-health errors (5xx, 429, network) count against the circuit; a bad
+ * request or the run deadline says nothing about the provider.
+ */
+const requestFromProvider = async (
+  provider: IAIProvider,
+  config: AIModelConfig,
+  systemPrompt: string,
+  userPrompt: string,
+  options: AuditFileOptions,
+  schema: StructuredOutputSchema,
+): Promise<AuditResponse> => {
+  const source = { provider: config.provider, model: config.model };
+  try {
+    const response = await withRetry(
+      () => requestAudit(provider, systemPrompt, userPrompt, options, source, schema),
+      retryOptionsFor(options),
+    );
+    options.health?.recordSuccess(healthKey(source));
+    options.onResponse?.(source);
+    return response;
+  } catch (error) {
+    if (!isProviderHealthError(error)) {
+      options.health?.releaseTrial(healthKey(source));
+    } else if (options.health?.recordFailure(healthKey(source))) {
+      log.warning(
+        `Circuit open for ${healthKey(source)} after repeated failures; ` +
+          `requests go to the next provider until it recovers.`,
+      );
+    }
+    throw error;
+  }
 };
 
 /**
- * Try to generate content using a fallback provider chain.
- * Returns null if all fallbacks fail.
+ * Try to generate content using a fallback provider chain, skipping providers whose
+ * circuit is open. Returns null if all fallbacks fail.
  */
 const tryFallbackProviders = async (
   fallbackChain: AIProvider[],
   systemPrompt: string,
   userPrompt: string,
-): Promise<string | null> => {
+  options: AuditFileOptions,
+  schema: StructuredOutputSchema,
+  primaryFailed: boolean,
+): Promise<AuditResponse | null> => {
   for (const providerName of fallbackChain) {
     try {
       const fallbackConfig = AIConfig.fromEnvironmentForProvider(providerName);
-      const fallbackProvider = AIProviderFactory.createProvider(fallbackConfig);
-      log.warning(
-        `Primary provider failed. Trying fallback: ${providerName} (${fallbackConfig.model})`,
-      );
-      const response = await withRetry(() =>
-        fallbackProvider.generateContent(systemPrompt, userPrompt),
+      const fallbackProvider = getProviderFor(fallbackConfig);
+      if (options.health && !options.health.allowRequest(healthKey(fallbackConfig))) {
+        continue;
+      }
+      // With the primary's circuit open, every file goes here; that was logged once
+      if (primaryFailed) {
+        log.warning(
+          `Primary provider failed. Trying fallback: ${providerName} (${fallbackConfig.model})`,
+        );
+      }
+      const response = await requestFromProvider(
+        fallbackProvider,
+        fallbackConfig,
+        systemPrompt,
+        userPrompt,
+        options,
+        schema,
       );
-      log.info(`Fallback provider ${providerName} succeeded.`);
+      if (primaryFailed) {
+        log.info(`Fallback provider ${providerName} succeeded.`);
+      }
       return response;
     } catch (err) {
+      reportRateLimit(err, options);
       const msg = err instanceof Error ? err.message : String(err);
       log.warning(`Fallback provider ${providerName} also failed: ${msg}`);
     }
@@ -97,16 +457,123 @@ export const auditCommit = async (message: string, config: ProjectConfig): Promi
 
   const systemPrompt = buildCommitPrompt(config.commitFormat);
   const provider = getProvider();
+  const { provider: providerName, model } = getProviderConfig();
 
   try {
     const response = await withRetry(() =>
-      provider.generateContent(systemPrompt, `Commit Message: "${message}"`),
+      requestAudit(
+        provider,
+        systemPrompt,
+        `Commit Message: "${message}"`,
+        { structuredOutput: isStructuredOutputEnabled(config) },
+        { provider: providerName, model },
+      ),
     );
-    return parseAuditResponse(response);
+    return toAuditResult(response, "commit message");
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : "Unknown error";
     log.warning(`AI commit check failed: ${errorMsg}`);
-    return { status: "ERROR", message: `AI unavailable: ${errorMsg}`, issues: [] };
+    return {
+      status: "ERROR",
+      errorKind: "provider",
+      message: `AI unavailable: ${errorMsg}`,
+      issues: [],
+    };
+  }
+};
+
+/**
+ * Send one audit request with retry and the fallback provider chain.
+ * Failures come back as an ERROR result instead of being thrown.
+ */
+const requestWithFallback = async (
+  subject: string,
+  systemPrompt: string,
+  userPrompt: string,
+  fallbackChain: AIProvider[],
+  options: AuditFileOptions,
+  schema: StructuredOutputSchema,
+): Promise<{ response: AuditResponse } | { error: AuditResult }> => {
+  const providerConfig = options.provider ?? getProviderConfig();
+  const provider = getProviderFor(providerConfig);
+  // An open circuit sends the request down the fallback chain; when no fallback answers,
+  // it fails fast instead of calling the primary. Only the half-open trial gets through.
+  const primaryKey = healthKey(providerConfig);
+  if (options.health && !options.health.allowRequest(primaryKey)) {
+    const fallbackResponse =
+      fallbackChain.length > 0
+        ? await tryFallbackProviders(
+            fallbackChain,
+            systemPrompt,
+            userPrompt,
+            options,
+            schema,
+            false,
+          )
+        : null;
+    if (fallbackResponse !== null) {
+      return { response: fallbackResponse };
+    }
+    return {
+      error: {
+        status: "ERROR",
+        errorKind: "circuit-open",
+        message: `Provider ${primaryKey} is out of rotation after repeated failures`,
+        issues: [],
+      },
+    };
+  }
+
+  try {
+    const response = await requestFromProvider(
+      provider,
+      providerConfig,
+      systemPrompt,
+      userPrompt,
+      options,
+      schema,
+    );
+    return { response };
+  } catch (primaryError) {
+    reportRateLimit(primaryError, options);
+    const primaryMsg = primaryError instanceof Error ? primaryError.message : "Unknown error";
+
+    // The run deadline is not retryable and skips the fallback chain
+    if (isDeadlineError(primaryError)) {
+      return {
+        error: {
+          status: "ERROR",
+          errorKind: "timeout",
+          message: "Review timeout reached before the audit finished",
+          issues: [],
+        },
+      };
+    }
+
+    // Attempt fallback providers if primary fails with a retryable error
+    if (fallbackChain.length > 0 && isRetryableError(primaryError)) {
+      const fallbackResponse = await tryFallbackProviders(
+        fallbackChain,
+        systemPrompt,
+        userPrompt,
+        options,
+        schema,
+        true,
+      );
+      if (fallbackResponse !== null) {
+        return { response: fallbackResponse };
+      }
+    }
+
+    log.warning(`Failed to audit ${subject}: ${primaryMsg}`);
+    return {
+      error: {
+        status: "ERROR",
+        errorKind: "provider",
+        message: `Error auditing file: ${primaryMsg}`,
+        issues: [],
+      },
+    };
   }
 };
 
@@ -119,152 +586,727 @@ export const auditFile = async (
   content: string,
   systemPrompt: string,
   fallbackChain: AIProvider[] = [],
+  options: AuditFileOptions = {},
 ): Promise<AuditResult> => {
-  const provider = getProvider();
-  const userPrompt = `Code to review:\n${content}`;
+  if (options.ensemble) {
+    return auditFileEnsemble(filePath, content, systemPrompt, options);
+  }
 
-  try {
-    const response = await withRetry(() => provider.generateContent(systemPrompt, userPrompt));
-    return parseAuditResponse(response);
-  } catch (primaryError) {
-    const primaryMsg = primaryError instanceof Error ? primaryError.message : "Unknown error";
+  const outcome = await requestWithFallback(
+    filePath,
+    systemPrompt,
+    options.part
+      ? `Code to review (part ${options.part.index} of ${options.part.total} of this file; ` +
+          `report line numbers within this part):\n${content}`
+      : `Code to review:\n${content}`,
+    fallbackChain,
+    options,
+    AUDIT_RESULT_SCHEMA,
+  );
+  return "error" in outcome ? outcome.error : toAuditResult(outcome.response, filePath);
+};
 
-    // Attempt fallback providers if primary fails with a retryable error
-    if (fallbackChain.length > 0 && isRetryableError(primaryError)) {
-      const fallbackResponse = await tryFallbackProviders(fallbackChain, systemPrompt, userPrompt);
-      if (fallbackResponse !== null) {
-        return parseAuditResponse(fallbackResponse);
+/**
+ * Audit a file with every ensemble member in parallel and merge their findings
+ */
+const auditFileEnsemble = async (
+  filePath: string,
+  content: string,
+  systemPrompt: string,
+  options: AuditFileOptions,
+): Promise<AuditResult> => {
+  const { ensemble, ...memberOptions } = options;
+  if (!ensemble) {
+    return auditFile(filePath, content, systemPrompt, [], memberOptions);
+  }
+
+  const results = await Promise.all(
+    ensemble.members.map(async (member) => ({
+      source: { provider: member.provider, model: member.model },
+      result: await auditFile(filePath, content, systemPrompt, [], {
+        ...memberOptions,
+        provider: member,
+      }),
+    })),
+  );
+  return mergeEnsembleResults(results, ensemble.minAgreement);
+};
+
+/**
+ * Resolve ensemble members from `name` / `name:model` entries. The primary provider
+ * keeps its configured model; others use their default model unless one is given.
+ * Members without credentials are skipped; fewer than two disables the ensemble.
+ */
+const resolveEnsemble = (
+  entries: string[] | undefined,
+  minAgreement: number | undefined,
+): EnsembleOptions | null => {
+  if (!entries || entries.length === 0) return null;
+
+  const primary = getProviderConfig();
+  const members: AIModelConfig[] = [];
+  for (const entry of entries) {
+    // Split on the first colon only: Bedrock model ids contain colons
+    const separator = entry.indexOf(":");
+    const name = separator === -1 ? entry : entry.slice(0, separator);
+    const model = separator === -1 ? "" : entry.slice(separator + 1).trim();
+    const provider = AIConfig.parseProvider(name);
+    if (!provider) {
+      log.warning(`Ignoring unknown ensemble provider "${name}"`);
+      continue;
+    }
+
+    try {
+      const member =
+        provider === primary.provider && (!model || model === primary.model)
+          ? primary
+          : AIConfig.fromEnvironmentForProvider(provider);
+      members.push(model && member !== primary ? { ...member, model } : member);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log.warning(`Ignoring ensemble provider ${provider}: ${errorMsg}`);
+    }
+  }
+
+  if (members.length < 2) {
+    log.warning("Ensemble review needs two configured providers; using the primary provider only.");
+    return null;
+  }
+  return {
+    members,
+    minAgreement: Math.min(minAgreement ?? defaultMinAgreement(members.length), members.length),
+  };
+};
+
+/**
+ * Second pass over a FAIL result: the model confirms or rejects each issue against
+ * the exact code lines. Issues past the end of the code are rejected without asking.
+ * When the pass fails, the issues are kept unverified.
+ * CRITICAL: Never throws - always returns a result (even on error)
+ */
+export const verifyAuditResult = async (
+  file: { path: string; content: string },
+  result: AuditResult,
+  settings: VerificationSettings,
+  fallbackChain: AIProvider[] = [],
+  options: AuditFileOptions = {},
+): Promise<AuditResult> => {
+  const issues = result.issues ?? [];
+  if (result.status !== "FAIL" || issues.length === 0) {
+    return result;
+  }
+
+  const lineCount = file.content.split("\n").length;
+  const verdicts = new Map<number, IssueVerdict>();
+  const pending = issues
+    .map((issue, index) => ({ index, issue }))
+    .filter(({ index, issue }) => {
+      if (issue.line <= lineCount) return true;
+      verdicts.set(index, MISSING_LINE_VERDICT);
+      return false;
+    });
+
+  if (pending.length > 0) {
+    const outcome = await requestWithFallback(
+      `${file.path} (verification)`,
+      VERIFICATION_PROMPT,
+      buildVerificationPrompt(file.path, file.content, pending),
+      fallbackChain,
+      options,
+      AUDIT_VERIFICATION_SCHEMA,
+    );
+    if ("error" in outcome) {
+      log.warning(`Verification of ${file.path} failed; its issues are kept unverified.`);
+    } else {
+      for (const [index, verdict] of parseVerificationResponse(outcome.response.text)) {
+        if (pending.some((entry) => entry.index === index)) verdicts.set(index, verdict);
       }
     }
+  }
 
-    log.warning(`Failed to audit ${filePath}: ${primaryMsg}`);
+  return applyVerification(result, verdicts, settings);
+};
+
+/**
+ * Audit a patch longer than `maxChars` in chunks split on hunk boundaries, one after
+ * another, and merge the results with issue lines relative to the whole patch.
+ * CRITICAL: Never throws - always returns a result (even on error)
+ */
+export const auditFileInChunks = async (
+  filePath: string,
+  content: string,
+  systemPrompt: string,
+  maxChars: number,
+  fallbackChain: AIProvider[] = [],
+  options: AuditFileOptions = {},
+): Promise<{ result: AuditResult; chunks: number }> => {
+  const chunks = splitPatchIntoChunks(content, maxChars);
+  if (chunks.length === 1) {
     return {
-      status: "ERROR",
-      message: `Error auditing file: ${primaryMsg}`,
-      issues: [],
+      result: await auditFile(filePath, content, systemPrompt, fallbackChain, options),
+      chunks: 1,
     };
   }
+
+  log.info(`Reviewing ${filePath} in ${chunks.length} chunks`);
+  const results: Array<{ chunk: PatchChunk; result: AuditResult }> = [];
+  for (const [index, chunk] of chunks.entries()) {
+    const result = await auditFile(filePath, chunk.content, systemPrompt, fallbackChain, {
+      ...options,
+      part: { index: index + 1, total: chunks.length },
+    });
+    results.push({ chunk, result });
+    // Later chunks would fail the same way once the run deadline has passed
+    if (result.errorKind === "timeout") break;
+  }
+
+  return { result: mergeChunkResults(results), chunks: chunks.length };
+};
+
+/**
+ * Audit related files in one prompt so the model sees changes across them, then split
+ * the response into one result per file (in input order). Files the response leaves
+ * out are audited on their own.
+ * CRITICAL: Never throws - always returns a result (even on error)
+ */
+export const auditFileBatch = async (
+  files: Array<{ path: string; content: string }>,
+  systemPrompt: string,
+  fallbackChain: AIProvider[] = [],
+  options: AuditFileOptions = {},
+): Promise<AuditResult[]> => {
+  const paths = files.map((file) => file.path);
+  const outcome = await requestWithFallback(
+    paths.join(", "),
+    systemPrompt,
+    buildBatchPrompt(files),
+    fallbackChain,
+    options,
+    AUDIT_BATCH_RESULT_SCHEMA,
+  );
+  if ("error" in outcome) {
+    return files.map(() => outcome.error);
+  }
+
+  const results = toBatchAuditResults(outcome.response, paths);
+  const missing = files.filter((file) => !results.has(file.path));
+  if (missing.length > 0) {
+    log.warning(
+      `Batch response omitted ${missing.length} of ${files.length} file(s); auditing them separately.`,
+    );
+    const separate = await Promise.all(
+      missing.map((file) =>
+        auditFile(file.path, file.content, systemPrompt, fallbackChain, options),
+      ),
+    );
+    missing.forEach((file, index) => {
+      const result = separate[index];
+      if (result) results.set(file.path, result);
+    });
+  }
+
+  return files.map(
+    (file) =>
+      results.get(file.path) ?? {
+        status: "ERROR",
+        errorKind: "provider",
+        message: "No result for this file in the batch response",
+        issues: [],
+      },
+  );
+};
+
+/**
+ * Live progress line for streamed audits: completed files plus the estimated
+ * tokens received so far for each in-flight file (~4 characters per token).
+ */
+const createStreamProgress = (total: number) => {
+  const active = new Map<string, number>();
+  let completed = 0;
+  let lastRender = 0;
+
+  const render = (force = false): void => {
+    const now = Date.now();
+    if (!force && now - lastRender < 100) return;
+    lastRender = now;
+
+    const streaming = [...active]
+      .map(([path, chars]) => `${basename(path)} ~${Math.ceil(chars / 4)} tok`)
+      .join(", ");
+    const label = `${completed}/${total} files audited${streaming ? ` · ${streaming}` : ""}`;
+    const maxLength = Math.max(20, (process.stdout.columns ?? 80) - 30);
+    log.progress(
+      completed,
+      total,
+      label.length > maxLength ? `${label.slice(0, maxLength - 1)}…` : label,
+    );
+  };
+
+  return {
+    start: (path: string): void => {
+      active.set(path, 0);
+      render(true);
+    },
+    chunk: (path: string, text: string): void => {
+      active.set(path, (active.get(path) ?? 0) + text.length);
+      render();
+    },
+    /** `files` > 1 for a batch of related files shown under one label */
+    finish: (path: string, files = 1): void => {
+      active.delete(path);
+      completed += files;
+      render(true);
+    },
+  };
+};
+
+/**
+ * Group related files for batched prompts, within `ai.maxBatchTokens`
+ */
+const groupFilesForBatching = async (
+  files: Array<{ path: string; content: string }>,
+  config: ProjectConfig,
+  maxCharsPerChunk?: number,
+): Promise<Array<Array<{ path: string; content: string }>>> => {
+  const candidates = await Promise.all(
+    files.map(async (file) => ({
+      ...file,
+      // Files reviewed in chunks are never merged into a batch
+      tokens:
+        maxCharsPerChunk && file.content.length > maxCharsPerChunk
+          ? Number.POSITIVE_INFINITY
+          : await estimateTokens(file.content),
+    })),
+  );
+  return groupRelatedFiles(candidates, {
+    maxTokens: config.ai?.maxBatchTokens ?? DEFAULT_MAX_BATCH_TOKENS,
+    maxFiles: DEFAULT_MAX_BATCH_FILES,
+  }).map((group) => group.map(({ path, content }) => ({ path, content })));
 };
 
 /**
  * Audit multiple files with concurrency control
- * PERFORMANCE: Uses Promise.allSettled for true parallel processing
+ * PERFORMANCE: A work queue keeps up to `maxConcurrency` files in flight (see `createScheduler`)
+ * RATE LIMITS: 429 responses shrink the concurrency and pause new files for `Retry-After`
  * ERROR HANDLING: Failed files are tracked and reported, but don't stop the process
  * RETRY: Each file audit uses withRetry internally (via auditFile)
  * FALLBACK: Falls back to config.ai.fallbackProvider chain on retryable errors
+ * CIRCUIT BREAKER: Providers failing `ai.circuitBreaker.failureThreshold` times in a row are
+ *   skipped for its cooldown; each result records the providers that answered for it
+ * STREAMING: With `options.stream`, shows tokens arriving per file
+ * TIMEOUT: With `options.timeoutMs`, unfinished files become ERROR results at the deadline
+ * USAGE: Token usage is recorded per file and provider, priced with `config.ai.pricing`
+ * BUDGET: Once the run budget is spent, files not yet sent are skipped (cached results still apply)
+ * BATCHING: With `options.batch` / `ai.batching`, related files share one prompt
+ * CHUNKING: With `options.maxCharsPerChunk`, longer files are reviewed in several prompts
+ * ENSEMBLE: With `options.ensemble` / `ai.ensemble`, each file is reviewed by several providers
+ * VERIFICATION: With `options.verify` / `ai.verifyIssues`, FAIL results get a confirming pass
+ * CACHE: Results are cached in the `cache.backend` store, pruned to its TTL and size limits after the run
+ * HUNK CACHE: With `cache.hunks` (default), patches are also cached per hunk and only changed hunks are reviewed
  */
 export const auditFilesWithConcurrency = async (
   files: Array<{ path: string; content: string }>,
   config: ProjectConfig,
   maxConcurrency: number = 5,
+  options: AuditRunOptions = {},
 ): Promise<FileAuditResult[]> => {
   // Build system prompt once (with skills.sh integration)
   const systemPrompt = await buildSystemPrompt(config);
   const providerConfig = getProviderConfig();
-  const cacheEnabled = config.cacheEnabled !== false;
+  const model = await resolveModelName();
+  const cache = config.cacheEnabled !== false ? createCacheBackend(config.cache) : null;
+  const hunkCache = cache && config.cache?.hunks !== false ? cache : null;
   const promptVersion = config.ai?.promptVersion || DEFAULT_PROMPT_VERSION;
   const fallbackChain = parseFallbackChain(config.ai?.fallbackProvider);
+  const structuredOutput = isStructuredOutputEnabled(config);
+  const deadline = options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined;
+  const streamProgress = options.stream ? createStreamProgress(files.length) : null;
+  const runBudget = options.budget ?? {
+    ...(config.ai?.maxTokensPerRun && { maxTokens: config.ai.maxTokensPerRun }),
+    ...(config.ai?.maxCostPerRun && { maxCost: config.ai.maxCostPerRun }),
+  };
+  const budget = createBudgetTracker(runBudget);
+
+  if (runBudget.maxCost !== undefined && !resolveModelPricing(model, config.ai?.pricing)) {
+    log.warning(
+      `No price for model "${model}": its tokens do not count toward the cost budget. Add it to ai.pricing.`,
+    );
+  }
 
   if (fallbackChain.length > 0) {
     log.info(`Fallback provider chain: ${fallbackChain.join(" → ")}`);
   }
 
+  const ensemble = resolveEnsemble(
+    options.ensemble ?? config.ai?.ensemble?.providers,
+    config.ai?.ensemble?.minAgreement,
+  );
+  // Cache entries of an ensemble depend on every member and the agreement threshold
+  const cacheSource = ensemble
+    ? {
+        provider: "ensemble",
+        model: `${ensemble.members.map((m) => `${m.provider}/${m.model}`).join(",")}@${ensemble.minAgreement}`,
+      }
+    : { provider: providerConfig.provider, model };
+  if (ensemble) {
+    log.info(
+      `Ensemble review: ${ensemble.members.map((m) => `${m.provider} (${m.model})`).join(", ")}; ` +
+        `issues need ${ensemble.minAgreement} of ${ensemble.members.length} models`,
+    );
+  }
+
+  const verification: VerificationSettings | null =
+    (options.verify ?? config.ai?.verifyIssues ?? false)
+      ? {
+          minConfidence: config.ai?.minConfidence ?? DEFAULT_MIN_CONFIDENCE,
+          unconfirmed: config.ai?.unconfirmedIssues ?? "drop",
+        }
+      : null;
+  // Verified results differ from unverified ones for the same input
+  const cachePromptVersion = verification
+    ? `${promptVersion}+verify:${verification.minConfidence}:${verification.unconfirmed}`
+    : promptVersion;
+
+  /**
+   * Key of one hunk; file headers and line numbers are left out so hunks keep their
+   * entry when another hunk changes or they move
+   */
+  const buildHunkCacheKey = (filePath: string, hunk: PatchChunk): string =>
+    buildAuditCacheKey({
+      ...cacheSource,
+      promptVersion: cachePromptVersion,
+      systemPrompt,
+      filePath,
+      payload: `hunk::${stripHunkLineNumbers(stripPatchFileHeader(hunk.content))}`,
+      toolVersion: TOOL_VERSION,
+    });
+
+  const batchRequested = options.batch ?? config.ai?.batching ?? false;
+  if (batchRequested && ensemble) {
+    log.info("Batching is not used in ensemble mode.");
+  }
+  const batching = batchRequested && !ensemble;
+  const { maxCharsPerChunk } = options;
+  const units = batching
+    ? await groupFilesForBatching(files, config, maxCharsPerChunk)
+    : files.map((f) => [f]);
+  if (batching) {
+    log.info(`Batching: ${files.length} file(s) in ${units.length} prompt(s)`);
+  }
+
+  const scheduler = createScheduler(maxConcurrency);
+  const health = createProviderHealth({
+    failureThreshold: config.ai?.circuitBreaker?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+    cooldownMs: config.ai?.circuitBreaker?.cooldownMs ?? DEFAULT_CIRCUIT_COOLDOWN_MS,
+  });
   const results: FileAuditResult[] = [];
   const failedFiles: Array<{ path: string; error: string }> = [];
+  const budgetSkipped: ReviewSkippedItem[] = [];
 
-  // Process files in batches for concurrency control
-  for (let i = 0; i < files.length; i += maxConcurrency) {
-    const batch = files.slice(i, i + maxConcurrency);
+  type FileOutcome =
+    | { success: true; data: FileAuditResult }
+    | { success: false; skipped?: true; path: string; error: string };
 
-    const batchPromises = batch.map(async (file) => {
-      const startTime = performance.now();
-      log.audit(`Auditing: ${file.path}`);
+  /** Audit one file, or a batch of related files in a single prompt */
+  const auditUnit = async (unit: Array<{ path: string; content: string }>) => {
+    const startTime = performance.now();
+    const paths = unit.map((file) => file.path);
+    const label = unit.length > 1 ? `${paths[0]} +${unit.length - 1}` : (paths[0] ?? "");
+    // The live progress line names in-flight files itself
+    if (!streamProgress) {
+      log.audit(unit.length > 1 ? `Auditing together: ${paths.join(", ")}` : `Auditing: ${label}`);
+    }
 
-      try {
-        const cacheKey = buildAuditCacheKey({
-          provider: providerConfig.provider,
-          model: providerConfig.model,
-          promptVersion,
+    try {
+      // A batched result depends on every file in the prompt, so the whole prompt is the payload
+      const batchPrompt = unit.length > 1 ? buildBatchPrompt(unit) : null;
+      const cacheKeys = unit.map((file) =>
+        buildAuditCacheKey({
+          ...cacheSource,
+          promptVersion: cachePromptVersion,
           systemPrompt,
           filePath: file.path,
-          payload: file.content,
+          payload: batchPrompt ?? file.content,
           toolVersion: TOOL_VERSION,
-        });
-
-        if (cacheEnabled) {
-          const cached = await readCachedAuditResult(cacheKey);
-          if (cached) {
-            const duration = performance.now() - startTime;
-            return {
-              success: true as const,
+        }),
+      );
+
+      if (cache) {
+        const cached = await Promise.all(cacheKeys.map((key) => readCachedAuditResult(cache, key)));
+        if (cached.every((entry) => entry !== null)) {
+          const duration = performance.now() - startTime;
+          return unit.map(
+            (file, index): FileOutcome => ({
+              success: true,
               data: {
                 filePath: file.path,
-                result: cached,
+                result: cached[index] as AuditResult,
                 duration,
                 cached: true,
               },
-            };
-          }
+            }),
+          );
         }
+      }
 
-        const result = await auditFile(file.path, file.content, systemPrompt, fallbackChain);
-        const duration = performance.now() - startTime;
+      // Hunk cache: of a multi-hunk patch, only hunks without a cached result are reviewed
+      const single = unit.length === 1 ? unit[0] : undefined;
+      const hunks = hunkCache && single ? splitPatchIntoHunks(single.content) : [];
+      const hunkPlan =
+        hunkCache && single && hunks.length > 1
+          ? planHunkReview(
+              await Promise.all(
+                hunks.map(async (hunk) => ({
+                  ...hunk,
+                  cached: await readCachedAuditResult(
+                    hunkCache,
+                    buildHunkCacheKey(single.path, hunk),
+                  ),
+                })),
+              ),
+            )
+          : null;
+      const cachedHunks = hunkPlan ? hunkPlan.hunks.length - hunkPlan.freshHunks.length : 0;
+      if (single && hunkPlan && hunkPlan.freshHunks.length === 0) {
+        return [
+          {
+            success: true,
+            data: {
+              filePath: single.path,
+              result: mergeHunkResults(hunkPlan, null),
+              duration: performance.now() - startTime,
+              cached: true,
+              cachedHunks,
+            },
+          } satisfies FileOutcome,
+        ];
+      }
+      const reviewUnit =
+        single && hunkPlan && cachedHunks > 0
+          ? [{ path: single.path, content: hunkPlan.freshPatch }]
+          : unit;
 
-        if (cacheEnabled && result.status !== "ERROR") {
-          await writeCachedAuditResult(cacheKey, result);
-        }
+      const exhausted = budget.exhaustedReason();
+      if (exhausted) {
+        streamProgress?.finish(label, unit.length);
+        return unit.map(
+          (file): FileOutcome => ({
+            success: false,
+            skipped: true,
+            path: file.path,
+            error: exhausted,
+          }),
+        );
+      }
 
-        return {
-          success: true as const,
-          data: {
-            filePath: file.path,
-            result,
-            duration,
-            cached: false,
-          },
-        };
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : "Unknown error";
-        log.error(`Failed to audit ${file.path}: ${errorMsg}`);
-
-        return {
-          success: false as const,
+      const usage = createUsageRecorder();
+      // Providers that produced the review; the verification pass does not count
+      const answeredBy = new Set<string>();
+      const auditOptions: AuditFileOptions = {
+        structuredOutput,
+        stream: !!streamProgress,
+        onUsage: (tokens, source) => usage.record(source, tokens),
+        ...(streamProgress && { onChunk: (text) => streamProgress.chunk(label, text) }),
+        onRateLimit: scheduler.rateLimited,
+        onResponse: (source) => answeredBy.add(`${source.provider}/${source.model}`),
+        health,
+        ...(deadline && { signal: deadline }),
+        ...(ensemble && { ensemble }),
+      };
+      streamProgress?.start(label);
+      const audited: Promise<Array<{ result: AuditResult; chunks?: number }>> =
+        unit.length > 1
+          ? auditFileBatch(unit, systemPrompt, fallbackChain, auditOptions).then((batched) =>
+              batched.map((result) => ({ result })),
+            )
+          : Promise.all(
+              reviewUnit.map((file) =>
+                maxCharsPerChunk
+                  ? auditFileInChunks(
+                      file.path,
+                      file.content,
+                      systemPrompt,
+                      maxCharsPerChunk,
+                      fallbackChain,
+                      auditOptions,
+                    )
+                  : auditFile(
+                      file.path,
+                      file.content,
+                      systemPrompt,
+                      fallbackChain,
+                      auditOptions,
+                    ).then((result) => ({ result })),
+              ),
+            );
+      const verifyOptions: AuditFileOptions = {
+        structuredOutput,
+        onUsage: (tokens, source) => usage.record(source, tokens),
+        onRateLimit: scheduler.rateLimited,
+        health,
+        ...(deadline && { signal: deadline }),
+      };
+      const unitResults = await audited
+        .then((entries) =>
+          verification
+            ? Promise.all(
+                entries.map(async (entry, index) => ({
+                  ...entry,
+                  result: await verifyAuditResult(
+                    reviewUnit[index] as { path: string; content: string },
+                    entry.result,
+                    verification,
+                    fallbackChain,
+                    verifyOptions,
+                  ),
+                })),
+              )
+            : entries,
+        )
+        .finally(() => streamProgress?.finish(label, unit.length));
+      const duration = performance.now() - startTime;
+      const unitUsage = usage.entries(config.ai?.pricing);
+      budget.add(unitUsage);
+      const fileUsages = splitUsage(
+        unitUsage,
+        unit.map((file) => file.content.length),
+      );
+
+      return Promise.all(
+        unit.map(async (file, index): Promise<FileOutcome> => {
+          const { result: reviewed, chunks = 1 } = unitResults[index] as {
+            result: AuditResult;
+            chunks?: number;
+          };
+          const fileUsage = fileUsages[index] ?? [];
+          const cacheKey = cacheKeys[index];
+          // A cache that cannot be written (e.g. an unreachable cache server) costs a
+          // re-audit next run, not this file's result
+          const writeCache = (key: string, entry: AuditResult): Promise<void> =>
+            writeCachedAuditResult(cache as ICacheBackend, key, entry).catch((error: unknown) => {
+              log.warning(
+                `Cache write failed for ${file.path}: ${error instanceof Error ? error.message : String(error)}`,
+              );
+            });
+
+          const perHunk = hunkPlan && splitResultByHunks(reviewed, hunkPlan.freshHunks);
+          if (hunkCache && hunkPlan && perHunk) {
+            const fresh = hunkPlan.hunks.filter((hunk) => !hunk.cached);
+            await Promise.all(
+              fresh.map((hunk, hunkIndex) => {
+                const entry = perHunk[hunkIndex];
+                return entry ? writeCache(buildHunkCacheKey(file.path, hunk), entry) : undefined;
+              }),
+            );
+          }
+          const result =
+            hunkPlan && cachedHunks > 0 ? mergeHunkResults(hunkPlan, reviewed) : reviewed;
+          if (cache && cacheKey && result.status !== "ERROR") {
+            await writeCache(cacheKey, result);
+          }
+
+          return {
+            success: true,
+            data: {
+              filePath: file.path,
+              result,
+              duration,
+              cached: false,
+              ...(fileUsage.length > 0 && { usage: fileUsage }),
+              ...(answeredBy.size > 0 && { providers: [...answeredBy] }),
+              ...(unit.length > 1 && {
+                batchedWith: paths.filter((path) => path !== file.path),
+              }),
+              ...(chunks > 1 && { chunks }),
+              ...(cachedHunks > 0 && { cachedHunks }),
+            },
+          };
+        }),
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : "Unknown error";
+      log.error(`Failed to audit ${paths.join(", ")}: ${errorMsg}`);
+
+      return unit.map(
+        (file): FileOutcome => ({
+          success: false,
           path: file.path,
           error: errorMsg,
-        };
-      }
-    });
-
-    // Use Promise.allSettled to ensure all files are processed
-    const batchResults = await Promise.allSettled(batchPromises);
+        }),
+      );
+    }
+  };
 
-    // Process results
-    for (const promiseResult of batchResults) {
-      if (promiseResult.status === "fulfilled") {
-        const fileResult = promiseResult.value;
+  // Process files (or batches of related files) from a work queue: the next unit
+  // starts as soon as any finishes, so one slow file does not hold up the others
+  let processedFiles = 0;
+  let auditedFiles = 0;
+  const settledUnits = await scheduler.run(
+    units.map((unit) => () => auditUnit(unit)),
+    (settled, index) => {
+      processedFiles += units[index]?.length ?? 0;
+      if (settled.status === "fulfilled") {
+        auditedFiles += settled.value.filter((fileResult) => fileResult.success).length;
+      }
+      if (!streamProgress) {
+        log.progress(processedFiles, files.length, `${auditedFiles}/${files.length} files audited`);
+      }
+    },
+  );
 
+  // Collect results in input order
+  for (const promiseResult of settledUnits) {
+    if (promiseResult.status === "fulfilled") {
+      for (const fileResult of promiseResult.value) {
         if (fileResult.success) {
           results.push(fileResult.data);
+        } else if (fileResult.skipped) {
+          budgetSkipped.push({ path: fileResult.path, reason: fileResult.error });
         } else {
           failedFiles.push({
             path: fileResult.path,
             error: fileResult.error,
           });
         }
-      } else {
-        // Promise rejected (shouldn't happen with our error handling, but just in case)
-        log.error(`Unexpected promise rejection: ${promiseResult.reason}`);
       }
+    } else {
+      // Promise rejected (shouldn't happen with our error handling, but just in case)
+      log.error(`Unexpected promise rejection: ${promiseResult.reason}`);
     }
+  }
 
-    log.progress(
-      Math.min(i + maxConcurrency, files.length),
-      files.length,
-      `${results.length}/${files.length} files audited`,
+  log.progressEnd();
+  options.onSchedulerStats?.(scheduler.stats());
+
+  for (const entry of health.stats()) {
+    if (entry.trips > 0) {
+      log.warning(
+        `Circuit breaker: ${entry.provider} was taken out of rotation ${entry.trips} time(s) ` +
+          `(${entry.failures} failed, ${entry.successes} succeeded request(s))`,
+      );
+    }
+  }
+
+  if (cache) {
+    // Keep the store within its TTL and size limits; a failed prune never fails the review
+    await cache.prune().catch((error: unknown) => {
+      log.warning(`Cache prune failed: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
+  const timedOut = results.filter((entry) => entry.result.errorKind === "timeout").length;
+  if (timedOut > 0) {
+    log.warning(
+      `Review timeout of ${options.timeoutMs}ms reached: ${timedOut} file(s) were not audited.`,
     );
   }
 
-  log.progressEnd();
+  if (budgetSkipped.length > 0) {
+    log.warning(`AI budget exhausted: ${budgetSkipped.length} file(s) were not sent.`);
+    for (const item of budgetSkipped) {
+      options.onSkipped?.(item);
+    }
+  }
 
   // Report failed files at the end
   if (failedFiles.length > 0) {
@@ -285,9 +1327,12 @@ export const auditFilesWithConcurrency = async (
 export const clearProviderCache = (): void => {
   providerInstance = null;
   providerConfigCache = null;
+  memberProviders.clear();
 };
 
 // Export types and utilities
 export * from "./types.js";
 export { AIProviderFactory } from "./factory.js";
 export { AIConfig } from "./config.js";
+export { summarizeUsage, type UsageSource } from "./usage.js";
+export { groupRelatedFiles } from "./batching.js";
@@ -0,0 +1,138 @@
+/**
+ * Provider health for the fallback chain: a circuit breaker per `provider/model`.
+ * After `failureThreshold` consecutive failed requests the circuit opens and the
+ * provider is skipped for `cooldownMs`; then one trial request decides whether it
+ * closes again or stays open for another cooldown.
+ */
+
+import { ProviderHttpError } from "../../utils/errors.js";
+import { isRetryableError } from "../../utils/retry.js";
+
+export interface CircuitBreakerSettings {
+  /** Consecutive failed requests (after retries) that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit skips the provider before a trial request */
+  cooldownMs: number;
+}
+
+export const DEFAULT_FAILURE_THRESHOLD = 3;
+export const DEFAULT_CIRCUIT_COOLDOWN_MS = 60_000;
+
+/**
+ * Whether `error` says the provider is unhealthy (5xx, 429, network failures and
+ * timeouts) rather than that one request was bad (e.g. a 400 for an oversized prompt)
+ */
+export const isProviderHealthError = (error: unknown): boolean =>
+  isRetryableError(error) ||
+  (error instanceof ProviderHttpError && error.status >= 500) ||
+  (error instanceof TypeError && error.message === "fetch failed");
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface ProviderHealthStats {
+  /** `provider/model` */
+  provider: string;
+  state: CircuitState;
+  successes: number;
+  failures: number;
+  /** Times the circuit opened during the run */
+  trips: number;
+}
+
+interface HealthEntry {
+  consecutiveFailures: number;
+  successes: number;
+  failures: number;
+  trips: number;
+  /** Set while the circuit is open */
+  openUntil: number | null;
+  /** A trial request is in flight after the cooldown */
+  probing: boolean;
+}
+
+export const createProviderHealth = (
+  settings: CircuitBreakerSettings,
+  now: () => number = Date.now,
+) => {
+  const threshold = Math.max(1, Math.floor(settings.failureThreshold));
+  const entries = new Map<string, HealthEntry>();
+
+  const entryFor = (provider: string): HealthEntry => {
+    let entry = entries.get(provider);
+    if (!entry) {
+      entry = {
+        consecutiveFailures: 0,
+        successes: 0,
+        failures: 0,
+        trips: 0,
+        openUntil: null,
+        probing: false,
+      };
+      entries.set(provider, entry);
+    }
+    return entry;
+  };
+
+  const stateOf = (entry: HealthEntry): CircuitState => {
+    if (entry.openUntil === null) return "closed";
+    return entry.probing || now() >= entry.openUntil ? "half-open" : "open";
+  };
+
+  return {
+    /**
+     * Whether a request may be sent to `provider` now. Once the cooldown is over,
+     * only the first caller gets through, as the trial request.
+     */
+    allowRequest: (provider: string): boolean => {
+      const entry = entries.get(provider);
+      if (!entry || entry.openUntil === null) return true;
+      if (entry.probing || now() < entry.openUntil) return false;
+      entry.probing = true;
+      return true;
+    },
+    recordSuccess: (provider: string): void => {
+      const entry = entryFor(provider);
+      entry.successes += 1;
+      entry.consecutiveFailures = 0;
+      entry.openUntil = null;
+      entry.probing = false;
+    },
+    /** Record a failed request; true when this failure opened the circuit */
+    recordFailure: (provider: string): boolean => {
+      const entry = entryFor(provider);
+      entry.failures += 1;
+      entry.consecutiveFailures += 1;
+      // A failed trial request reopens the circuit at once
+      const trips =
+        entry.probing || (entry.openUntil === null && entry.consecutiveFailures >= threshold);
+      entry.probing = false;
+      if (!trips) return false;
+
+      entry.openUntil = now() + settings.cooldownMs;
+      entry.trips += 1;
+      return true;
+    },
+    /**
+     * End a trial request whose failure was not the provider's fault: the circuit stays
+     * as it is and the next request becomes the trial
+     */
+    releaseTrial: (provider: string): void => {
+      const entry = entries.get(provider);
+      if (entry) entry.probing = false;
+    },
+    state: (provider: string): CircuitState => {
+      const entry = entries.get(provider);
+      return entry ? stateOf(entry) : "closed";
+    },
+    stats: (): ProviderHealthStats[] =>
+      [...entries].map(([provider, entry]) => ({
+        provider,
+        state: stateOf(entry),
+        successes: entry.successes,
+        failures: entry.failures,
+        trips: entry.trips,
+      })),
+  };
+};
+
+export type ProviderHealth = ReturnType<typeof createProviderHealth>;
@@ -4,18 +4,47 @@
  * Reference: https://docs.anthropic.com/en/docs/about-claude/models
  */
 
-import type { IAIProvider, AIModelConfig } from "../types.js";
+import type { IAIProvider, AIModelConfig, GenerateOptions, StreamOptions } from "../types.js";
+import { createIdleTimeout, readServerSentEvents } from "../sse.js";
+import type { StructuredOutputSchema } from "../../../config/audit-schema.js";
+import type { TokenUsage } from "../../../types/index.js";
+import { createApiError } from "./api-error.js";
 
 interface AnthropicMessage {
   role: "user" | "assistant";
   content: string;
 }
 
+interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
 interface AnthropicResponse {
   content: Array<{
     type: string;
-    text: string;
+    text?: string;
+    /** Arguments of a `tool_use` block */
+    input?: unknown;
   }>;
+  usage?: AnthropicUsage;
+}
+
+/** Payload of `message_start`, `content_block_delta`, `message_delta` and `error` stream events */
+interface AnthropicStreamEvent {
+  message?: {
+    usage?: AnthropicUsage;
+  };
+  delta?: {
+    type?: string;
+    text?: string;
+  };
+  /** Cumulative output tokens on `message_delta` */
+  usage?: Partial<AnthropicUsage>;
+  error?: {
+    type: string;
+    message: string;
+  };
 }
 
 export class AnthropicProvider implements IAIProvider {
@@ -35,14 +64,116 @@ export class AnthropicProvider implements IAIProvider {
     this.timeoutMs = parseInt(process.env.AI_TIMEOUT_MS || "30000", 10);
   }
 
-  async generateContent(systemPrompt: string, userPrompt: string): Promise<string> {
-    const messages: AnthropicMessage[] = [{ role: "user", content: userPrompt }];
+  async generateContent(
+    systemPrompt: string,
+    userPrompt: string,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const data = await this.createMessage(systemPrompt, userPrompt, {}, options);
+    return data.content[0]?.text || "";
+  }
+
+  /**
+   * Forced tool use: the model must call a tool whose input schema is `schema`,
+   * and the tool input is the structured response.
+   * Reference: https://docs.anthropic.com/en/docs/build-with-claude/tool-use
+   */
+  async generateStructuredContent(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: StructuredOutputSchema,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const data = await this.createMessage(
+      systemPrompt,
+      userPrompt,
+      {
+        tools: [
+          { name: schema.name, description: schema.description, input_schema: schema.schema },
+        ],
+        tool_choice: { type: "tool", name: schema.name },
+      },
+      options,
+    );
+    const toolUse = data.content.find((block) => block.type === "tool_use");
+    return toolUse ? JSON.stringify(toolUse.input) : "";
+  }
+
+  /**
+   * Stream text deltas from `content_block_delta` events until `message_stop`.
+   * Input tokens arrive with `message_start`, output tokens with `message_delta`.
+   * Reference: https://docs.anthropic.com/en/api/messages-streaming
+   */
+  async *generateContentStream(
+    systemPrompt: string,
+    userPrompt: string,
+    options: StreamOptions = {},
+  ): AsyncGenerator<string> {
+    const idle = createIdleTimeout(this.timeoutMs, options.signal);
+    try {
+      const response = await this.post(systemPrompt, userPrompt, { stream: true }, idle.signal);
+      if (!response.body) return;
 
+      const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+      for await (const event of readServerSentEvents(response.body)) {
+        idle.touch();
+        if (event.event === "message_stop") {
+          options.onUsage?.(usage);
+          return;
+        }
+        if (event.event === "message_start" || event.event === "message_delta") {
+          const payload = JSON.parse(event.data) as AnthropicStreamEvent;
+          const reported = payload.message?.usage ?? payload.usage;
+          usage.promptTokens = reported?.input_tokens ?? usage.promptTokens;
+          usage.completionTokens = reported?.output_tokens ?? usage.completionTokens;
+        }
+        if (event.event === "error") {
+          const payload = JSON.parse(event.data) as AnthropicStreamEvent;
+          throw new Error(`Anthropic API error: stream ${payload.error?.message ?? event.data}`);
+        }
+        if (event.event === "content_block_delta") {
+          const payload = JSON.parse(event.data) as AnthropicStreamEvent;
+          if (payload.delta?.type === "text_delta" && payload.delta.text) yield payload.delta.text;
+        }
+      }
+    } finally {
+      idle.clear();
+    }
+  }
+
+  private async createMessage(
+    systemPrompt: string,
+    userPrompt: string,
+    body: Record<string, unknown>,
+    options: GenerateOptions,
+  ): Promise<AnthropicResponse> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    const response = await this.post(systemPrompt, userPrompt, body, controller.signal).finally(
+      () => clearTimeout(timeoutId),
+    );
+
+    const data = (await response.json()) as AnthropicResponse;
+    if (data.usage) {
+      options.onUsage?.({
+        promptTokens: data.usage.input_tokens,
+        completionTokens: data.usage.output_tokens,
+      });
+    }
+    return data;
+  }
+
+  private async post(
+    systemPrompt: string,
+    userPrompt: string,
+    options: Record<string, unknown>,
+    signal: AbortSignal,
+  ): Promise<Response> {
+    const messages: AnthropicMessage[] = [{ role: "user", content: userPrompt }];
+
     const response = await fetch(this.baseURL, {
       method: "POST",
-      signal: controller.signal,
+      signal,
       headers: {
         "Content-Type": "application/json",
         "x-api-key": this.apiKey,
@@ -54,18 +185,15 @@ export class AnthropicProvider implements IAIProvider {
         messages,
         temperature: this.temperature,
         max_tokens: this.maxTokens,
+        ...options,
       }),
-    }).finally(() => clearTimeout(timeoutId));
+    });
 
     if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(
-        `Anthropic API error: ${response.status} ${response.statusText} ${errorBody}`,
-      );
+      throw await createApiError("Anthropic", response);
     }
 
-    const data = (await response.json()) as AnthropicResponse;
-    return data.content[0]?.text || "";
+    return response;
   }
 
   isAvailable(): boolean {
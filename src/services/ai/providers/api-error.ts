@@ -0,0 +1,19 @@
+/**
+ * Error for a non-2xx provider API response, keeping the status and the
+ * wait the provider asked for so retries and the scheduler can honour it
+ */
+
+import { ProviderHttpError } from "../../../utils/errors.js";
+import { parseRetryAfter } from "../../../utils/retry.js";
+
+export const createApiError = async (
+  label: string,
+  response: Response,
+): Promise<ProviderHttpError> => {
+  const errorBody = await response.text();
+  return new ProviderHttpError(
+    `${label} API error: ${response.status} ${response.statusText} ${errorBody}`,
+    response.status,
+    parseRetryAfter(response.headers),
+  );
+};
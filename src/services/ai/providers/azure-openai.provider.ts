@@ -0,0 +1,97 @@
+/**
+ * Azure OpenAI Provider
+ * Requests are routed to a deployment (the `model` config) on an Azure OpenAI resource
+ * Reference: https://learn.microsoft.com/en-us/azure/ai-services/openai/reference
+ */
+
+import type { IAIProvider, AIModelConfig, GenerateOptions } from "../types.js";
+import { createApiError } from "./api-error.js";
+
+/** Latest GA data-plane API version */
+export const DEFAULT_AZURE_OPENAI_API_VERSION = "2024-10-21";
+
+interface AzureOpenAIMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface AzureOpenAIResponse {
+  choices: Array<{
+    message: {
+      content: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+export class AzureOpenAIProvider implements IAIProvider {
+  private apiKey: string;
+  private deployment: string;
+  private temperature: number;
+  private maxTokens: number;
+  private timeoutMs: number;
+  private endpoint: string;
+  private apiVersion: string;
+
+  constructor(config: AIModelConfig) {
+    this.apiKey = config.apiKey;
+    this.deployment = config.model;
+    this.temperature = config.temperature ?? 0.2;
+    this.maxTokens = config.maxTokens ?? 2048;
+    this.timeoutMs = parseInt(process.env.AI_TIMEOUT_MS || "30000", 10);
+    this.endpoint = (config.baseURL || "").replace(/\/+$/, "");
+    this.apiVersion = config.apiVersion || DEFAULT_AZURE_OPENAI_API_VERSION;
+  }
+
+  async generateContent(
+    systemPrompt: string,
+    userPrompt: string,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const messages: AzureOpenAIMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ];
+
+    // The deployment selects the model, so the body carries no `model` field
+    const url =
+      `${this.endpoint}/openai/deployments/${encodeURIComponent(this.deployment)}` +
+      `/chat/completions?api-version=${encodeURIComponent(this.apiVersion)}`;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    const response = await fetch(url, {
+      method: "POST",
+      signal: controller.signal,
+      headers: {
+        "Content-Type": "application/json",
+        "api-key": this.apiKey,
+      },
+      body: JSON.stringify({
+        messages,
+        temperature: this.temperature,
+        max_tokens: this.maxTokens,
+      }),
+    }).finally(() => clearTimeout(timeoutId));
+
+    if (!response.ok) {
+      throw await createApiError("Azure OpenAI", response);
+    }
+
+    const data = (await response.json()) as AzureOpenAIResponse;
+    if (data.usage) {
+      options.onUsage?.({
+        promptTokens: data.usage.prompt_tokens,
+        completionTokens: data.usage.completion_tokens,
+      });
+    }
+    return data.choices[0]?.message?.content || "";
+  }
+
+  isAvailable(): boolean {
+    return !!(this.apiKey && this.endpoint && this.deployment);
+  }
+}
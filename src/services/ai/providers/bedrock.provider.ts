@@ -0,0 +1,113 @@
+/**
+ * AWS Bedrock Provider (Anthropic Claude models)
+ * Uses the InvokeModel API with Anthropic's Messages payload, signed with SigV4
+ * Reference: https://docs.aws.amazon.com/bedrock/latest/userguide/model-parameters-anthropic-claude-messages.html
+ */
+
+import type { IAIProvider, AIModelConfig, AWSCredentials, GenerateOptions } from "../types.js";
+import { signRequest } from "./aws-sigv4.js";
+import { createApiError } from "./api-error.js";
+
+/** Required by Anthropic models on Bedrock in place of the `anthropic-version` header */
+const BEDROCK_ANTHROPIC_VERSION = "bedrock-2023-05-31";
+
+/** Matches `anthropic.*` model IDs and cross-region inference profiles like `us.anthropic.*` */
+const ANTHROPIC_MODEL_PATTERN = /^(?:[a-z]{2,4}\.)?anthropic\./;
+
+interface BedrockAnthropicMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+interface BedrockAnthropicResponse {
+  content: Array<{
+    type: string;
+    text?: string;
+  }>;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+export class BedrockProvider implements IAIProvider {
+  private credentials: AWSCredentials | undefined;
+  private region: string;
+  private model: string;
+  private temperature: number;
+  private maxTokens: number;
+  private timeoutMs: number;
+  private endpoint: string;
+
+  constructor(config: AIModelConfig) {
+    this.credentials = config.credentials;
+    this.region = config.region || "";
+    this.model = config.model;
+    this.temperature = config.temperature ?? 0.2;
+    this.maxTokens = config.maxTokens ?? 2048;
+    this.timeoutMs = parseInt(process.env.AI_TIMEOUT_MS || "30000", 10);
+    this.endpoint = (
+      config.baseURL || `https://bedrock-runtime.${this.region}.amazonaws.com`
+    ).replace(/\/+$/, "");
+  }
+
+  async generateContent(
+    systemPrompt: string,
+    userPrompt: string,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    if (!this.credentials) {
+      throw new Error("AWS credentials are required for Bedrock");
+    }
+    if (!ANTHROPIC_MODEL_PATTERN.test(this.model)) {
+      throw new Error(
+        `Unsupported Bedrock model "${this.model}": only Anthropic Claude models are supported.`,
+      );
+    }
+
+    const messages: BedrockAnthropicMessage[] = [{ role: "user", content: userPrompt }];
+    const body = JSON.stringify({
+      anthropic_version: BEDROCK_ANTHROPIC_VERSION,
+      system: systemPrompt,
+      messages,
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+    });
+    const url = `${this.endpoint}/model/${encodeURIComponent(this.model)}/invoke`;
+    const headers = signRequest(
+      {
+        method: "POST",
+        url,
+        headers: { "content-type": "application/json", accept: "application/json" },
+        body,
+      },
+      { service: "bedrock", region: this.region, credentials: this.credentials },
+    );
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    const response = await fetch(url, {
+      method: "POST",
+      signal: controller.signal,
+      headers,
+      body,
+    }).finally(() => clearTimeout(timeoutId));
+
+    if (!response.ok) {
+      throw await createApiError("Bedrock", response);
+    }
+
+    const data = (await response.json()) as BedrockAnthropicResponse;
+    if (data.usage) {
+      options.onUsage?.({
+        promptTokens: data.usage.input_tokens,
+        completionTokens: data.usage.output_tokens,
+      });
+    }
+    return data.content.find((block) => block.type === "text")?.text || "";
+  }
+
+  isAvailable(): boolean {
+    return !!(this.credentials?.accessKeyId && this.credentials.secretAccessKey && this.region);
+  }
+}
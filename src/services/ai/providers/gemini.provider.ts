@@ -3,8 +3,40 @@
  * Best models for code: gemini-2.0-flash-exp, gemini-2.5-flash
  */
 
-import { GoogleGenerativeAI, type GenerativeModel } from "@google/generative-ai";
-import type { IAIProvider, AIModelConfig } from "../types.js";
+import {
+  GoogleGenerativeAI,
+  type GenerativeModel,
+  type ResponseSchema,
+  type SchemaType,
+  type UsageMetadata,
+} from "@google/generative-ai";
+import type { IAIProvider, AIModelConfig, GenerateOptions, StreamOptions } from "../types.js";
+import { createIdleTimeout } from "../sse.js";
+import type { JsonSchema, StructuredOutputSchema } from "../../../config/audit-schema.js";
+
+/**
+ * Gemini takes an OpenAPI 3.0 subset: same shape, but no `additionalProperties`
+ */
+const toResponseSchema = (schema: JsonSchema): ResponseSchema => ({
+  type: schema.type as SchemaType,
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: [...schema.enum] }),
+  ...(schema.items && { items: toResponseSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toResponseSchema(value)]),
+    ),
+  }),
+  ...(schema.required && { required: [...schema.required] }),
+});
+
+const reportUsage = (usage: UsageMetadata | undefined, options: GenerateOptions): void => {
+  if (!usage) return;
+  options.onUsage?.({
+    promptTokens: usage.promptTokenCount ?? 0,
+    completionTokens: usage.candidatesTokenCount ?? 0,
+  });
+};
 
 export class GeminiProvider implements IAIProvider {
   private readonly model: GenerativeModel;
@@ -24,7 +56,11 @@ export class GeminiProvider implements IAIProvider {
     });
   }
 
-  async generateContent(systemPrompt: string, userPrompt: string): Promise<string> {
+  async generateContent(
+    systemPrompt: string,
+    userPrompt: string,
+    options: GenerateOptions = {},
+  ): Promise<string> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
     try {
@@ -33,12 +69,72 @@ export class GeminiProvider implements IAIProvider {
       const result = await this.model.generateContent([systemPrompt, userPrompt], {
         signal: controller.signal,
       } as Parameters<GenerativeModel["generateContent"]>[1]);
+      reportUsage(result.response.usageMetadata, options);
+      return result.response.text();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Controlled generation: JSON output constrained by `responseSchema`
+   * Reference: https://ai.google.dev/gemini-api/docs/structured-output
+   */
+  async generateStructuredContent(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: StructuredOutputSchema,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      // A request-level generationConfig replaces the model-level one, so merge them
+      const result = await this.model.generateContent(
+        {
+          contents: [{ role: "user", parts: [{ text: systemPrompt }, { text: userPrompt }] }],
+          generationConfig: {
+            ...this.model.generationConfig,
+            responseMimeType: "application/json",
+            responseSchema: toResponseSchema(schema.schema),
+          },
+        },
+        { signal: controller.signal } as Parameters<GenerativeModel["generateContent"]>[1],
+      );
+      reportUsage(result.response.usageMetadata, options);
       return result.response.text();
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
+  /**
+   * The SDK streams over SSE (`alt=sse`) and yields one response per event.
+   * Each event carries the running usage, so the last one is reported.
+   */
+  async *generateContentStream(
+    systemPrompt: string,
+    userPrompt: string,
+    options: StreamOptions = {},
+  ): AsyncGenerator<string> {
+    const idle = createIdleTimeout(this.timeoutMs, options.signal);
+    try {
+      const result = await this.model.generateContentStream([systemPrompt, userPrompt], {
+        signal: idle.signal,
+      } as Parameters<GenerativeModel["generateContentStream"]>[1]);
+      let usage: UsageMetadata | undefined;
+      for await (const chunk of result.stream) {
+        idle.touch();
+        usage = chunk.usageMetadata ?? usage;
+        const text = chunk.text();
+        if (text) yield text;
+      }
+      reportUsage(usage, options);
+    } finally {
+      idle.clear();
+    }
+  }
+
   isAvailable(): boolean {
     return !!this.apiKey;
   }
@@ -0,0 +1,146 @@
+/**
+ * OpenAI-compatible Provider for self-hosted models
+ * Works with any server exposing `/chat/completions` and `/models`:
+ * Ollama, vLLM, LM Studio, llama.cpp server, LocalAI
+ * Reference: https://github.com/ollama/ollama/blob/main/docs/openai.md
+ */
+
+import type { IAIProvider, AIModelConfig, GenerateOptions } from "../types.js";
+import { createApiError } from "./api-error.js";
+
+/** Ollama's OpenAI-compatible endpoint */
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+
+interface OpenAICompatibleMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface OpenAICompatibleResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+  /** Not reported by every server */
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+interface ModelListResponse {
+  data?: Array<{ id: string }>;
+}
+
+export class OpenAICompatibleProvider implements IAIProvider {
+  private apiKey: string;
+  private model: string;
+  private temperature: number;
+  private maxTokens: number;
+  private timeoutMs: number;
+  private baseURL: string;
+  private modelDiscovery: Promise<string> | undefined;
+
+  constructor(config: AIModelConfig) {
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.temperature = config.temperature ?? 0.2;
+    this.maxTokens = config.maxTokens ?? 2048;
+    this.timeoutMs = parseInt(process.env.AI_TIMEOUT_MS || "30000", 10);
+    this.baseURL = (config.baseURL || DEFAULT_OPENAI_COMPATIBLE_BASE_URL).replace(/\/+$/, "");
+  }
+
+  async generateContent(
+    systemPrompt: string,
+    userPrompt: string,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const messages: OpenAICompatibleMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ];
+
+    const response = await this.request("/chat/completions", {
+      method: "POST",
+      body: JSON.stringify({
+        model: await this.resolveModel(),
+        messages,
+        temperature: this.temperature,
+        max_tokens: this.maxTokens,
+      }),
+    });
+
+    const data = (await response.json()) as OpenAICompatibleResponse;
+    if (data.usage) {
+      options.onUsage?.({
+        promptTokens: data.usage.prompt_tokens,
+        completionTokens: data.usage.completion_tokens,
+      });
+    }
+    return data.choices[0]?.message?.content || "";
+  }
+
+  /**
+   * List the model IDs served at `/models`
+   */
+  async listModels(): Promise<string[]> {
+    const response = await this.request("/models", { method: "GET" });
+    const data = (await response.json()) as ModelListResponse;
+    return (data.data ?? []).map((entry) => entry.id).filter(Boolean);
+  }
+
+  /**
+   * Use the configured model, or discover the first model the server offers.
+   * Concurrent callers share one discovery request.
+   */
+  async resolveModel(): Promise<string> {
+    if (this.model) {
+      return this.model;
+    }
+
+    this.modelDiscovery ??= this.listModels()
+      .then(([first]) => {
+        if (!first) {
+          throw new Error(
+            `No models available at ${this.baseURL}/models. Pull a model or set AI_MODEL.`,
+          );
+        }
+        this.model = first;
+        return first;
+      })
+      .catch((error: unknown) => {
+        // Allow a later call to retry discovery
+        this.modelDiscovery = undefined;
+        throw error;
+      });
+
+    return this.modelDiscovery;
+  }
+
+  /**
+   * Local servers usually need no API key, so only the base URL is required
+   */
+  isAvailable(): boolean {
+    return !!this.baseURL;
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    const response = await fetch(`${this.baseURL}${path}`, {
+      ...init,
+      signal: controller.signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+    }).finally(() => clearTimeout(timeoutId));
+
+    if (!response.ok) {
+      throw await createApiError("OpenAI-compatible", response);
+    }
+
+    return response;
+  }
+}
@@ -4,21 +4,46 @@
  * Reference: https://openai.com/index/gpt-4-1/
  */
 
-import type { IAIProvider, AIModelConfig } from "../types.js";
+import type { IAIProvider, AIModelConfig, GenerateOptions, StreamOptions } from "../types.js";
+import { createIdleTimeout, readServerSentEvents } from "../sse.js";
+import type { StructuredOutputSchema } from "../../../config/audit-schema.js";
+import type { TokenUsage } from "../../../types/index.js";
+import { createApiError } from "./api-error.js";
 
 interface OpenAIMessage {
   role: "system" | "user" | "assistant";
   content: string;
 }
 
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
 interface OpenAIResponse {
   choices: Array<{
     message: {
       content: string;
     };
   }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+    };
+  }>;
+  /** Only on the final chunk, with `stream_options.include_usage` */
+  usage?: OpenAIUsage | null;
 }
 
+const toTokenUsage = (usage: OpenAIUsage): TokenUsage => ({
+  promptTokens: usage.prompt_tokens,
+  completionTokens: usage.completion_tokens,
+});
+
 export class OpenAIProvider implements IAIProvider {
   private apiKey: string;
   private model: string;
@@ -35,17 +60,106 @@ export class OpenAIProvider implements IAIProvider {
     this.timeoutMs = parseInt(process.env.AI_TIMEOUT_MS || "30000", 10);
   }
 
-  async generateContent(systemPrompt: string, userPrompt: string): Promise<string> {
+  async generateContent(
+    systemPrompt: string,
+    userPrompt: string,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    return this.complete(systemPrompt, userPrompt, {}, options);
+  }
+
+  /**
+   * Structured Outputs: the response is guaranteed to match `schema` in strict mode
+   * Reference: https://platform.openai.com/docs/guides/structured-outputs
+   */
+  async generateStructuredContent(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: StructuredOutputSchema,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    return this.complete(
+      systemPrompt,
+      userPrompt,
+      {
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: schema.name,
+            description: schema.description,
+            schema: schema.schema,
+            strict: true,
+          },
+        },
+      },
+      options,
+    );
+  }
+
+  /**
+   * Stream text deltas; the stream ends with a `[DONE]` event. Usage arrives in a
+   * final chunk without choices.
+   * Reference: https://platform.openai.com/docs/api-reference/chat-streaming
+   */
+  async *generateContentStream(
+    systemPrompt: string,
+    userPrompt: string,
+    options: StreamOptions = {},
+  ): AsyncGenerator<string> {
+    const idle = createIdleTimeout(this.timeoutMs, options.signal);
+    try {
+      const response = await this.post(
+        systemPrompt,
+        userPrompt,
+        { stream: true, stream_options: { include_usage: true } },
+        idle.signal,
+      );
+      if (!response.body) return;
+
+      for await (const event of readServerSentEvents(response.body)) {
+        idle.touch();
+        if (event.data === "[DONE]") return;
+        const chunk = JSON.parse(event.data) as OpenAIStreamChunk;
+        if (chunk.usage) options.onUsage?.(toTokenUsage(chunk.usage));
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    } finally {
+      idle.clear();
+    }
+  }
+
+  private async complete(
+    systemPrompt: string,
+    userPrompt: string,
+    body: Record<string, unknown>,
+    options: GenerateOptions,
+  ): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    const response = await this.post(systemPrompt, userPrompt, body, controller.signal).finally(
+      () => clearTimeout(timeoutId),
+    );
+
+    const data = (await response.json()) as OpenAIResponse;
+    if (data.usage) options.onUsage?.(toTokenUsage(data.usage));
+    return data.choices[0]?.message?.content || "";
+  }
+
+  private async post(
+    systemPrompt: string,
+    userPrompt: string,
+    options: Record<string, unknown>,
+    signal: AbortSignal,
+  ): Promise<Response> {
     const messages: OpenAIMessage[] = [
       { role: "system", content: systemPrompt },
       { role: "user", content: userPrompt },
     ];
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
     const response = await fetch(this.baseURL, {
       method: "POST",
-      signal: controller.signal,
+      signal,
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
@@ -55,16 +169,15 @@ export class OpenAIProvider implements IAIProvider {
         messages,
         temperature: this.temperature,
         max_tokens: this.maxTokens,
+        ...options,
       }),
-    }).finally(() => clearTimeout(timeoutId));
+    });
 
     if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText} ${errorBody}`);
+      throw await createApiError("OpenAI", response);
     }
 
-    const data = (await response.json()) as OpenAIResponse;
-    return data.choices[0]?.message?.content || "";
+    return response;
   }
 
   isAvailable(): boolean {
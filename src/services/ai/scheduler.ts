@@ -0,0 +1,162 @@
+/**
+ * Work-queue scheduler for AI calls: keeps up to `maxConcurrency` tasks in flight,
+ * starting the next one as soon as any finishes. Rate limits (HTTP 429) halve the
+ * concurrency and hold back new tasks for the wait the provider asked for; each
+ * run of successes as long as the current limit grows it back by one.
+ */
+
+import { DEFAULT_MAX_RETRY_AFTER_MS } from "../../utils/retry.js";
+
+export interface SchedulerStats {
+  tasks: number;
+  /** Concurrency limit requested, reached at its lowest, and at the end of the run */
+  maxConcurrency: number;
+  minConcurrency: number;
+  finalConcurrency: number;
+  /** Most tasks in flight at once */
+  peakInFlight: number;
+  /** Rate-limit responses reported by tasks */
+  rateLimited: number;
+  /** Time new tasks were held back for `Retry-After` */
+  pausedMs: number;
+}
+
+/** Several in-flight calls usually hit the same limit together; count them as one */
+const DECREASE_COOLDOWN_MS = 1000;
+
+/**
+ * @param maxPauseMs Longest `Retry-After` pause; `withRetry` gives up on longer waits
+ *                   so the fallback chain can answer, and the queue must not stall for them
+ */
+export const createScheduler = (
+  maxConcurrency: number,
+  maxPauseMs: number = DEFAULT_MAX_RETRY_AFTER_MS,
+) => {
+  const max = Math.max(1, Math.floor(maxConcurrency));
+  let limit = max;
+  let lowest = max;
+  let inFlight = 0;
+  let peakInFlight = 0;
+  let tasks = 0;
+  let rateLimited = 0;
+  let successes = 0;
+  let lastDecreaseAt = -Infinity;
+  let pauseUntil = 0;
+  let pausedMs = 0;
+
+  const recordSuccess = (): void => {
+    successes += 1;
+    if (successes >= limit && limit < max) {
+      limit += 1;
+      successes = 0;
+    }
+  };
+
+  return {
+    /**
+     * Report a rate-limit response. Shrinks the concurrency (at most once per
+     * second) and pauses new tasks for `retryAfterMs`, at most `maxPauseMs`.
+     */
+    rateLimited: (retryAfterMs?: number): void => {
+      const now = Date.now();
+      rateLimited += 1;
+      successes = 0;
+      if (now - lastDecreaseAt >= DECREASE_COOLDOWN_MS) {
+        limit = Math.max(1, Math.ceil(limit / 2));
+        lowest = Math.min(lowest, limit);
+        lastDecreaseAt = now;
+      }
+      if (retryAfterMs !== undefined && retryAfterMs > 0) {
+        pauseUntil = Math.max(pauseUntil, now + Math.min(retryAfterMs, maxPauseMs));
+      }
+    },
+
+    /**
+     * Run `taskList`, settling like `Promise.allSettled` (results in input order).
+     * `onSettled` is called as each task finishes.
+     */
+    run: <T>(
+      taskList: Array<() => Promise<T>>,
+      onSettled?: (result: PromiseSettledResult<T>, index: number) => void,
+    ): Promise<Array<PromiseSettledResult<T>>> =>
+      new Promise((resolve) => {
+        const results: Array<PromiseSettledResult<T>> = new Array(taskList.length);
+        let next = 0;
+        let settled = 0;
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        tasks += taskList.length;
+        if (taskList.length === 0) {
+          resolve(results);
+          return;
+        }
+
+        const settle = (result: PromiseSettledResult<T>, index: number): void => {
+          inFlight -= 1;
+          settled += 1;
+          results[index] = result;
+          if (result.status === "fulfilled") recordSuccess();
+          onSettled?.(result, index);
+          if (settled === taskList.length) {
+            resolve(results);
+          } else {
+            pump();
+          }
+        };
+
+        const pump = (): void => {
+          while (inFlight < limit && next < taskList.length) {
+            const wait = pauseUntil - Date.now();
+            if (wait > 0) {
+              if (!timer) {
+                const pausedAt = Date.now();
+                timer = setTimeout(() => {
+                  timer = null;
+                  pausedMs += Date.now() - pausedAt;
+                  pump();
+                }, wait);
+              }
+              return;
+            }
+
+            const index = next;
+            const task = taskList[index] as () => Promise<T>;
+            next += 1;
+            inFlight += 1;
+            peakInFlight = Math.max(peakInFlight, inFlight);
+            Promise.resolve()
+              .then(task)
+              .then(
+                (value) => settle({ status: "fulfilled", value }, index),
+                (reason: unknown) => settle({ status: "rejected", reason }, index),
+              );
+          }
+        };
+
+        pump();
+      }),
+
+    stats: (): SchedulerStats => ({
+      tasks,
+      maxConcurrency: max,
+      minConcurrency: lowest,
+      finalConcurrency: limit,
+      peakInFlight,
+      rateLimited,
+      pausedMs,
+    }),
+  };
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
+
+/** One-line summary for verbose output */
+export const formatSchedulerStats = (stats: SchedulerStats): string => {
+  const concurrency =
+    stats.minConcurrency < stats.maxConcurrency
+      ? `concurrency ${stats.maxConcurrency} → ${stats.minConcurrency} → ${stats.finalConcurrency}`
+      : `concurrency ${stats.maxConcurrency}`;
+  return (
+    `Scheduler: ${stats.tasks} task(s), ${concurrency}, peak ${stats.peakInFlight} in flight, ` +
+    `${stats.rateLimited} rate limit(s), ${(stats.pausedMs / 1000).toFixed(1)}s paused`
+  );
+};
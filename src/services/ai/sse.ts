@@ -0,0 +1,99 @@
+/**
+ * Server-Sent Events helpers for streaming provider responses
+ * Reference: https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+
+export interface ServerSentEvent {
+  /** Event type; "message" when the stream sets none */
+  event: string;
+  data: string;
+}
+
+/**
+ * Parse an SSE response body into events. Comments and `id`/`retry` fields are ignored.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+
+  const dispatch = (): ServerSentEvent | null => {
+    const result = data.length > 0 ? { event: event || "message", data: data.join("\n") } : null;
+    event = "";
+    data = [];
+    return result;
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // The last element is an incomplete line unless the stream ended
+      buffer = done ? "" : (lines.pop() ?? "");
+
+      for (const line of lines) {
+        if (line === "") {
+          const next = dispatch();
+          if (next) yield next;
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+
+        const separator = line.indexOf(":");
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+        if (field === "event") event = value;
+        else if (field === "data") data.push(value);
+      }
+
+      if (done) {
+        const last = dispatch();
+        if (last) yield last;
+        return;
+      }
+    }
+  } finally {
+    // Closes the connection when the consumer stops early
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+export interface IdleTimeout {
+  /** Aborts after `timeoutMs` without `touch()`, or when the parent signal aborts */
+  signal: AbortSignal;
+  /** Restart the idle timer (call on every received chunk) */
+  touch(): void;
+  clear(): void;
+}
+
+/**
+ * Streams stay alive while tokens arrive: the timeout applies between chunks,
+ * not to the whole generation.
+ */
+export const createIdleTimeout = (timeoutMs: number, parent?: AbortSignal): IdleTimeout => {
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  // Forward the parent's reason so callers can tell a run deadline from an idle stall
+  const onParentAbort = (): void => controller.abort(parent?.reason);
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener("abort", onParentAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    touch: () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    },
+    clear: () => {
+      clearTimeout(timeoutId);
+      parent?.removeEventListener("abort", onParentAbort);
+    },
+  };
+};
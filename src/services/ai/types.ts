@@ -2,21 +2,138 @@
  * AI Provider types and interfaces
  */
 
-export type AIProvider = "gemini" | "openai" | "anthropic";
+import type { StructuredOutputSchema } from "../../config/audit-schema.js";
+import type { TokenUsage } from "../../types/index.js";
+
+export type AIProvider =
+  | "gemini"
+  | "openai"
+  | "anthropic"
+  | "openai-compatible"
+  | "azure-openai"
+  | "bedrock";
+
+export interface AWSCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Set for temporary (STS) credentials */
+  sessionToken?: string;
+}
 
 export interface AIModelConfig {
   provider: AIProvider;
+  /**
+   * Model name. Azure OpenAI: the deployment name. Bedrock: the model or inference
+   * profile ID. Empty for providers that discover their model at runtime (openai-compatible).
+   */
   model: string;
+  /** Empty for providers that do not require a key (openai-compatible, bedrock) */
   apiKey: string;
+  /**
+   * API root for self-hosted providers (e.g. http://localhost:11434/v1),
+   * the Azure OpenAI resource endpoint, or a Bedrock runtime endpoint override
+   */
+  baseURL?: string;
+  /** Azure OpenAI `api-version` query parameter */
+  apiVersion?: string;
+  /** AWS region (bedrock) */
+  region?: string;
+  /** AWS credentials used for SigV4 signing (bedrock) */
+  credentials?: AWSCredentials;
   temperature?: number;
   maxTokens?: number;
 }
 
+export interface GenerateOptions {
+  /** Receives the token usage reported by the API, once per successful request */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface StreamOptions extends GenerateOptions {
+  /** Cancels the stream, e.g. when the overall review deadline passes */
+  signal?: AbortSignal;
+}
+
 export interface IAIProvider {
-  generateContent(systemPrompt: string, userPrompt: string): Promise<string>;
+  generateContent(
+    systemPrompt: string,
+    userPrompt: string,
+    options?: GenerateOptions,
+  ): Promise<string>;
   isAvailable(): boolean;
+  /** Resolve the model actually used (providers with model discovery) */
+  resolveModel?(): Promise<string>;
+  /**
+   * Generate a response constrained to `schema` by the provider's native
+   * structured-output mode. Returns the JSON text.
+   */
+  generateStructuredContent?(
+    systemPrompt: string,
+    userPrompt: string,
+    schema: StructuredOutputSchema,
+    options?: GenerateOptions,
+  ): Promise<string>;
+  /**
+   * Stream the response as text deltas (SSE). `AI_TIMEOUT_MS` applies between
+   * chunks rather than to the whole generation.
+   */
+  generateContentStream?(
+    systemPrompt: string,
+    userPrompt: string,
+    options?: StreamOptions,
+  ): AsyncIterable<string>;
 }
 
 export interface AIProviderFactory {
   createProvider(config: AIModelConfig): IAIProvider;
 }
+
+/**
+ * Retention limits applied by cache backends on read and prune
+ */
+export interface CacheLimits {
+  /** Entries written longer ago than this are expired */
+  ttlMs?: number;
+  /** Least recently used entries are evicted beyond this count */
+  maxEntries?: number;
+  /** Least recently used entries are evicted beyond this total size */
+  maxBytes?: number;
+}
+
+export interface CacheStats {
+  backend: string;
+  /** Directory or file holding the entries */
+  location: string;
+  entries: number;
+  bytes: number;
+  /** Entries past the TTL, removed by the next prune */
+  expired: number;
+  /** Write time of the oldest and newest entry (epoch ms) */
+  oldest?: number;
+  newest?: number;
+}
+
+export interface CachePruneResult {
+  /** Entries removed because they were past the TTL */
+  expired: number;
+  /** Entries removed to get within `maxEntries` / `maxBytes` */
+  evicted: number;
+  remaining: number;
+  bytes: number;
+}
+
+/**
+ * Storage for serialized audit results. Values are opaque strings; callers
+ * validate what they read back.
+ */
+export interface ICacheBackend {
+  readonly name: string;
+  /** Stored value, or null when missing or expired */
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  stats(): Promise<CacheStats>;
+  /** Remove expired entries, then evict least recently used ones over the limits */
+  prune(): Promise<CachePruneResult>;
+  /** Remove every entry; returns how many were removed */
+  clear(): Promise<number>;
+}
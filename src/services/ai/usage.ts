@@ -0,0 +1,185 @@
+/**
+ * Token usage accounting: per file and provider during a run, then per review,
+ * plus the run budget that stops AI calls at a token or cost ceiling
+ */
+
+import type {
+  FileAuditResult,
+  FileUsage,
+  ModelPricing,
+  ProviderUsage,
+  ReviewUsage,
+  RunBudget,
+  TokenUsage,
+} from "../../types/index.js";
+import { estimateCost, resolveModelPricing } from "../../config/pricing.js";
+
+export interface UsageSource {
+  provider: string;
+  model: string;
+}
+
+const sourceKey = (source: UsageSource): string => `${source.provider}/${source.model}`;
+
+/**
+ * Add `entry` into `totals`, keyed by provider and model
+ */
+const mergeProviderUsage = (totals: Map<string, ProviderUsage>, entry: ProviderUsage): void => {
+  const key = sourceKey(entry);
+  const current = totals.get(key);
+  if (!current) {
+    totals.set(key, { ...entry });
+    return;
+  }
+
+  current.promptTokens += entry.promptTokens;
+  current.completionTokens += entry.completionTokens;
+  current.requests += entry.requests;
+  if (entry.estimatedCost !== undefined) {
+    current.estimatedCost = (current.estimatedCost ?? 0) + entry.estimatedCost;
+  }
+};
+
+/**
+ * Collects the usage reported while auditing one file (retries and fallbacks included)
+ */
+export const createUsageRecorder = () => {
+  const totals = new Map<string, ProviderUsage>();
+
+  return {
+    record: (source: UsageSource, usage: TokenUsage): void => {
+      mergeProviderUsage(totals, { ...source, ...usage, requests: 1 });
+    },
+    /** Per-provider usage with costs from the price table */
+    entries: (pricing?: Record<string, ModelPricing>): ProviderUsage[] =>
+      [...totals.values()].map((entry) => {
+        const price = resolveModelPricing(entry.model, pricing);
+        return price ? { ...entry, estimatedCost: estimateCost(entry, price) } : entry;
+      }),
+  };
+};
+
+/**
+ * Share a batched prompt's usage across its files, proportionally to `weights`
+ * (content length). Token totals are preserved; requests count on the first file.
+ */
+export const splitUsage = (entries: ProviderUsage[], weights: number[]): ProviderUsage[][] => {
+  if (weights.length <= 1) return [entries];
+
+  const total = weights.reduce((acc, weight) => acc + weight, 0);
+  const shares = weights.map((weight) => (total > 0 ? weight / total : 1 / weights.length));
+  const last = weights.length - 1;
+
+  return shares.map((share, index) =>
+    entries.map((entry) => {
+      // Earlier files get rounded-down shares; the last file takes the remainder
+      const portion = (tokens: number): number =>
+        index === last
+          ? tokens - shares.slice(0, last).reduce((acc, s) => acc + Math.floor(tokens * s), 0)
+          : Math.floor(tokens * share);
+
+      return {
+        ...entry,
+        promptTokens: portion(entry.promptTokens),
+        completionTokens: portion(entry.completionTokens),
+        requests: index === 0 ? entry.requests : 0,
+        ...(entry.estimatedCost !== undefined && { estimatedCost: entry.estimatedCost * share }),
+      };
+    }),
+  );
+};
+
+const hasLimit = (budget: RunBudget): boolean =>
+  budget.maxTokens !== undefined || budget.maxCost !== undefined;
+
+/**
+ * Tracks spending against the run budget. Usage is known only when a file's
+ * requests finish, so calls already in flight can overshoot a limit.
+ */
+export const createBudgetTracker = (budget: RunBudget) => {
+  let usedTokens = 0;
+  let usedCost = 0;
+
+  return {
+    add: (entries: ProviderUsage[]): void => {
+      for (const entry of entries) {
+        usedTokens += entry.promptTokens + entry.completionTokens;
+        usedCost += entry.estimatedCost ?? 0;
+      }
+    },
+    /** Skip reason once a limit is reached, otherwise null */
+    exhaustedReason: (): string | null => {
+      if (budget.maxTokens !== undefined && usedTokens >= budget.maxTokens) {
+        return (
+          `AI budget exhausted: ${usedTokens.toLocaleString()} of ` +
+          `${budget.maxTokens.toLocaleString()} tokens used (ai.maxTokensPerRun)`
+        );
+      }
+      if (budget.maxCost !== undefined && usedCost >= budget.maxCost) {
+        return (
+          `AI budget exhausted: $${usedCost.toFixed(4)} of ` +
+          `$${budget.maxCost.toFixed(2)} used (ai.maxCostPerRun)`
+        );
+      }
+      return null;
+    },
+  };
+};
+
+/**
+ * Aggregate file-level usage into the report's usage section. With a budget,
+ * the section also reports how much of it was spent.
+ */
+export const summarizeUsage = (
+  results: FileAuditResult[],
+  budget: RunBudget & { skippedFiles?: number } = {},
+): ReviewUsage => {
+  const byProvider = new Map<string, ProviderUsage>();
+  const byFile: FileUsage[] = [];
+
+  for (const result of results) {
+    if (!result.usage || result.usage.length === 0) continue;
+
+    const file: FileUsage = { path: result.filePath, promptTokens: 0, completionTokens: 0 };
+    for (const entry of result.usage) {
+      mergeProviderUsage(byProvider, entry);
+      file.promptTokens += entry.promptTokens;
+      file.completionTokens += entry.completionTokens;
+      if (entry.estimatedCost !== undefined) {
+        file.estimatedCost = (file.estimatedCost ?? 0) + entry.estimatedCost;
+      }
+    }
+    byFile.push(file);
+  }
+
+  const providers = [...byProvider.values()];
+  const promptTokens = providers.reduce((acc, entry) => acc + entry.promptTokens, 0);
+  const completionTokens = providers.reduce((acc, entry) => acc + entry.completionTokens, 0);
+  const totalTokens = promptTokens + completionTokens;
+  const estimatedCost = providers.reduce((acc, entry) => acc + (entry.estimatedCost ?? 0), 0);
+  const { skippedFiles = 0, ...limits } = budget;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    estimatedCost,
+    unpricedModels: providers
+      .filter((entry) => entry.estimatedCost === undefined)
+      .map((entry) => sourceKey(entry)),
+    byProvider: providers,
+    byFile,
+    ...(hasLimit(limits) && {
+      budget: {
+        ...limits,
+        usedTokens: totalTokens,
+        usedCost: estimatedCost,
+        exhausted:
+          skippedFiles > 0 ||
+          (limits.maxTokens !== undefined && totalTokens >= limits.maxTokens) ||
+          (limits.maxCost !== undefined && estimatedCost >= limits.maxCost),
+        skippedFiles,
+      },
+    }),
+  };
+};
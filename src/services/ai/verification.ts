@@ -0,0 +1,61 @@
+/**
+ * Verification pass: applies the model's verdicts on its own findings, so issues it
+ * cannot confirm against the code are dropped or downgraded
+ */
+
+import type { AuditIssue, AuditResult, IssueVerdict } from "../../types/index.js";
+
+export interface VerificationSettings {
+  /** Confidence an issue needs to count as confirmed */
+  minConfidence: number;
+  unconfirmed: "drop" | "downgrade";
+}
+
+export const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+/** Verdict for issues pointing past the end of the reviewed code */
+export const MISSING_LINE_VERDICT: IssueVerdict = { confirmed: false, confidence: 0 };
+
+const DOWNGRADED_SEVERITY: Record<AuditIssue["severity"], AuditIssue["severity"]> = {
+  CRITICAL: "WARNING",
+  WARNING: "INFO",
+  INFO: "INFO",
+};
+
+/**
+ * Apply verdicts (keyed by issue index) to a result. Confirmed issues at or above
+ * `minConfidence` get their `confidence`; the others are dropped or lowered one
+ * severity level. Issues without a verdict are kept unchanged.
+ */
+export const applyVerification = (
+  result: AuditResult,
+  verdicts: Map<number, IssueVerdict>,
+  settings: VerificationSettings,
+): AuditResult => {
+  const issues: AuditIssue[] = [];
+  (result.issues ?? []).forEach((issue, index) => {
+    const verdict = verdicts.get(index);
+    if (!verdict) {
+      issues.push(issue);
+      return;
+    }
+
+    const { confidence } = verdict;
+    if (verdict.confirmed && confidence >= settings.minConfidence) {
+      issues.push({ ...issue, confidence });
+    } else if (settings.unconfirmed === "downgrade") {
+      issues.push({ ...issue, severity: DOWNGRADED_SEVERITY[issue.severity], confidence });
+    }
+  });
+
+  if (result.status === "FAIL" && issues.length === 0) {
+    return {
+      ...result,
+      status: "PASS",
+      issues,
+      message: "All reported issues were rejected by verification",
+    };
+  }
+
+  return { ...result, issues };
+};
@@ -0,0 +1,133 @@
+/**
+ * Publish the review outcome as a check run through the detected git provider.
+ */
+
+import type { AuditIssue, ReviewReport } from "../types/index.js";
+import { formatMarkdownReport } from "../formatters/report.js";
+import { resolveIssueRuleId } from "../formatters/sarif.js";
+import { log } from "../utils/logger.js";
+import type {
+  CheckAnnotation,
+  CheckRunConclusion,
+  CheckRunReport,
+  CommitStatusState,
+} from "./git-provider/types.js";
+
+export const DEFAULT_CHECK_RUN_NAME = "mp-sentinel";
+
+const CONCLUSIONS: Record<ReviewReport["status"], CheckRunConclusion> = {
+  PASS: "success",
+  FAIL: "failure",
+  // Runtime errors fail the pipeline (exit code 2), so they fail the check as well
+  ERROR: "failure",
+};
+
+const STATUS_STATES: Record<ReviewReport["status"], CommitStatusState> = {
+  PASS: "success",
+  FAIL: "failure",
+  ERROR: "error",
+};
+
+const ANNOTATION_LEVELS: Record<AuditIssue["severity"], CheckAnnotation["level"]> = {
+  CRITICAL: "failure",
+  WARNING: "warning",
+  INFO: "notice",
+};
+
+export interface PublishCheckRunResult {
+  published: boolean;
+  annotations: number;
+}
+
+const buildCheckTitle = (report: ReviewReport): string => {
+  if (report.status === "ERROR") {
+    return `Review error (${report.errors.length} runtime error(s))`;
+  }
+  const { criticalIssues, warningIssues, infoIssues } = report.summary;
+  if (criticalIssues + warningIssues + infoIssues === 0) {
+    return "No issues found";
+  }
+  return `${criticalIssues} critical, ${warningIssues} warning, ${infoIssues} info`;
+};
+
+/**
+ * Map a review report onto a check run: status → conclusion, each anchored
+ * issue → annotation, and the markdown report as the summary.
+ * Unanchored issues stay in the summary only, since their line is unverified.
+ */
+export const buildCheckRunReport = (
+  report: ReviewReport,
+  name: string = DEFAULT_CHECK_RUN_NAME,
+): CheckRunReport => {
+  const annotations: CheckAnnotation[] = report.results.flatMap((entry) =>
+    (entry.result.issues ?? [])
+      .filter((issue) => issue.anchored !== false)
+      .map((issue) => ({
+        path: entry.filePath,
+        startLine: Math.max(1, issue.line),
+        endLine: Math.max(1, issue.line),
+        level: ANNOTATION_LEVELS[issue.severity],
+        title: resolveIssueRuleId(issue),
+        message: issue.suggestion
+          ? `${issue.message}\n\nSuggestion: ${issue.suggestion}`
+          : issue.message,
+      })),
+  );
+
+  return {
+    name,
+    conclusion: CONCLUSIONS[report.status],
+    title: buildCheckTitle(report),
+    summary: formatMarkdownReport(report),
+    annotations,
+  };
+};
+
+/**
+ * Create or update the review check run for the current CI run. Providers
+ * without a Checks API get a commit status with the same name instead.
+ * Never throws — check publishing failures must not change the review outcome.
+ */
+export const publishCheckRun = async (
+  report: ReviewReport,
+  name: string = DEFAULT_CHECK_RUN_NAME,
+  /** Built-in (`gitProvider` config) or registered provider name; detected when omitted */
+  gitProviderName?: string,
+): Promise<PublishCheckRunResult> => {
+  // Lazy-load provider code: most runs never publish checks
+  const { getGitProvider } = await import("./git-provider/index.js");
+  const gitProvider = getGitProvider(gitProviderName);
+
+  if (!gitProvider?.publishCheckRun && !gitProvider?.setStatus) {
+    log.warning("--check-run: no supported CI context detected. Skipping check run.");
+    return { published: false, annotations: 0 };
+  }
+  // A configured provider outside its CI context (e.g. a local run) has nowhere to publish
+  if (!gitProvider.isAvailable()) {
+    return { published: false, annotations: 0 };
+  }
+
+  const check = buildCheckRunReport(report, name);
+
+  try {
+    if (gitProvider.publishCheckRun) {
+      await gitProvider.publishCheckRun(check);
+      log.info(
+        `Published check run "${check.name}" (${check.conclusion}, ${check.annotations.length} annotation(s))`,
+      );
+      return { published: true, annotations: check.annotations.length };
+    }
+
+    await gitProvider.setStatus?.({
+      state: STATUS_STATES[report.status],
+      context: check.name,
+      description: check.title,
+    });
+    log.info(`Set commit status "${check.name}" (${STATUS_STATES[report.status]})`);
+    return { published: true, annotations: 0 };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log.error(`Failed to publish check run: ${msg}`);
+    return { published: false, annotations: 0 };
+  }
+};
@@ -0,0 +1,233 @@
+/**
+ * Comment fingerprinting and cross-run synchronization.
+ *
+ * Every comment carries a hidden marker with a stable fingerprint so later
+ * pipeline runs can update, remove or skip it instead of posting duplicates.
+ */
+
+import { createHash } from "node:crypto";
+import type { AuditIssue } from "../../types/index.js";
+import { resolveIssueRuleId } from "../../formatters/sarif.js";
+import { log } from "../../utils/logger.js";
+import type {
+  CommentSyncResult,
+  ExistingComment,
+  GitProvider,
+  ReviewComment,
+  ReviewSubmission,
+} from "./types.js";
+
+const FINGERPRINT_LENGTH = 16;
+const FINGERPRINT_MARKER_PATTERN = /<!-- mp-sentinel:fingerprint=([a-f0-9]+) -->/;
+const SUMMARY_MARKER = "<!-- mp-sentinel:summary -->";
+
+export interface CommentSyncPlan {
+  create: ReviewComment[];
+  update: Array<{ existing: ExistingComment; comment: ReviewComment }>;
+  unchanged: Array<{ existing: ExistingComment; comment: ReviewComment }>;
+  remove: ExistingComment[];
+}
+
+/**
+ * Normalize a message so cosmetic model variations keep the same fingerprint:
+ * case, whitespace, numbers (line references) and trailing punctuation.
+ */
+export const normalizeIssueMessage = (message: string): string =>
+  message
+    .toLowerCase()
+    .replace(/\d+/g, "#")
+    .replace(/\s+/g, " ")
+    .replace(/[.!?:;,\s]+$/, "")
+    .trim();
+
+export const buildIssueFingerprint = (filePath: string, issue: AuditIssue): string =>
+  createHash("sha256")
+    .update([filePath, resolveIssueRuleId(issue), normalizeIssueMessage(issue.message)].join("::"))
+    .digest("hex")
+    .slice(0, FINGERPRINT_LENGTH);
+
+export const buildFingerprintMarker = (fingerprint: string): string =>
+  `<!-- mp-sentinel:fingerprint=${fingerprint} -->`;
+
+export const extractFingerprint = (body: string): string | null =>
+  FINGERPRINT_MARKER_PATTERN.exec(body)?.[1] ?? null;
+
+/**
+ * Mark a summary comment body so later runs update it instead of posting another.
+ */
+export const withSummaryMarker = (body: string): string => `${body}\n\n${SUMMARY_MARKER}`;
+
+export const isSummaryComment = (body: string): boolean => body.includes(SUMMARY_MARKER);
+
+export const buildCommentBody = (issue: AuditIssue, fingerprint: string): string =>
+  `**MP Sentinel Audit Issue**\n\nSeverity: ${issue.severity}\nMessage: ${issue.message}\nSuggestion: ${issue.suggestion || "None"}\n\n${buildFingerprintMarker(fingerprint)}`;
+
+/**
+ * Build fingerprinted comments. Repeated findings in one file get an
+ * occurrence suffix so each keeps its own comment.
+ */
+export const buildReviewComments = (
+  entries: Array<{ filePath: string; issue: AuditIssue }>,
+): ReviewComment[] => {
+  const occurrences = new Map<string, number>();
+
+  return entries.map(({ filePath, issue }) => {
+    const base = buildIssueFingerprint(filePath, issue);
+    const count = (occurrences.get(base) ?? 0) + 1;
+    occurrences.set(base, count);
+    const fingerprint =
+      count === 1
+        ? base
+        : createHash("sha256")
+            .update(`${base}#${count}`)
+            .digest("hex")
+            .slice(0, FINGERPRINT_LENGTH);
+
+    return {
+      filePath,
+      line: issue.line,
+      issue,
+      fingerprint,
+      body: buildCommentBody(issue, fingerprint),
+    };
+  });
+};
+
+/** The finding is now anchored elsewhere than its comment (when the provider reports where) */
+const hasMoved = (existing: ExistingComment, comment: ReviewComment): boolean =>
+  (existing.filePath !== undefined && existing.filePath !== comment.filePath) ||
+  (existing.line !== undefined && existing.line !== comment.line);
+
+/**
+ * Diff desired comments against those already on the PR/MR. With `reviewedFiles`, only
+ * comments on those files are removed: a file that errored or was skipped says nothing
+ * about whether its findings were fixed.
+ *
+ * A resolved thread stays resolved, even for a finding that is still reported, unless the
+ * finding's content (the comment body) changed: then it is updated, which re-opens it. A
+ * finding whose line or file moved is posted again at its new position and the old
+ * comment is removed.
+ */
+export const planCommentSync = (
+  desired: ReviewComment[],
+  existing: ExistingComment[],
+  reviewedFiles?: ReadonlySet<string>,
+): CommentSyncPlan => {
+  const existingByFingerprint = new Map(existing.map((entry) => [entry.fingerprint, entry]));
+  const desiredFingerprints = new Set(desired.map((comment) => comment.fingerprint));
+  const plan: CommentSyncPlan = { create: [], update: [], unchanged: [], remove: [] };
+
+  for (const comment of desired) {
+    const match = existingByFingerprint.get(comment.fingerprint);
+    if (!match) {
+      plan.create.push(comment);
+      continue;
+    }
+
+    const sameBody = match.body.trim() === comment.body.trim();
+    if (match.resolved === true && sameBody) {
+      // e.g. resolved as "won't fix": the reviewer's decision stands
+      plan.unchanged.push({ existing: match, comment });
+    } else if (hasMoved(match, comment)) {
+      plan.create.push(comment);
+      plan.remove.push(match);
+    } else if (sameBody) {
+      plan.unchanged.push({ existing: match, comment });
+    } else {
+      plan.update.push({ existing: match, comment });
+    }
+  }
+
+  for (const entry of existing) {
+    const reviewed =
+      !reviewedFiles || (entry.filePath !== undefined && reviewedFiles.has(entry.filePath));
+    if (!desiredFingerprints.has(entry.fingerprint) && entry.resolved !== true && reviewed) {
+      plan.remove.push(entry);
+    }
+  }
+
+  return plan;
+};
+
+/**
+ * Reconcile the PR/MR comments with the current findings.
+ * New comments go out as one batched review when the provider supports it and
+ * a `submission` is given; a passing submission dismisses change requests of earlier
+ * runs. Outdated comments are removed only on `reviewedFiles` (see `planCommentSync`).
+ * Individual API failures are logged and counted, never thrown.
+ */
+export const syncReviewComments = async (
+  provider: GitProvider,
+  desired: ReviewComment[],
+  submission?: ReviewSubmission,
+  reviewedFiles?: ReadonlySet<string>,
+): Promise<CommentSyncResult> => {
+  const result: CommentSyncResult = { created: 0, updated: 0, unchanged: 0, removed: 0, failed: 0 };
+
+  let existing: ExistingComment[] = [];
+  try {
+    existing = await provider.listComments();
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log.warning(`Could not list existing comments (${msg}). Only new comments will be posted.`);
+  }
+
+  const plan = planCommentSync(desired, existing, reviewedFiles);
+  result.unchanged = plan.unchanged.length;
+
+  const run = async (label: string, action: () => Promise<void>): Promise<boolean> => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      log.error(`Failed to ${label}: ${msg}`);
+      result.failed++;
+      return false;
+    }
+  };
+
+  let pending = plan.create;
+  if (pending.length > 0 && submission && provider.submitReview) {
+    try {
+      await provider.submitReview(pending, submission);
+      result.created += pending.length;
+      pending = [];
+    } catch (error) {
+      // One rejected comment (e.g. a line GitHub does not consider part of the diff)
+      // fails the whole review, so fall back to posting comments one by one
+      const msg = error instanceof Error ? error.message : String(error);
+      log.warning(`Batched review was rejected (${msg}). Posting comments individually.`);
+    }
+  }
+
+  for (const comment of pending) {
+    const ok = await run(`post comment on ${comment.filePath}:${comment.line}`, () =>
+      provider.createComment(comment),
+    );
+    if (ok) result.created++;
+  }
+
+  for (const { existing: match, comment } of plan.update) {
+    const ok = await run(`update comment on ${comment.filePath}:${comment.line}`, () =>
+      provider.updateComment(match, comment),
+    );
+    if (ok) result.updated++;
+  }
+
+  for (const stale of plan.remove) {
+    const ok = await run(`remove outdated comment ${stale.id}`, () =>
+      provider.removeComment(stale),
+    );
+    if (ok) result.removed++;
+  }
+
+  if (submission?.passed && provider.dismissChangeRequests) {
+    await run("dismiss earlier change requests", async () => {
+      const dismissed = (await provider.dismissChangeRequests?.("MP Sentinel review passed")) ?? 0;
+      if (dismissed > 0) log.info(`Dismissed ${dismissed} earlier change request(s).`);
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,124 @@
+/**
+ * Git provider service - PR/MR integration for CI/CD pipelines
+ * Supports: GitHub Actions, GitLab CI, Bitbucket Pipelines, Azure Pipelines
+ * Features: fingerprinted inline comments that are updated across pipeline runs
+ */
+
+import { log } from "../../utils/logger.js";
+import type { GitProvider, GitProviderName, GitProviderRegistration } from "./types.js";
+import { GitHubProvider } from "./providers/github.provider.js";
+import { GitLabProvider } from "./providers/gitlab.provider.js";
+import { BitbucketProvider } from "./providers/bitbucket.provider.js";
+import { AzureDevOpsProvider } from "./providers/azure-devops.provider.js";
+
+type BuiltInRegistration = GitProviderRegistration & { name: GitProviderName };
+
+const BUILT_IN_PROVIDERS: readonly BuiltInRegistration[] = [
+  {
+    name: "github",
+    detect: () => !!(process.env.GITHUB_ACTIONS && process.env.GITHUB_TOKEN),
+    create: () => new GitHubProvider(),
+  },
+  {
+    name: "gitlab",
+    detect: () =>
+      !!(process.env.GITLAB_CI && (process.env.GITLAB_TOKEN || process.env.CI_JOB_TOKEN)),
+    create: () => new GitLabProvider(),
+  },
+  {
+    name: "bitbucket",
+    detect: () =>
+      !!(
+        process.env.BITBUCKET_BUILD_NUMBER &&
+        (process.env.BITBUCKET_TOKEN || process.env.BITBUCKET_APP_PASSWORD)
+      ),
+    create: () => new BitbucketProvider(),
+  },
+  {
+    name: "azure-devops",
+    detect: () => !!(process.env.TF_BUILD && process.env.SYSTEM_ACCESSTOKEN),
+    create: () => new AzureDevOpsProvider(),
+  },
+];
+
+/** Custom providers, most recently registered first */
+const customProviders: GitProviderRegistration[] = [];
+
+/**
+ * Plug in a custom git provider. Custom providers are detected before the
+ * built-in ones; registering an existing name replaces that registration.
+ */
+export const registerGitProvider = (registration: GitProviderRegistration): void => {
+  unregisterGitProvider(registration.name);
+  customProviders.unshift(registration);
+};
+
+/**
+ * Remove a custom provider. Returns false when no provider had that name.
+ */
+export const unregisterGitProvider = (name: string): boolean => {
+  const index = customProviders.findIndex((entry) => entry.name === name);
+  if (index === -1) return false;
+  customProviders.splice(index, 1);
+  return true;
+};
+
+/**
+ * Provider names in detection order (custom first, then built-in)
+ */
+export const getRegisteredGitProviders = (): string[] =>
+  [...customProviders, ...BUILT_IN_PROVIDERS].map((entry) => entry.name);
+
+/**
+ * Detect the git provider from CI environment variables.
+ * A `preferred` provider (config `gitProvider` or a registered name) skips detection;
+ * an unknown name is reported and resolves to no provider.
+ */
+export const getGitProvider = (preferred?: string): GitProvider | null => {
+  const registrations = [...customProviders, ...BUILT_IN_PROVIDERS];
+
+  if (preferred) {
+    const registration = registrations.find((entry) => entry.name === preferred);
+    if (!registration) {
+      log.warning(
+        `Unknown git provider "${preferred}". Registered providers: ${registrations
+          .map((entry) => entry.name)
+          .join(", ")}`,
+      );
+      return null;
+    }
+    return registration.create();
+  }
+
+  return registrations.find((entry) => entry.detect())?.create() ?? null;
+};
+
+export {
+  normalizeIssueMessage,
+  buildIssueFingerprint,
+  buildFingerprintMarker,
+  extractFingerprint,
+  buildCommentBody,
+  buildReviewComments,
+  planCommentSync,
+  syncReviewComments,
+  withSummaryMarker,
+  isSummaryComment,
+} from "./comments.js";
+export { GitHubProvider, GitLabProvider, BitbucketProvider, AzureDevOpsProvider };
+
+export type { CommentSyncPlan } from "./comments.js";
+export type {
+  GitProvider,
+  GitProviderName,
+  GitProviderRegistration,
+  CommitStatus,
+  CommitStatusState,
+  CheckAnnotation,
+  CheckRunConclusion,
+  CheckRunReport,
+  ReviewComment,
+  ReviewSubmission,
+  ExistingComment,
+  CommentSyncResult,
+} from "./types.js";
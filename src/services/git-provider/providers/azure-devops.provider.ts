@@ -0,0 +1,207 @@
+/**
+ * Azure DevOps Pull Request provider (Azure Pipelines)
+ * Reference: https://learn.microsoft.com/en-us/rest/api/azure/devops/git/pull-request-threads
+ */
+
+import type { AuditIssue } from "../../../types/index.js";
+import { log } from "../../../utils/logger.js";
+import {
+  buildReviewComments,
+  extractFingerprint,
+  isSummaryComment,
+  withSummaryMarker,
+} from "../comments.js";
+import type {
+  CommitStatus,
+  CommitStatusState,
+  ExistingComment,
+  GitProvider,
+  ReviewComment,
+} from "../types.js";
+
+const API_VERSION = "7.1";
+
+/** Thread states that still need attention; every other status counts as resolved */
+const OPEN_THREAD_STATUSES = new Set(["active", "pending"]);
+
+const STATUS_STATES: Record<CommitStatusState, string> = {
+  pending: "pending",
+  success: "succeeded",
+  failure: "failed",
+  error: "error",
+};
+
+interface AzureThread {
+  id: number;
+  status?: string;
+  isDeleted?: boolean;
+  threadContext?: { filePath?: string; rightFileStart?: { line?: number } };
+  comments: Array<{
+    id: number;
+    content?: string;
+    isDeleted?: boolean;
+  }>;
+}
+
+export class AzureDevOpsProvider implements GitProvider {
+  private token: string;
+  private collectionUri: string;
+  private project: string;
+  private repositoryId: string;
+  private prId: number;
+
+  constructor() {
+    // The pipeline must map the job token: `env: { SYSTEM_ACCESSTOKEN: $(System.AccessToken) }`
+    this.token = process.env.SYSTEM_ACCESSTOKEN || "";
+
+    // Azure Pipelines predefined variables
+    this.collectionUri = (process.env.SYSTEM_COLLECTIONURI || "").replace(/\/+$/, "");
+    this.project = process.env.SYSTEM_TEAMPROJECT || "";
+    this.repositoryId = process.env.BUILD_REPOSITORY_ID || "";
+    this.prId = parseInt(process.env.SYSTEM_PULLREQUEST_PULLREQUESTID || "0");
+  }
+
+  isAvailable(): boolean {
+    return !!(this.token && this.collectionUri && this.project && this.repositoryId && this.prId);
+  }
+
+  async postComment(filePath: string, line: number, issue: AuditIssue): Promise<void> {
+    if (!this.isAvailable()) {
+      log.warning("Skipping Azure DevOps comment: Invalid context (Token/Repo/PR missing).");
+      return;
+    }
+
+    const [comment] = buildReviewComments([{ filePath, issue: { ...issue, line } }]);
+    if (!comment) return;
+
+    try {
+      await this.createComment(comment);
+      log.success(`Posted thread on ${filePath}:${line}`);
+    } catch (e) {
+      log.error(`Failed to post to Azure DevOps: ${e}`);
+    }
+  }
+
+  async listComments(): Promise<ExistingComment[]> {
+    const threads = await this.request<{ value: AzureThread[] }>("GET", "/threads");
+    const comments: ExistingComment[] = [];
+
+    for (const thread of threads.value) {
+      const first = thread.comments[0];
+      const fingerprint = first?.content ? extractFingerprint(first.content) : null;
+      if (!first || !fingerprint || thread.isDeleted || first.isDeleted) continue;
+
+      comments.push({
+        id: String(first.id),
+        threadId: String(thread.id),
+        fingerprint,
+        body: first.content ?? "",
+        // Thread paths are repository-rooted ("/src/a.ts")
+        ...(thread.threadContext?.filePath && {
+          filePath: thread.threadContext.filePath.replace(/^\//, ""),
+        }),
+        ...(thread.threadContext?.rightFileStart?.line && {
+          line: thread.threadContext.rightFileStart.line,
+        }),
+        resolved: !OPEN_THREAD_STATUSES.has(thread.status ?? "active"),
+      });
+    }
+
+    return comments;
+  }
+
+  /**
+   * Threads anchor to the right (new) side of the diff; paths are repository-rooted.
+   */
+  async createComment(comment: ReviewComment): Promise<void> {
+    const filePath = comment.filePath.startsWith("/") ? comment.filePath : `/${comment.filePath}`;
+
+    await this.request("POST", "/threads", {
+      comments: [{ parentCommentId: 0, content: comment.body, commentType: "text" }],
+      status: "active",
+      threadContext: {
+        filePath,
+        rightFileStart: { line: comment.line, offset: 1 },
+        rightFileEnd: { line: comment.line, offset: 1 },
+      },
+    });
+  }
+
+  async updateComment(existing: ExistingComment, comment: ReviewComment): Promise<void> {
+    await this.request("PATCH", `/threads/${existing.threadId}/comments/${existing.id}`, {
+      content: comment.body,
+    });
+    // Only findings whose content changed are updated (see `planCommentSync`), so a
+    // resolved thread re-opens for a changed finding only
+    if (existing.resolved) {
+      await this.request("PATCH", `/threads/${existing.threadId}`, { status: "active" });
+    }
+  }
+
+  /**
+   * Fixed findings are resolved rather than deleted to keep the review history.
+   */
+  async removeComment(existing: ExistingComment): Promise<void> {
+    await this.request("PATCH", `/threads/${existing.threadId}`, { status: "fixed" });
+  }
+
+  /**
+   * Summaries are file-less threads, updated in place on later runs. The thread is
+   * created closed so it never blocks "all comments resolved" branch policies.
+   */
+  async postSummary(body: string): Promise<void> {
+    const threads = await this.request<{ value: AzureThread[] }>("GET", "/threads");
+    const existing = threads.value.find(
+      (thread) =>
+        !thread.isDeleted &&
+        !thread.threadContext &&
+        isSummaryComment(thread.comments[0]?.content ?? ""),
+    );
+    const content = withSummaryMarker(body);
+    const first = existing?.comments[0];
+
+    if (existing && first) {
+      await this.request("PATCH", `/threads/${existing.id}/comments/${first.id}`, { content });
+    } else {
+      await this.request("POST", "/threads", {
+        comments: [{ parentCommentId: 0, content, commentType: "text" }],
+        status: "closed",
+      });
+    }
+  }
+
+  /**
+   * Pull request statuses can be required by branch policies.
+   * Reference: https://learn.microsoft.com/en-us/rest/api/azure/devops/git/pull-request-statuses
+   */
+  async setStatus(status: CommitStatus): Promise<void> {
+    await this.request("POST", "/statuses", {
+      state: STATUS_STATES[status.state],
+      description: status.description,
+      context: { name: status.context, genre: "mp-sentinel" },
+      ...(status.targetUrl && { targetUrl: status.targetUrl }),
+    });
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = `${this.collectionUri}/${encodeURIComponent(this.project)}/_apis/git/repositories/${this.repositoryId}/pullRequests/${this.prId}${path}?api-version=${API_VERSION}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`Azure DevOps API error: ${response.status} ${response.statusText} ${err}`);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+}
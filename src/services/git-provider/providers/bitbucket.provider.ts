@@ -0,0 +1,213 @@
+/**
+ * Bitbucket Cloud Pull Request provider (Bitbucket Pipelines)
+ * Reference: https://developer.atlassian.com/cloud/bitbucket/rest/api-group-pullrequests/#comments
+ */
+
+import type { AuditIssue } from "../../../types/index.js";
+import { log } from "../../../utils/logger.js";
+import {
+  buildReviewComments,
+  extractFingerprint,
+  isSummaryComment,
+  withSummaryMarker,
+} from "../comments.js";
+import type {
+  CommitStatus,
+  CommitStatusState,
+  ExistingComment,
+  GitProvider,
+  ReviewComment,
+} from "../types.js";
+
+const BITBUCKET_API_URL = "https://api.bitbucket.org/2.0";
+const PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+
+const STATUS_STATES: Record<CommitStatusState, string> = {
+  pending: "INPROGRESS",
+  success: "SUCCESSFUL",
+  failure: "FAILED",
+  error: "FAILED",
+};
+
+interface BitbucketComment {
+  id: number;
+  deleted?: boolean;
+  content?: { raw?: string };
+  inline?: { path?: string; to?: number | null };
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+export class BitbucketProvider implements GitProvider {
+  private authorization: string;
+  private workspace: string;
+  private repoSlug: string;
+  private prId: number;
+  private apiUrl: string;
+
+  constructor() {
+    // Bitbucket Pipelines has no built-in API token: use a repository/workspace
+    // access token, or fall back to an app password
+    if (process.env.BITBUCKET_TOKEN) {
+      this.authorization = `Bearer ${process.env.BITBUCKET_TOKEN}`;
+    } else if (process.env.BITBUCKET_USERNAME && process.env.BITBUCKET_APP_PASSWORD) {
+      const credentials = `${process.env.BITBUCKET_USERNAME}:${process.env.BITBUCKET_APP_PASSWORD}`;
+      this.authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    } else {
+      this.authorization = "";
+    }
+
+    // Bitbucket Pipelines environment variables
+    this.workspace = process.env.BITBUCKET_WORKSPACE || "";
+    this.repoSlug = process.env.BITBUCKET_REPO_SLUG || "";
+    this.prId = parseInt(process.env.BITBUCKET_PR_ID || "0");
+    this.apiUrl = process.env.BITBUCKET_API_URL || BITBUCKET_API_URL;
+  }
+
+  isAvailable(): boolean {
+    return !!(this.authorization && this.workspace && this.repoSlug && this.prId);
+  }
+
+  async postComment(filePath: string, line: number, issue: AuditIssue): Promise<void> {
+    if (!this.isAvailable()) {
+      log.warning("Skipping Bitbucket comment: Invalid context (Token/Repo/PR missing).");
+      return;
+    }
+
+    const [comment] = buildReviewComments([{ filePath, issue: { ...issue, line } }]);
+    if (!comment) return;
+
+    try {
+      await this.createComment(comment);
+      log.success(`Posted comment on ${filePath}:${line}`);
+    } catch (e) {
+      log.error(`Failed to post to Bitbucket: ${e}`);
+    }
+  }
+
+  async listComments(): Promise<ExistingComment[]> {
+    const comments: ExistingComment[] = [];
+    // Bitbucket pages through absolute `next` URLs
+    let url: string | undefined = this.url(`/comments?pagelen=${PAGE_SIZE}`);
+
+    for (let page = 1; url && page <= MAX_PAGES; page++) {
+      const batch: BitbucketPage<BitbucketComment> = await this.request("GET", url);
+
+      for (const entry of batch.values) {
+        const body = entry.content?.raw ?? "";
+        const fingerprint = extractFingerprint(body);
+        if (fingerprint && !entry.deleted) {
+          comments.push({
+            id: String(entry.id),
+            fingerprint,
+            body,
+            ...(entry.inline?.path && { filePath: entry.inline.path }),
+            ...(entry.inline?.to && { line: entry.inline.to }),
+          });
+        }
+      }
+
+      url = batch.next;
+    }
+
+    return comments;
+  }
+
+  /**
+   * Inline comments anchor to the new-file line through `inline.to`.
+   */
+  async createComment(comment: ReviewComment): Promise<void> {
+    await this.request("POST", this.url("/comments"), {
+      content: { raw: comment.body },
+      inline: { path: comment.filePath, to: comment.line },
+    });
+  }
+
+  async updateComment(existing: ExistingComment, comment: ReviewComment): Promise<void> {
+    await this.request("PUT", this.url(`/comments/${existing.id}`), {
+      content: { raw: comment.body },
+    });
+  }
+
+  async removeComment(existing: ExistingComment): Promise<void> {
+    await this.request("DELETE", this.url(`/comments/${existing.id}`));
+  }
+
+  /**
+   * Summaries are general (non-inline) PR comments, updated in place on later runs.
+   */
+  async postSummary(body: string): Promise<void> {
+    let existing: BitbucketComment | undefined;
+    let url: string | undefined = this.url(`/comments?pagelen=${PAGE_SIZE}`);
+
+    for (let page = 1; url && page <= MAX_PAGES && !existing; page++) {
+      const batch: BitbucketPage<BitbucketComment> = await this.request("GET", url);
+      existing = batch.values.find(
+        (entry) => !entry.deleted && !entry.inline && isSummaryComment(entry.content?.raw ?? ""),
+      );
+      url = batch.next;
+    }
+
+    const payload = { content: { raw: withSummaryMarker(body) } };
+    if (existing) {
+      await this.request("PUT", this.url(`/comments/${existing.id}`), payload);
+    } else {
+      await this.request("POST", this.url("/comments"), payload);
+    }
+  }
+
+  /**
+   * Reference: https://developer.atlassian.com/cloud/bitbucket/rest/api-group-commit-statuses/
+   */
+  async setStatus(status: CommitStatus): Promise<void> {
+    const sha = process.env.BITBUCKET_COMMIT;
+    if (!sha) {
+      throw new Error("BITBUCKET_COMMIT not set");
+    }
+
+    // Bitbucket requires a link; default to the pipeline run
+    const pipelineUrl = `${process.env.BITBUCKET_GIT_HTTP_ORIGIN || ""}/pipelines/results/${process.env.BITBUCKET_BUILD_NUMBER || ""}`;
+
+    await this.request("POST", `${this.repositoryUrl()}/commit/${sha}/statuses/build`, {
+      key: status.context,
+      name: status.context,
+      state: STATUS_STATES[status.state],
+      description: status.description,
+      url: status.targetUrl ?? pipelineUrl,
+    });
+  }
+
+  private repositoryUrl(): string {
+    return `${this.apiUrl}/repositories/${this.workspace}/${this.repoSlug}`;
+  }
+
+  private url(path: string): string {
+    return `${this.repositoryUrl()}/pullrequests/${this.prId}${path}`;
+  }
+
+  private async request<T = unknown>(method: string, url: string, body?: unknown): Promise<T> {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: this.authorization,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`Bitbucket API error: ${response.status} ${response.statusText} ${err}`);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * GitHub Pull Request provider (GitHub Actions)
+ * Reference: https://docs.github.com/en/rest/pulls/comments
+ */
+
+import { readFile } from "node:fs/promises";
+import type { AuditIssue } from "../../../types/index.js";
+import { log } from "../../../utils/logger.js";
+import {
+  buildReviewComments,
+  extractFingerprint,
+  isSummaryComment,
+  withSummaryMarker,
+} from "../comments.js";
+import type {
+  CheckAnnotation,
+  CheckRunReport,
+  CommitStatus,
+  ExistingComment,
+  GitProvider,
+  ReviewComment,
+  ReviewSubmission,
+} from "../types.js";
+
+const GITHUB_API_URL = "https://api.github.com";
+const PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+/** The Checks API accepts at most 50 annotations per create/update request */
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+/** Check run `output.summary` is limited to 65535 characters */
+const MAX_CHECK_SUMMARY_LENGTH = 65_535;
+/** Commit status descriptions are limited to 140 characters */
+const MAX_STATUS_DESCRIPTION_LENGTH = 140;
+
+interface GitHubReviewComment {
+  id: number;
+  body: string;
+  path?: string;
+  /** Null once the comment is outdated */
+  line?: number | null;
+}
+
+interface GitHubReview {
+  id: number;
+  state: string;
+  body?: string;
+}
+
+interface GitHubIssueComment {
+  id: number;
+  body?: string;
+}
+
+const toReviewCommentPayload = (comment: ReviewComment) => ({
+  body: comment.body,
+  path: comment.filePath,
+  line: comment.line,
+  side: "RIGHT",
+});
+
+const toAnnotationPayload = (annotation: CheckAnnotation) => ({
+  path: annotation.path,
+  start_line: annotation.startLine,
+  end_line: annotation.endLine,
+  annotation_level: annotation.level,
+  message: annotation.message,
+  ...(annotation.title && { title: annotation.title }),
+});
+
+const truncateSummary = (summary: string): string => {
+  if (summary.length <= MAX_CHECK_SUMMARY_LENGTH) return summary;
+  const notice = "\n\n_Report truncated. See the full report in the job output._";
+  return summary.slice(0, MAX_CHECK_SUMMARY_LENGTH - notice.length) + notice;
+};
+
+export class GitHubProvider implements GitProvider {
+  private token: string;
+  private owner: string;
+  private repo: string;
+  private prNumber: number;
+  private apiUrl: string;
+
+  constructor() {
+    this.token = process.env.GITHUB_TOKEN || "";
+    this.apiUrl = process.env.GITHUB_API_URL || GITHUB_API_URL;
+
+    // GitHub Actions environment variables
+    const repoSlug = process.env.GITHUB_REPOSITORY || "";
+    const [owner, repo] = repoSlug.split("/");
+    this.owner = owner || "";
+    this.repo = repo || "";
+
+    // Get PR number from GITHUB_REF (refs/pull/:prNumber/merge) or event payload
+    const ref = String(process.env.GITHUB_REF || "");
+    const match = ref.match(/refs\/pull\/(\d+)\/merge/);
+    this.prNumber = match && match[1] ? parseInt(match[1]) : 0;
+  }
+
+  isAvailable(): boolean {
+    return !!(this.token && this.owner && this.repo && this.prNumber);
+  }
+
+  async postComment(filePath: string, line: number, issue: AuditIssue): Promise<void> {
+    if (!this.isAvailable()) {
+      log.warning("Skipping GitHub comment: Invalid context (Token/Repo/PR missing).");
+      return;
+    }
+
+    const [comment] = buildReviewComments([{ filePath, issue: { ...issue, line } }]);
+    if (!comment) return;
+
+    try {
+      await this.createComment(comment);
+      log.success(`Posted comment on ${filePath}:${line}`);
+    } catch (e) {
+      log.error(`Failed to post to GitHub: ${e}`);
+    }
+  }
+
+  async listComments(): Promise<ExistingComment[]> {
+    const comments: ExistingComment[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const batch = await this.request<GitHubReviewComment[]>(
+        "GET",
+        `/pulls/${this.prNumber}/comments?per_page=${PAGE_SIZE}&page=${page}`,
+      );
+
+      for (const entry of batch) {
+        const fingerprint = extractFingerprint(entry.body ?? "");
+        if (fingerprint) {
+          comments.push({
+            id: String(entry.id),
+            fingerprint,
+            body: entry.body,
+            ...(entry.path && { filePath: entry.path }),
+            ...(entry.line && { line: entry.line }),
+          });
+        }
+      }
+
+      if (batch.length < PAGE_SIZE) break;
+    }
+
+    return comments;
+  }
+
+  async createComment(comment: ReviewComment): Promise<void> {
+    await this.request("POST", `/pulls/${this.prNumber}/comments`, {
+      ...toReviewCommentPayload(comment),
+      commit_id: this.requireCommitId(),
+    });
+  }
+
+  /**
+   * Submit all new comments as one pull request review: a single API call and
+   * a single notification instead of one per finding. The body carries the summary
+   * marker so a later passing run can find and dismiss a change request.
+   * Reference: https://docs.github.com/en/rest/pulls/reviews#create-a-review-for-a-pull-request
+   */
+  async submitReview(comments: ReviewComment[], submission: ReviewSubmission): Promise<void> {
+    await this.request("POST", `/pulls/${this.prNumber}/reviews`, {
+      commit_id: this.requireCommitId(),
+      body: withSummaryMarker(submission.summary),
+      event: submission.requestChanges ? "REQUEST_CHANGES" : "COMMENT",
+      comments: comments.map(toReviewCommentPayload),
+    });
+  }
+
+  /**
+   * Dismiss this tool's REQUEST_CHANGES reviews so they stop blocking the merge.
+   * Reference: https://docs.github.com/en/rest/pulls/reviews#dismiss-a-review-for-a-pull-request
+   */
+  async dismissChangeRequests(message: string): Promise<number> {
+    let dismissed = 0;
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const reviews = await this.request<GitHubReview[]>(
+        "GET",
+        `/pulls/${this.prNumber}/reviews?per_page=${PAGE_SIZE}&page=${page}`,
+      );
+
+      for (const review of reviews) {
+        if (review.state === "CHANGES_REQUESTED" && isSummaryComment(review.body ?? "")) {
+          await this.request("PUT", `/pulls/${this.prNumber}/reviews/${review.id}/dismissals`, {
+            message,
+            event: "DISMISS",
+          });
+          dismissed++;
+        }
+      }
+
+      if (reviews.length < PAGE_SIZE) break;
+    }
+
+    return dismissed;
+  }
+
+  async updateComment(existing: ExistingComment, comment: ReviewComment): Promise<void> {
+    await this.request("PATCH", `/pulls/comments/${existing.id}`, { body: comment.body });
+  }
+
+  /**
+   * The REST API cannot resolve review threads, so fixed findings are deleted.
+   */
+  async removeComment(existing: ExistingComment): Promise<void> {
+    await this.request("DELETE", `/pulls/comments/${existing.id}`);
+  }
+
+  /**
+   * Summaries are PR conversation (issue) comments, updated in place on later runs.
+   */
+  async postSummary(body: string): Promise<void> {
+    let existing: GitHubIssueComment | undefined;
+    for (let page = 1; page <= MAX_PAGES && !existing; page++) {
+      const batch = await this.request<GitHubIssueComment[]>(
+        "GET",
+        `/issues/${this.prNumber}/comments?per_page=${PAGE_SIZE}&page=${page}`,
+      );
+      existing = batch.find((entry) => isSummaryComment(entry.body ?? ""));
+      if (batch.length < PAGE_SIZE) break;
+    }
+
+    const payload = { body: withSummaryMarker(body) };
+    if (existing) {
+      await this.request("PATCH", `/issues/comments/${existing.id}`, payload);
+    } else {
+      await this.request("POST", `/issues/${this.prNumber}/comments`, payload);
+    }
+  }
+
+  async setStatus(status: CommitStatus): Promise<void> {
+    await this.request("POST", `/statuses/${await this.resolveHeadSha()}`, {
+      state: status.state,
+      context: status.context,
+      description: status.description.slice(0, MAX_STATUS_DESCRIPTION_LENGTH),
+      ...(status.targetUrl && { target_url: status.targetUrl }),
+    });
+  }
+
+  /**
+   * Create or update the check run on the head commit. Annotations beyond the
+   * first 50 are appended with follow-up updates, 50 at a time.
+   * Reference: https://docs.github.com/en/rest/checks/runs
+   */
+  async publishCheckRun(check: CheckRunReport): Promise<void> {
+    if (!this.token || !this.owner || !this.repo) {
+      throw new Error("GitHub context incomplete (GITHUB_TOKEN/GITHUB_REPOSITORY missing)");
+    }
+
+    const headSha = await this.resolveHeadSha();
+    const batches: CheckAnnotation[][] = [];
+    for (let i = 0; i < check.annotations.length; i += MAX_ANNOTATIONS_PER_REQUEST) {
+      batches.push(check.annotations.slice(i, i + MAX_ANNOTATIONS_PER_REQUEST));
+    }
+    const [first = [], ...rest] = batches;
+
+    const output = (annotations: CheckAnnotation[]) => ({
+      title: check.title,
+      summary: truncateSummary(check.summary),
+      annotations: annotations.map(toAnnotationPayload),
+    });
+    const body = {
+      name: check.name,
+      status: "completed",
+      conclusion: check.conclusion,
+      completed_at: new Date().toISOString(),
+      output: output(first),
+    };
+
+    const existing = await this.request<{ check_runs: Array<{ id: number }> }>(
+      "GET",
+      `/commits/${headSha}/check-runs?check_name=${encodeURIComponent(check.name)}`,
+    );
+
+    let checkRunId = existing.check_runs[0]?.id;
+    if (checkRunId) {
+      await this.request("PATCH", `/check-runs/${checkRunId}`, body);
+    } else {
+      const created = await this.request<{ id: number }>("POST", "/check-runs", {
+        ...body,
+        head_sha: headSha,
+      });
+      checkRunId = created.id;
+    }
+
+    for (const batch of rest) {
+      await this.request("PATCH", `/check-runs/${checkRunId}`, { output: output(batch) });
+    }
+  }
+
+  /**
+   * On `pull_request` events GITHUB_SHA is the synthetic merge commit; checks must
+   * target the PR head commit to show up on the pull request.
+   */
+  private async resolveHeadSha(): Promise<string> {
+    const eventPath = process.env.GITHUB_EVENT_PATH;
+    if (eventPath) {
+      try {
+        const event = JSON.parse(await readFile(eventPath, "utf-8")) as {
+          pull_request?: { head?: { sha?: string } };
+        };
+        const headSha = event.pull_request?.head?.sha;
+        if (headSha) return headSha;
+      } catch {
+        // Fall back to GITHUB_SHA
+      }
+    }
+    return this.requireCommitId();
+  }
+
+  private requireCommitId(): string {
+    const commitId = process.env.GITHUB_SHA;
+    if (!commitId) {
+      throw new Error("GITHUB_SHA not set");
+    }
+    return commitId;
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = `${this.apiUrl}/repos/${this.owner}/${this.repo}${path}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        Accept: "application/vnd.github.v3+json",
+        "Content-Type": "application/json",
+        "User-Agent": "mp-sentinel",
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`GitHub API error: ${response.status} ${response.statusText} ${err}`);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * GitLab Merge Request provider (GitLab CI/CD)
+ * Reference: https://docs.gitlab.com/ee/api/discussions.html#merge-requests
+ */
+
+import type { AuditIssue } from "../../../types/index.js";
+import { log } from "../../../utils/logger.js";
+import {
+  buildReviewComments,
+  extractFingerprint,
+  isSummaryComment,
+  withSummaryMarker,
+} from "../comments.js";
+import type {
+  CommitStatus,
+  CommitStatusState,
+  ExistingComment,
+  GitProvider,
+  ReviewComment,
+} from "../types.js";
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+
+const STATUS_STATES: Record<CommitStatusState, string> = {
+  pending: "pending",
+  success: "success",
+  failure: "failed",
+  error: "failed",
+};
+
+interface GitLabNote {
+  id: number;
+  body?: string;
+  system?: boolean;
+}
+
+interface GitLabDiscussion {
+  id: string;
+  notes: Array<{
+    id: number;
+    body: string;
+    resolved?: boolean;
+    position?: { new_path?: string; new_line?: number | null };
+  }>;
+}
+
+export class GitLabProvider implements GitProvider {
+  private token: string;
+  private projectId: string;
+  private mrIid: number;
+  private serverUrl: string;
+  private useJobToken: boolean = false;
+
+  constructor() {
+    this.projectId = process.env.CI_PROJECT_ID || "";
+    this.mrIid = parseInt(process.env.CI_MERGE_REQUEST_IID || "0");
+    this.serverUrl = process.env.CI_SERVER_URL || "https://gitlab.com";
+
+    // Prioritize GITLAB_TOKEN (PAT) if available, otherwise fall back to CI_JOB_TOKEN
+    if (process.env.GITLAB_TOKEN) {
+      this.token = process.env.GITLAB_TOKEN;
+      this.useJobToken = false;
+    } else {
+      this.token = process.env.CI_JOB_TOKEN || "";
+      this.useJobToken = true;
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!(this.token && this.projectId && this.mrIid);
+  }
+
+  async postComment(filePath: string, line: number, issue: AuditIssue): Promise<void> {
+    if (!this.isAvailable()) {
+      log.warning("Skipping GitLab comment: Invalid context (Token/Project/MR missing).");
+      return;
+    }
+
+    const [comment] = buildReviewComments([{ filePath, issue: { ...issue, line } }]);
+    if (!comment) return;
+
+    try {
+      await this.createComment(comment);
+      log.success(`Posted discussion on ${filePath}:${line}`);
+    } catch (e) {
+      log.error(`Failed to post to GitLab: ${e}`);
+    }
+  }
+
+  async listComments(): Promise<ExistingComment[]> {
+    const comments: ExistingComment[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const discussions = await this.request<GitLabDiscussion[]>(
+        "GET",
+        this.mr(`/discussions?per_page=${PAGE_SIZE}&page=${page}`),
+      );
+
+      for (const discussion of discussions) {
+        const note = discussion.notes[0];
+        const fingerprint = note ? extractFingerprint(note.body ?? "") : null;
+        if (note && fingerprint) {
+          comments.push({
+            id: String(note.id),
+            threadId: discussion.id,
+            fingerprint,
+            body: note.body,
+            ...(note.position?.new_path && { filePath: note.position.new_path }),
+            ...(note.position?.new_line && { line: note.position.new_line }),
+            resolved: note.resolved === true,
+          });
+        }
+      }
+
+      if (discussions.length < PAGE_SIZE) break;
+    }
+
+    return comments;
+  }
+
+  async createComment(comment: ReviewComment): Promise<void> {
+    const headSha = process.env.CI_COMMIT_SHA;
+    const baseSha = process.env.CI_MERGE_REQUEST_DIFF_BASE_SHA || headSha;
+
+    await this.request("POST", this.mr("/discussions"), {
+      body: comment.body,
+      position: {
+        position_type: "text",
+        base_sha: baseSha,
+        head_sha: headSha,
+        start_sha: baseSha,
+        new_path: comment.filePath,
+        new_line: comment.line,
+      },
+    });
+  }
+
+  async updateComment(existing: ExistingComment, comment: ReviewComment): Promise<void> {
+    await this.request("PUT", this.mr(`/discussions/${existing.threadId}/notes/${existing.id}`), {
+      body: comment.body,
+    });
+    // Only findings whose content changed are updated (see `planCommentSync`), so a
+    // resolved thread re-opens for a changed finding only
+    if (existing.resolved) {
+      await this.request("PUT", this.mr(`/discussions/${existing.threadId}?resolved=false`));
+    }
+  }
+
+  /**
+   * Fixed findings are resolved rather than deleted to keep the review history.
+   */
+  async removeComment(existing: ExistingComment): Promise<void> {
+    await this.request("PUT", this.mr(`/discussions/${existing.threadId}?resolved=true`));
+  }
+
+  /**
+   * Summaries are plain MR notes, updated in place on later runs.
+   */
+  async postSummary(body: string): Promise<void> {
+    let existing: GitLabNote | undefined;
+    for (let page = 1; page <= MAX_PAGES && !existing; page++) {
+      const notes = await this.request<GitLabNote[]>(
+        "GET",
+        this.mr(`/notes?per_page=${PAGE_SIZE}&page=${page}`),
+      );
+      existing = notes.find((note) => !note.system && isSummaryComment(note.body ?? ""));
+      if (notes.length < PAGE_SIZE) break;
+    }
+
+    const payload = { body: withSummaryMarker(body) };
+    if (existing) {
+      await this.request("PUT", this.mr(`/notes/${existing.id}`), payload);
+    } else {
+      await this.request("POST", this.mr("/notes"), payload);
+    }
+  }
+
+  /**
+   * Reference: https://docs.gitlab.com/ee/api/commits.html#set-the-pipeline-status-of-a-commit
+   */
+  async setStatus(status: CommitStatus): Promise<void> {
+    const sha = process.env.CI_COMMIT_SHA;
+    if (!sha) {
+      throw new Error("CI_COMMIT_SHA not set");
+    }
+
+    await this.request("POST", `/statuses/${sha}`, {
+      state: STATUS_STATES[status.state],
+      name: status.context,
+      description: status.description,
+      ...(status.targetUrl && { target_url: status.targetUrl }),
+    });
+  }
+
+  private mr(path: string): string {
+    return `/merge_requests/${this.mrIid}${path}`;
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = `${this.serverUrl}/api/v4/projects/${encodeURIComponent(this.projectId)}${path}`;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    if (this.useJobToken) {
+      headers["JOB-TOKEN"] = this.token;
+    } else {
+      headers["PRIVATE-TOKEN"] = this.token;
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`GitLab API error: ${response.status} ${response.statusText} ${err}`);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+}
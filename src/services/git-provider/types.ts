@@ -0,0 +1,136 @@
+/**
+ * Git provider types and interfaces
+ */
+
+import type { AuditIssue } from "../../types/index.js";
+
+/** Built-in providers selectable through the `gitProvider` config key */
+export type GitProviderName = "github" | "gitlab" | "bitbucket" | "azure-devops";
+
+/**
+ * A finding rendered as an inline PR/MR comment
+ */
+export interface ReviewComment {
+  filePath: string;
+  line: number;
+  issue: AuditIssue;
+  /** Stable identity across pipeline runs (file, rule, normalized message) */
+  fingerprint: string;
+  /** Markdown body including the hidden fingerprint marker */
+  body: string;
+}
+
+/**
+ * A comment previously posted by mp-sentinel, recovered from its fingerprint marker
+ */
+export interface ExistingComment {
+  /** Provider comment/note ID */
+  id: string;
+  /** Thread ID for providers that group notes into discussions (GitLab) */
+  threadId?: string;
+  fingerprint: string;
+  body: string;
+  /** File the comment is anchored to, when the provider reports it */
+  filePath?: string;
+  /** New-file line the comment is anchored to, when the provider reports it */
+  line?: number;
+  /** Whether the thread is already resolved (providers without resolution leave this unset) */
+  resolved?: boolean;
+}
+
+export interface CommentSyncResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  failed: number;
+}
+
+/**
+ * Review-level context for providers that submit comments as one batched review
+ */
+export interface ReviewSubmission {
+  /** Markdown summary used as the review body */
+  summary: string;
+  /** Block merging (GitHub REQUEST_CHANGES) instead of leaving a plain comment review */
+  requestChanges: boolean;
+  /** The review passed: change requests left by earlier runs are dismissed */
+  passed?: boolean;
+}
+
+export type CheckRunConclusion = "success" | "failure" | "neutral";
+
+/**
+ * A finding attached to a file line of a check run
+ */
+export interface CheckAnnotation {
+  path: string;
+  startLine: number;
+  endLine: number;
+  level: "notice" | "warning" | "failure";
+  title?: string;
+  message: string;
+}
+
+/**
+ * Review outcome published as a commit status check (GitHub check run)
+ */
+export interface CheckRunReport {
+  name: string;
+  conclusion: CheckRunConclusion;
+  title: string;
+  /** Markdown summary shown on the check run page */
+  summary: string;
+  annotations: CheckAnnotation[];
+}
+
+export type CommitStatusState = "pending" | "success" | "failure" | "error";
+
+/**
+ * Pass/fail status attached to the head commit of the PR/MR
+ */
+export interface CommitStatus {
+  state: CommitStatusState;
+  /** Status name; one status per context is kept by the platform */
+  context: string;
+  description: string;
+  targetUrl?: string;
+}
+
+/**
+ * Contract for PR/MR integrations. Optional methods are capabilities: callers
+ * check for them and skip (or fall back) when a platform does not support them.
+ */
+export interface GitProvider {
+  /** Whether the CI context (token, repository, PR/MR number) is complete */
+  isAvailable(): boolean;
+  /** Post a single inline comment (legacy CI/CD path) */
+  postComment(filePath: string, line: number, issue: AuditIssue): Promise<void>;
+  /** List comments previously posted by mp-sentinel on the current PR/MR */
+  listComments(): Promise<ExistingComment[]>;
+  createComment(comment: ReviewComment): Promise<void>;
+  /** Submit new comments in a single review; providers without batching post them one by one */
+  submitReview?(comments: ReviewComment[], submission: ReviewSubmission): Promise<void>;
+  /** Dismiss change requests this tool left on earlier runs; returns how many were dismissed */
+  dismissChangeRequests?(message: string): Promise<number>;
+  updateComment(existing: ExistingComment, comment: ReviewComment): Promise<void>;
+  /** Delete or resolve a comment whose finding no longer applies */
+  removeComment(existing: ExistingComment): Promise<void>;
+  /** Create or update the single summary comment on the PR/MR */
+  postSummary?(body: string): Promise<void>;
+  /** Set the review status on the head commit */
+  setStatus?(status: CommitStatus): Promise<void>;
+  /** Create or update the review check run on the head commit (GitHub only) */
+  publishCheckRun?(check: CheckRunReport): Promise<void>;
+}
+
+/**
+ * A provider plugged in through `registerGitProvider`
+ */
+export interface GitProviderRegistration {
+  /** Unique name, also accepted by `getGitProvider(name)` */
+  name: string;
+  /** Whether the current environment (usually CI variables) belongs to this provider */
+  detect(): boolean;
+  create(): GitProvider;
+}
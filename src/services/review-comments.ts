@@ -0,0 +1,160 @@
+/**
+ * Publish review findings as inline PR/MR comments through the detected git provider.
+ */
+
+import type { AuditIssue, FileAuditResult, ReviewReport } from "../types/index.js";
+import { SECRET_DETECTED_RULE_ID } from "../formatters/sarif.js";
+import { log } from "../utils/logger.js";
+import type { CommentSyncResult, GitProviderName, ReviewSubmission } from "./git-provider/types.js";
+
+export type CommentSeverity = AuditIssue["severity"];
+
+export const DEFAULT_COMMENT_MIN_SEVERITY: CommentSeverity = "WARNING";
+
+const SEVERITY_RANK: Record<CommentSeverity, number> = {
+  INFO: 0,
+  WARNING: 1,
+  CRITICAL: 2,
+};
+
+export interface CommentableIssue {
+  filePath: string;
+  issue: AuditIssue;
+}
+
+export interface PublishCommentsResult extends CommentSyncResult {
+  /** Findings that were not eligible for a comment */
+  skipped: number;
+  /** False when no git provider could be detected from the CI environment */
+  providerDetected: boolean;
+}
+
+const EMPTY_SYNC_RESULT: CommentSyncResult = {
+  created: 0,
+  updated: 0,
+  unchanged: 0,
+  removed: 0,
+  failed: 0,
+};
+
+/**
+ * Pick the issues that should become inline comments.
+ * Skips secret-detection findings (never echo secrets into a PR), issues below
+ * `minSeverity`, and issues whose line could not be anchored to the diff.
+ */
+export const selectCommentableIssues = (
+  results: FileAuditResult[],
+  minSeverity: CommentSeverity = DEFAULT_COMMENT_MIN_SEVERITY,
+): CommentableIssue[] => {
+  const threshold = SEVERITY_RANK[minSeverity];
+
+  return results
+    .filter((entry) => entry.result.status === "FAIL")
+    .flatMap((entry) =>
+      (entry.result.issues ?? [])
+        .filter((issue) => issue.ruleId !== SECRET_DETECTED_RULE_ID)
+        .filter((issue) => issue.anchored !== false)
+        .filter((issue) => SEVERITY_RANK[issue.severity] >= threshold)
+        .map((issue) => ({ filePath: entry.filePath, issue })),
+    );
+};
+
+/**
+ * Files whose outdated comments this run may remove: those the AI reviewed to a
+ * PASS or FAIL. None when the AI review did not run or hit a runtime error, since
+ * the results then say nothing about earlier findings.
+ */
+export const collectReviewedFiles = (report: ReviewReport): Set<string> => {
+  if (!report.aiEnabled || report.errors.length > 0) return new Set();
+  return new Set(
+    report.results
+      .filter((entry) => entry.result.status === "PASS" || entry.result.status === "FAIL")
+      .map((entry) => entry.filePath),
+  );
+};
+
+/**
+ * Build the review-level summary for providers that batch comments into one review.
+ * A failing report requests changes; anything else leaves a comment-only review, and a
+ * passing one also dismisses the change requests of earlier runs.
+ */
+export const buildReviewSubmission = (report: ReviewReport): ReviewSubmission => {
+  const { summary } = report;
+  const lines = [
+    `## MP Sentinel Review: ${report.status}`,
+    "",
+    `| Metric | Value |`,
+    `| --- | --- |`,
+    `| Audited files | ${summary.auditedFiles} / ${summary.totalFiles} |`,
+    `| Failed files | ${summary.failedFiles} |`,
+    `| Critical issues | ${summary.criticalIssues} |`,
+    `| Warning issues | ${summary.warningIssues} |`,
+    `| Info issues | ${summary.infoIssues} |`,
+  ];
+
+  if (report.errors.length > 0) {
+    lines.push("", `⚠️ ${report.errors.length} runtime error(s) occurred during the review.`);
+  }
+
+  return {
+    summary: lines.join("\n"),
+    requestChanges: report.status === "FAIL",
+    passed: report.status === "PASS",
+  };
+};
+
+/**
+ * Sync the report's findings with the PR/MR of the current CI run: new findings
+ * are posted, existing comments updated, and comments for fixed findings on
+ * reviewed files (`collectReviewedFiles`) resolved or deleted. Never throws — comment failures must not change the
+ * review outcome.
+ */
+export const publishReviewComments = async (
+  report: ReviewReport,
+  minSeverity: CommentSeverity = DEFAULT_COMMENT_MIN_SEVERITY,
+  /** Built-in (`gitProvider` config) or registered provider name; detected when omitted */
+  gitProviderName?: string,
+): Promise<PublishCommentsResult> => {
+  const commentable = selectCommentableIssues(report.results, minSeverity);
+  const totalIssues = report.results.reduce(
+    (acc, entry) => acc + (entry.result.issues?.length ?? 0),
+    0,
+  );
+  const skipped = totalIssues - commentable.length;
+
+  // Lazy-load provider code: most runs never post comments
+  const { getGitProvider, buildReviewComments, syncReviewComments } =
+    await import("./git-provider/index.js");
+  const gitProvider = getGitProvider(gitProviderName);
+
+  if (!gitProvider?.isAvailable()) {
+    log.warning("--post-comments: no supported PR/MR CI context detected. Skipping PR comments.");
+    return { ...EMPTY_SYNC_RESULT, skipped: totalIssues, providerDetected: false };
+  }
+
+  // Sync even without findings so comments from earlier runs get cleaned up
+  log.info(`Syncing ${commentable.length} finding(s) as PR comments (>= ${minSeverity})...`);
+  const sync = await syncReviewComments(
+    gitProvider,
+    buildReviewComments(commentable),
+    buildReviewSubmission(report),
+    collectReviewedFiles(report),
+  );
+
+  // Providers without batched reviews get the summary as a single, updated comment
+  if (!gitProvider.submitReview && gitProvider.postSummary) {
+    try {
+      await gitProvider.postSummary(buildReviewSubmission(report).summary);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      log.error(`Failed to post summary comment: ${msg}`);
+    }
+  }
+
+  log.info(
+    `PR comments: ${sync.created} new, ${sync.updated} updated, ${sync.unchanged} unchanged, ${sync.removed} resolved` +
+      (sync.failed > 0 ? `, ${sync.failed} failed` : ""),
+  );
+
+  return { ...sync, skipped, providerDetected: true };
+};
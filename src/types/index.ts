@@ -3,7 +3,19 @@
  */
 
 export type ReviewMode = "commit" | "range" | "staged" | "files";
-export type ReviewFormat = "console" | "json" | "markdown";
+export type ReviewFormat = "console" | "json" | "markdown" | "sarif" | "junit";
+
+/** Formats that can be serialized to a file (console output is terminal-only) */
+export type ReportFileFormat = Exclude<ReviewFormat, "console">;
+
+/**
+ * Additional report artifact written alongside the console output
+ */
+export interface ReportOutput {
+  format: ReportFileFormat;
+  /** Destination path, relative to the current working directory */
+  path: string;
+}
 
 export interface ReviewTarget {
   mode: ReviewMode;
@@ -25,6 +37,15 @@ export interface ReviewSkippedItem {
   reason: string;
 }
 
+/**
+ * Secrets redacted from a file by the SecurityService before it was sent to the AI provider
+ */
+export interface ReviewRedaction {
+  path: string;
+  redactedCount: number;
+  matchedPatterns: string[];
+}
+
 export interface ReviewSummary {
   totalFiles: number;
   auditedFiles: number;
@@ -37,8 +58,76 @@ export interface ReviewSummary {
   totalChangedLines: number;
 }
 
+export interface TokenUsage {
+  /** Input tokens, including the system prompt */
+  promptTokens: number;
+  /** Output tokens */
+  completionTokens: number;
+}
+
+/** Price of a model in USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Token usage of one provider/model
+ */
+export interface ProviderUsage extends TokenUsage {
+  provider: string;
+  model: string;
+  /** Successful API calls that reported usage */
+  requests: number;
+  /** USD; absent when the price table has no entry for the model */
+  estimatedCost?: number;
+}
+
+export interface FileUsage extends TokenUsage {
+  path: string;
+  estimatedCost?: number;
+}
+
+/**
+ * Spending ceiling for one review run
+ */
+export interface RunBudget {
+  /** Prompt plus completion tokens */
+  maxTokens?: number;
+  /** Estimated cost in USD (priced models only) */
+  maxCost?: number;
+}
+
+/**
+ * How much of the run budget was spent
+ */
+export interface BudgetUsage extends RunBudget {
+  usedTokens: number;
+  usedCost: number;
+  /** A limit was reached; files not yet sent were skipped */
+  exhausted: boolean;
+  /** Files moved to `skipped` because the budget ran out */
+  skippedFiles: number;
+}
+
+/**
+ * Tokens consumed by a review run, and their estimated cost
+ */
+export interface ReviewUsage extends TokenUsage {
+  totalTokens: number;
+  /** USD for all priced models */
+  estimatedCost: number;
+  /** Models without a price; their tokens are not included in `estimatedCost` */
+  unpricedModels: string[];
+  byProvider: ProviderUsage[];
+  byFile: FileUsage[];
+  /** Present when a run budget is configured */
+  budget?: BudgetUsage;
+}
+
 export interface ReviewReport {
-  schemaVersion: "1.0";
+  /** "1.1" added `redactions` and `usage` */
+  schemaVersion: "1.1";
   status: "PASS" | "FAIL" | "ERROR";
   target: ReviewTarget;
   aiEnabled: boolean;
@@ -46,7 +135,10 @@ export interface ReviewReport {
   summary: ReviewSummary;
   results: FileAuditResult[];
   skipped: ReviewSkippedItem[];
+  redactions: ReviewRedaction[];
   errors: string[];
+  /** Present when the AI review ran */
+  usage?: ReviewUsage;
   generatedAt: string;
 }
 
@@ -121,6 +213,57 @@ export interface CommitInfo {
   files: string[];
 }
 
+/**
+ * Inline PR/MR comment publishing for the review command
+ */
+export interface PRCommentsConfig {
+  /** Post findings to the PR/MR after the report is built (default: false) */
+  enabled?: boolean;
+  /** Lowest severity that is posted (default: "WARNING") */
+  minSeverity?: AuditIssue["severity"];
+}
+
+/**
+ * GitHub check run publishing for the review command
+ */
+export interface CheckRunConfig {
+  /** Publish the review as a check run on the head commit (default: false) */
+  enabled?: boolean;
+  /** Check run name shown in the PR checks list (default: "mp-sentinel") */
+  name?: string;
+}
+
+/**
+ * Persistent audit cache for unchanged files between runs
+ */
+export interface CacheConfig {
+  /**
+   * Storage: one JSON file per entry, a single JSON-lines file, or a shared cache
+   * server over HTTP (default: "fs")
+   */
+  backend?: "fs" | "jsonl" | "http";
+  /**
+   * Base URL of the cache server (http backend). Entries are read and written with
+   * `GET`/`PUT {url}/{key}` and signed with `MP_SENTINEL_CACHE_SECRET`.
+   */
+  url?: string;
+  /** Request timeout for the http backend in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Cache location, relative to the working directory (default: ".mp-sentinel-cache") */
+  directory?: string;
+  /** Entries older than this are ignored and pruned (default: 168, one week) */
+  ttlHours?: number;
+  /** Least recently used entries are evicted beyond this count (default: unlimited) */
+  maxEntries?: number;
+  /** Least recently used entries are evicted beyond this total size (default: 100) */
+  maxSizeMb?: number;
+  /**
+   * Also cache each hunk of a patch, so only new or changed hunks are reviewed
+   * when the file-level entry misses (default: true)
+   */
+  hunks?: boolean;
+}
+
 export interface ProjectConfig {
   techStack?: string;
   rules?: string[];
@@ -128,7 +271,9 @@ export interface ProjectConfig {
   commitFormat?: string;
   maxConcurrency?: number;
   cacheEnabled?: boolean;
-  gitProvider?: "github" | "gitlab";
+  cache?: CacheConfig;
+  /** Built-in (`github`, `gitlab`, `bitbucket`, `azure-devops`) or registered provider name */
+  gitProvider?: string;
   repoUrl?: string; // Optional
   projectId?: string; // For GitLab
   /** Local review mode configuration */
@@ -138,13 +283,41 @@ export interface ProjectConfig {
   /** Timeout for skills.sh API calls in milliseconds (default: 3000) */
   skillsFetchTimeout?: number;
   ai?: AIReviewConfig;
+  /** Report files to write on every review run, in addition to stdout */
+  reports?: ReportOutput[];
+  prComments?: PRCommentsConfig;
+  checkRun?: CheckRunConfig;
 }
 
 export interface AuditIssue {
+  /** Stable rule identifier for findings not produced by the AI (e.g. secret detection) */
+  ruleId?: string;
   line: number;
   severity: "CRITICAL" | "WARNING" | "INFO";
   message: string;
   suggestion?: string;
+  /** Line as originally reported by the AI, relative to the reviewed patch text */
+  patchLine?: number;
+  /** Whether `line` was verified against a changed hunk of the new file */
+  anchored?: boolean;
+  /** Ensemble review: the models that reported this issue */
+  agreement?: IssueAgreement;
+  /** Verification pass: how certain the model is that the issue is real, from 0 to 1 */
+  confidence?: number;
+}
+
+/** A verification pass's answer for one issue */
+export interface IssueVerdict {
+  confirmed: boolean;
+  /** From 0 to 1 */
+  confidence: number;
+}
+
+export interface IssueAgreement {
+  /** `provider/model` of each model that reported the issue */
+  models: string[];
+  /** Models whose review of the file succeeded */
+  total: number;
 }
 
 export interface AuditResult {
@@ -152,6 +325,13 @@ export interface AuditResult {
   issues?: AuditIssue[];
   message?: string;
   suggestion?: string;
+  /**
+   * Cause of an ERROR result: the provider call failed ("provider"), a structured
+   * response did not match the audit schema ("schema"), the review deadline
+   * passed first ("timeout"), or the provider's circuit was open with no fallback
+   * to take the request ("circuit-open")
+   */
+  errorKind?: "provider" | "schema" | "timeout" | "circuit-open";
 }
 
 export interface FileAuditResult {
@@ -159,6 +339,19 @@ export interface FileAuditResult {
   result: AuditResult;
   duration: number;
   cached?: boolean;
+  /** Tokens spent on this file per provider (fallbacks included); absent for cached results */
+  usage?: ProviderUsage[];
+  /** Other files reviewed in the same batched prompt */
+  batchedWith?: string[];
+  /** Number of prompts an oversized patch was split into */
+  chunks?: number;
+  /** Hunks whose issues were reused from the hunk cache; only the others were reviewed */
+  cachedHunks?: number;
+  /**
+   * `provider/model` of each provider that answered for this file: the fallback that took
+   * over from a failing primary, or every ensemble member. Absent for cached results.
+   */
+  providers?: string[];
 }
 
 export interface CLIOptions {
@@ -186,6 +379,91 @@ export interface AIReviewConfig {
    * Defaults are: gemini=1_000_000, openai=128_000, anthropic=200_000.
    */
   tokenLimit?: number;
+  /**
+   * What to do with issues whose line falls outside the changed hunks:
+   * "flag" keeps them marked as unanchored (default), "drop" removes them.
+   */
+  unanchoredIssues?: "flag" | "drop";
+  /**
+   * Ask providers for schema-constrained JSON (OpenAI json_schema, Gemini responseSchema,
+   * Anthropic tool use) and validate responses strictly. Providers without native
+   * support keep the free-text parser. Overridden by `AI_STRUCTURED_OUTPUT`.
+   */
+  structuredOutput?: boolean;
+  /**
+   * Stream AI responses with live per-file progress in console output (default: true).
+   * Overridden by `--no-stream` and `MP_SENTINEL_STREAM`.
+   */
+  stream?: boolean;
+  /**
+   * Deadline in milliseconds for all AI calls of a review run. Files not audited in
+   * time are reported as ERROR results. Overridden by `--timeout` and `MP_SENTINEL_TIMEOUT_MS`.
+   */
+  timeoutMs?: number;
+  /**
+   * USD per million tokens by model name, merged over the built-in price table.
+   * A key also matches model names it prefixes (e.g. "gpt-4o" matches "gpt-4o-2024-08-06").
+   */
+  pricing?: Record<string, ModelPricing>;
+  /**
+   * Token ceiling for a review run. Once reached, files not yet sent are skipped.
+   * Overridden by `--max-tokens` and `MP_SENTINEL_MAX_TOKENS`.
+   */
+  maxTokensPerRun?: number;
+  /**
+   * Estimated cost ceiling in USD for a review run, from `pricing`. Once reached, files
+   * not yet sent are skipped. Overridden by `--max-cost` and `MP_SENTINEL_MAX_COST`.
+   */
+  maxCostPerRun?: number;
+  /**
+   * Review related files (imports, test/source pairs, same directory) together in one
+   * prompt. Overridden by `--batch` / `--no-batch` and `MP_SENTINEL_BATCH`.
+   */
+  batching?: boolean;
+  /** Estimated token ceiling for the files in one batched prompt (default: 12000) */
+  maxBatchTokens?: number;
+  /**
+   * Review patches longer than `maxCharsPerFile` in chunks split on hunk boundaries,
+   * instead of truncating them. Overridden by `--chunk-large-files` and
+   * `MP_SENTINEL_CHUNK_LARGE_FILES`.
+   */
+  chunkLargeFiles?: boolean;
+  /**
+   * Review every file with several providers and keep the issues they agree on.
+   * Overridden by `--ensemble` and `MP_SENTINEL_ENSEMBLE`.
+   */
+  ensemble?: EnsembleConfig;
+  /**
+   * Send FAIL results back to the model with the exact code lines to confirm or reject
+   * each issue. Overridden by `--verify` / `--no-verify` and `MP_SENTINEL_VERIFY`.
+   */
+  verifyIssues?: boolean;
+  /** Confidence (0–1) an issue needs from the verification pass (default: 0.5) */
+  minConfidence?: number;
+  /** What to do with issues below `minConfidence`: remove them (default) or lower their severity */
+  unconfirmedIssues?: "drop" | "downgrade";
+  /**
+   * Skip a provider of the fallback chain after repeated failures instead of sending
+   * every file to it first
+   */
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failed requests (after retries) that open a provider's circuit (default: 3) */
+  failureThreshold?: number;
+  /** Milliseconds an open circuit skips the provider before a trial request (default: 60000) */
+  cooldownMs?: number;
+}
+
+export interface EnsembleConfig {
+  /**
+   * Two or three providers, optionally with a model after a colon,
+   * e.g. ["openai", "anthropic:claude-sonnet-4-5"]. Credentials come from the environment.
+   */
+  providers: string[];
+  /** Models that must report an issue for it to be kept (default: a majority) */
+  minAgreement?: number;
 }
 
 export const DEFAULT_CONFIG: Required<
@@ -197,7 +475,11 @@ export const DEFAULT_CONFIG: Required<
     | "localReview"
     | "enableSkillsFetch"
     | "skillsFetchTimeout"
+    | "cache"
     | "ai"
+    | "reports"
+    | "prComments"
+    | "checkRun"
   >
 > & {
   localReview: LocalReviewConfig;
@@ -73,8 +73,104 @@ const AIReviewConfigSchema = z.object({
   promptVersion: z.string().optional(),
   fallbackProvider: z.string().optional(),
   tokenLimit: z.number().int().positive("ai.tokenLimit must be a positive integer").optional(),
+  unanchoredIssues: z.enum(["flag", "drop"]).optional(),
+  structuredOutput: z.boolean().optional(),
+  stream: z.boolean().optional(),
+  timeoutMs: z.number().int().positive("ai.timeoutMs must be a positive integer").optional(),
+  pricing: z
+    .record(
+      z.string(),
+      z.object({
+        input: z.number().nonnegative("ai.pricing input price must not be negative"),
+        output: z.number().nonnegative("ai.pricing output price must not be negative"),
+      }),
+    )
+    .optional(),
+  maxTokensPerRun: z
+    .number()
+    .int()
+    .positive("ai.maxTokensPerRun must be a positive integer")
+    .optional(),
+  maxCostPerRun: z.number().positive("ai.maxCostPerRun must be a positive number").optional(),
+  batching: z.boolean().optional(),
+  maxBatchTokens: z
+    .number()
+    .int()
+    .positive("ai.maxBatchTokens must be a positive integer")
+    .optional(),
+  chunkLargeFiles: z.boolean().optional(),
+  ensemble: z
+    .object({
+      providers: z
+        .array(z.string().min(1))
+        .min(2, "ai.ensemble.providers needs at least two providers")
+        .max(3, "ai.ensemble.providers allows at most three providers"),
+      minAgreement: z
+        .number()
+        .int()
+        .positive("ai.ensemble.minAgreement must be a positive integer")
+        .optional(),
+    })
+    .refine(
+      (ensemble) =>
+        ensemble.minAgreement === undefined || ensemble.minAgreement <= ensemble.providers.length,
+      "ai.ensemble.minAgreement cannot exceed the number of providers",
+    )
+    .optional(),
+  verifyIssues: z.boolean().optional(),
+  minConfidence: z
+    .number()
+    .min(0, "ai.minConfidence must be between 0 and 1")
+    .max(1, "ai.minConfidence must be between 0 and 1")
+    .optional(),
+  unconfirmedIssues: z.enum(["drop", "downgrade"]).optional(),
+  circuitBreaker: z
+    .object({
+      failureThreshold: z
+        .number()
+        .int()
+        .positive("ai.circuitBreaker.failureThreshold must be a positive integer")
+        .optional(),
+      cooldownMs: z
+        .number()
+        .int()
+        .positive("ai.circuitBreaker.cooldownMs must be a positive integer")
+        .optional(),
+    })
+    .optional(),
+});
+
+const ReportOutputSchema = z.object({
+  format: z.enum(["json", "markdown", "sarif", "junit"]),
+  path: z.string().min(1, "reports[].path must be a non-empty string"),
+});
+
+const PRCommentsConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  minSeverity: z.enum(["CRITICAL", "WARNING", "INFO"]).optional(),
 });
 
+const CheckRunConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  name: z.string().min(1, "checkRun.name must be a non-empty string").optional(),
+});
+
+const CacheConfigSchema = z
+  .object({
+    backend: z.enum(["fs", "jsonl", "http"]).optional(),
+    url: z.string().url("cache.url must be a valid URL").optional(),
+    timeoutMs: z.number().int().positive("cache.timeoutMs must be a positive integer").optional(),
+    directory: z.string().min(1, "cache.directory must be a non-empty string").optional(),
+    ttlHours: z.number().positive("cache.ttlHours must be a positive number").optional(),
+    maxEntries: z.number().int().positive("cache.maxEntries must be a positive integer").optional(),
+    maxSizeMb: z.number().positive("cache.maxSizeMb must be a positive number").optional(),
+    hunks: z.boolean().optional(),
+  })
+  .refine(
+    (cache) => cache.backend !== "http" || cache.url !== undefined,
+    "cache.url is required for the http cache backend",
+  );
+
 export const ProjectConfigSchema = z.object({
   techStack: z.string().optional(),
   rules: z.array(z.string()).optional(),
@@ -82,7 +178,8 @@ export const ProjectConfigSchema = z.object({
   commitFormat: z.string().optional(),
   maxConcurrency: z.number().int().positive("maxConcurrency must be a positive integer").optional(),
   cacheEnabled: z.boolean().optional(),
-  gitProvider: z.enum(["github", "gitlab"]).optional(),
+  cache: CacheConfigSchema.optional(),
+  gitProvider: z.string().min(1, "gitProvider must be a provider name").optional(),
   repoUrl: z.string().url("repoUrl must be a valid URL").optional(),
   projectId: z.string().optional(),
   localReview: LocalReviewConfigSchema.optional(),
@@ -93,6 +190,9 @@ export const ProjectConfigSchema = z.object({
     .positive("skillsFetchTimeout must be a positive integer")
     .optional(),
   ai: AIReviewConfigSchema.optional(),
+  reports: z.array(ReportOutputSchema).optional(),
+  prComments: PRCommentsConfigSchema.optional(),
+  checkRun: CheckRunConfigSchema.optional(),
 });
 
 // ──────────────────────────────────────────────────────────────────────────────
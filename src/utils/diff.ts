@@ -0,0 +1,343 @@
+/**
+ * Unified-diff utilities for anchoring AI findings to real file lines.
+ *
+ * Files are sent to the model as patches, so `AuditIssue.line` is relative to
+ * the patch text. These helpers parse hunk headers and translate patch lines
+ * into verified new-file line numbers.
+ */
+
+import type { AuditIssue, AuditResult } from "../types/index.js";
+import { chunkFileContent } from "./tokens.js";
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+export type PatchLineKind = "added" | "context" | "deleted" | "hunk-header";
+
+/**
+ * What a single line of patch text corresponds to in the new file
+ */
+export interface PatchLineMapping {
+  /** New-file line number (deleted lines map to the position where they were removed) */
+  newLine: number;
+  kind: PatchLineKind;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** 1-based line of the `@@` header within the patch text */
+  headerPatchLine: number;
+}
+
+export interface PatchLineMap {
+  hunks: DiffHunk[];
+  /** Keyed by 1-based line number within the patch text */
+  byPatchLine: Map<number, PatchLineMapping>;
+}
+
+export interface ResolvedIssueLine {
+  line: number;
+  anchored: boolean;
+}
+
+/** How to treat issues whose line cannot be mapped into a changed hunk */
+export type UnanchoredIssueMode = "flag" | "drop";
+
+/**
+ * Parse the hunks of a unified-diff patch and map every hunk line to a new-file line.
+ */
+export const parsePatchLineMap = (patch: string): PatchLineMap => {
+  const lines = patch.split("\n");
+  const hunks: DiffHunk[] = [];
+  const byPatchLine = new Map<number, PatchLineMapping>();
+
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (let index = 0; index < lines.length; index++) {
+    const text = lines[index] ?? "";
+    const patchLine = index + 1;
+    const header = HUNK_HEADER.exec(text);
+
+    if (header) {
+      const hunk: DiffHunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        headerPatchLine: patchLine,
+      };
+      hunks.push(hunk);
+      newLine = hunk.newStart;
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      byPatchLine.set(patchLine, { newLine: Math.max(1, hunk.newStart), kind: "hunk-header" });
+      continue;
+    }
+
+    // Outside a hunk (file headers, truncation notes, trailing output)
+    if (oldRemaining <= 0 && newRemaining <= 0) continue;
+    if (text.startsWith(NO_NEWLINE_MARKER)) continue;
+
+    if (text.startsWith("+")) {
+      byPatchLine.set(patchLine, { newLine, kind: "added" });
+      newLine++;
+      newRemaining--;
+    } else if (text.startsWith("-")) {
+      byPatchLine.set(patchLine, { newLine: Math.max(1, newLine), kind: "deleted" });
+      oldRemaining--;
+    } else {
+      byPatchLine.set(patchLine, { newLine, kind: "context" });
+      newLine++;
+      oldRemaining--;
+      newRemaining--;
+    }
+  }
+
+  return { hunks, byPatchLine };
+};
+
+const isWithinNewRange = (hunks: DiffHunk[], line: number): boolean =>
+  hunks.some((hunk) => line >= hunk.newStart && line < hunk.newStart + hunk.newLines);
+
+/**
+ * Resolve a line reported by the AI into a new-file line.
+ *
+ * The line is first read as a position in the patch text. When that misses a
+ * hunk, it is accepted as a new-file line if it falls inside a hunk's range
+ * (models sometimes count from the `@@` headers instead).
+ */
+export const resolvePatchLine = (
+  lineMap: PatchLineMap,
+  reportedLine: number,
+): ResolvedIssueLine => {
+  const mapping = lineMap.byPatchLine.get(reportedLine);
+  if (mapping) {
+    return { line: mapping.newLine, anchored: true };
+  }
+
+  if (isWithinNewRange(lineMap.hunks, reportedLine)) {
+    return { line: reportedLine, anchored: true };
+  }
+
+  return { line: reportedLine, anchored: false };
+};
+
+/**
+ * Rewrite the issue lines of an audit result to verified new-file lines.
+ * Unanchored issues are kept with `anchored: false` (flag) or removed (drop); issues
+ * already marked unanchored (e.g. outside their chunk) are not resolved again.
+ */
+export const anchorAuditResult = (
+  result: AuditResult,
+  patch: string,
+  mode: UnanchoredIssueMode = "flag",
+): AuditResult => {
+  if (!result.issues || result.issues.length === 0) {
+    return result;
+  }
+
+  const lineMap = parsePatchLineMap(patch);
+  const issues: AuditIssue[] = [];
+
+  for (const issue of result.issues) {
+    const resolved =
+      issue.anchored === false
+        ? { line: issue.line, anchored: false }
+        : resolvePatchLine(lineMap, issue.line);
+    if (!resolved.anchored && mode === "drop") continue;
+    issues.push({
+      ...issue,
+      line: resolved.line,
+      patchLine: issue.line,
+      anchored: resolved.anchored,
+    });
+  }
+
+  if (result.status === "FAIL" && issues.length === 0) {
+    return {
+      ...result,
+      status: "PASS",
+      issues,
+      message: "All reported issues pointed outside the changed lines",
+    };
+  }
+
+  return { ...result, issues };
+};
+
+/**
+ * A piece of an oversized patch, reviewed on its own
+ */
+export interface PatchChunk {
+  content: string;
+  /** Patch lines before this chunk; add it to chunk-relative lines */
+  lineOffset: number;
+}
+
+/** Lines of each hunk, starting at its header; header lines before the first hunk join it */
+const splitHunkSegments = (patch: string): string[][] => {
+  const segments: string[][] = [];
+  for (const line of patch.split("\n")) {
+    const last = segments[segments.length - 1];
+    if (!last || (HUNK_HEADER.test(line) && last.some((entry) => HUNK_HEADER.test(entry)))) {
+      segments.push([line]);
+    } else {
+      last.push(line);
+    }
+  }
+  return segments;
+};
+
+/**
+ * Split a patch into its hunks, each with its position in the patch. File headers
+ * stay with the first hunk; joining the contents with newlines restores the patch.
+ */
+export const splitPatchIntoHunks = (patch: string): PatchChunk[] => {
+  let lineOffset = 0;
+  return splitHunkSegments(patch).map((segment) => {
+    const hunk = { content: segment.join("\n"), lineOffset };
+    lineOffset += segment.length;
+    return hunk;
+  });
+};
+
+/**
+ * Hunk content without the file header lines before its `@@` header: the `index`
+ * line's blob hashes change with every edit anywhere in the file
+ */
+export const stripPatchFileHeader = (hunk: string): string => {
+  const lines = hunk.split("\n");
+  const header = lines.findIndex((line) => HUNK_HEADER.test(line));
+  return header > 0 ? lines.slice(header).join("\n") : hunk;
+};
+
+/**
+ * Hunk content without its header's line numbers, which shift whenever an earlier
+ * hunk of the file grows or shrinks
+ */
+export const stripHunkLineNumbers = (hunk: string): string =>
+  hunk
+    .split("\n")
+    .map((line) => line.replace(HUNK_HEADER, "@@"))
+    .join("\n");
+
+/**
+ * Split a patch into chunks of at most `maxChars`, on hunk boundaries. File headers
+ * stay with the first hunk; a hunk larger than `maxChars` is split on line boundaries.
+ */
+export const splitPatchIntoChunks = (patch: string, maxChars: number): PatchChunk[] => {
+  if (patch.length <= maxChars) return [{ content: patch, lineOffset: 0 }];
+
+  const segments = splitHunkSegments(patch);
+
+  const chunks: PatchChunk[] = [];
+  let current: string[] = [];
+  let lineOffset = 0;
+  const flush = (): void => {
+    if (current.length === 0) return;
+    chunks.push({ content: current.join("\n"), lineOffset });
+    lineOffset += current.length;
+    current = [];
+  };
+
+  for (const segment of segments) {
+    const text = segment.join("\n");
+    if (text.length > maxChars) {
+      flush();
+      for (const piece of chunkFileContent(text, maxChars)) {
+        current = piece.split("\n");
+        flush();
+      }
+      continue;
+    }
+
+    // +1 for the newline joining it to the current chunk
+    if (current.length > 0 && current.join("\n").length + 1 + text.length > maxChars) flush();
+    current.push(...segment);
+  }
+  flush();
+
+  return chunks;
+};
+
+/**
+ * The prompts a chunked review sends for `files`: every chunk of a patch longer than
+ * `maxChars` as its own payload (`path#1`, `path#2`, …); shorter patches stay whole.
+ */
+export const splitFilesIntoPromptPayloads = (
+  files: Array<{ path: string; content: string }>,
+  maxChars: number,
+): Array<{ path: string; content: string }> =>
+  files.flatMap((file) => {
+    const chunks = splitPatchIntoChunks(file.content, maxChars);
+    return chunks.length === 1
+      ? [file]
+      : chunks.map((chunk, index) => ({
+          path: `${file.path}#${index + 1}`,
+          content: chunk.content,
+        }));
+  });
+
+const SEVERITY_RANK: Record<AuditIssue["severity"], number> = { INFO: 0, WARNING: 1, CRITICAL: 2 };
+
+const issueKey = (issue: AuditIssue): string =>
+  `${issue.line}:${issue.message.trim().toLowerCase().replace(/\s+/g, " ")}`;
+
+/**
+ * Merge the results of a chunked review into one result for the whole patch.
+ * Chunk-relative issue lines are offset into the full patch; a line outside its chunk
+ * cannot be placed and is kept with `anchored: false`. Issues repeated on the same
+ * line keep the highest severity. Any failed chunk makes the merged result an
+ * ERROR, with the issues found in the other chunks.
+ */
+export const mergeChunkResults = (
+  chunks: Array<{ chunk: PatchChunk; result: AuditResult }>,
+): AuditResult => {
+  const issues = new Map<string, AuditIssue>();
+  for (const { chunk, result } of chunks) {
+    const chunkLines = chunk.content.split("\n").length;
+    for (const issue of result.issues ?? []) {
+      const merged =
+        issue.line >= 1 && issue.line <= chunkLines
+          ? { ...issue, line: issue.line + chunk.lineOffset }
+          : { ...issue, anchored: false };
+      const existing = issues.get(issueKey(merged));
+      if (!existing || SEVERITY_RANK[merged.severity] > SEVERITY_RANK[existing.severity]) {
+        issues.set(issueKey(merged), merged);
+      }
+    }
+  }
+
+  const distinct = (values: Array<string | undefined>): string | undefined => {
+    const unique = [...new Set(values.filter((value): value is string => !!value?.trim()))];
+    return unique.length > 0 ? unique.join("\n") : undefined;
+  };
+  const merged: AuditResult = {
+    status: chunks.some(({ result }) => result.status === "FAIL") ? "FAIL" : "PASS",
+    issues: [...issues.values()].sort((a, b) => a.line - b.line),
+  };
+
+  const failedIndex = chunks.findIndex(({ result }) => result.status === "ERROR");
+  const failed = chunks[failedIndex]?.result;
+  if (failed) {
+    return {
+      ...merged,
+      status: "ERROR",
+      ...(failed.errorKind && { errorKind: failed.errorKind }),
+      message: `Chunk ${failedIndex + 1} of ${chunks.length}: ${failed.message ?? "review failed"}`,
+    };
+  }
+
+  const message = distinct(chunks.map(({ result }) => result.message));
+  const suggestion = distinct(chunks.map(({ result }) => result.suggestion));
+  return {
+    ...merged,
+    ...(message && { message }),
+    ...(suggestion && { suggestion }),
+  };
+};
@@ -14,5 +14,21 @@ export class ProviderError extends Error {
   readonly name = "ProviderError";
 }
 
+/**
+ * Error response from an AI provider API, with the wait it asked for
+ * (`Retry-After` or rate-limit reset headers) when it sent one
+ */
+export class ProviderHttpError extends Error {
+  readonly name = "ProviderHttpError";
+  readonly status: number;
+  readonly retryAfterMs: number | undefined;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
 export const isTypedError = (error: unknown): error is UserError | SystemError | ProviderError =>
   error instanceof UserError || error instanceof SystemError || error instanceof ProviderError;
@@ -29,6 +29,8 @@ export interface CollectReviewInputOptions {
   maxFiles: number;
   maxDiffLines: number;
   maxCharsPerFile: number;
+  /** Keep patches longer than `maxCharsPerFile` whole, for a chunked review */
+  keepLargePatches?: boolean;
   contextLines?: number;
   filePaths?: string[];
 }
@@ -487,7 +489,15 @@ const getPatchForFile = async (
 export const collectReviewInput = async (
   options: CollectReviewInputOptions,
 ): Promise<CollectReviewInputResult> => {
-  const { target, maxFiles, maxDiffLines, maxCharsPerFile, contextLines = 2, filePaths } = options;
+  const {
+    target,
+    maxFiles,
+    maxDiffLines,
+    maxCharsPerFile,
+    keepLargePatches = false,
+    contextLines = 2,
+    filePaths,
+  } = options;
 
   const skipped: ReviewSkippedItem[] = [];
   const accepted: ReviewInputFile[] = [];
@@ -533,7 +543,7 @@ export const collectReviewInput = async (
 
     let finalPatch = patch;
     let truncated = false;
-    if (finalPatch.length > maxCharsPerFile) {
+    if (finalPatch.length > maxCharsPerFile && !keepLargePatches) {
       finalPatch =
         finalPatch.slice(0, maxCharsPerFile) + "\n\n# [truncated by mp-sentinel maxCharsPerFile]";
       truncated = true;
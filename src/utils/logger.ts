@@ -39,7 +39,7 @@ export const log = {
   file: (msg: string) => write(console.log, `${colors.dim}   ${msg}${colors.reset}`),
 
   // Issue formatting
-  issue: (severity: string, line: number, message: string) => {
+  issue: (severity: string, line: number | string, message: string) => {
     if (quietMode) return;
     const color =
       severity === "CRITICAL" ? colors.red : severity === "WARNING" ? colors.yellow : colors.blue;
@@ -2,7 +2,45 @@
  * Parsing utilities for AI responses
  */
 
-import type { AuditResult } from "../types/index.js";
+import type { AuditIssue, AuditResult, IssueAgreement, IssueVerdict } from "../types/index.js";
+import {
+  AUDIT_BATCH_RESULT_SCHEMA,
+  AUDIT_RESULT_SCHEMA,
+  type JsonSchema,
+  type StructuredOutputSchema,
+} from "../config/audit-schema.js";
+
+/**
+ * A structured-output response that does not match its JSON schema.
+ * Kept apart from provider/network errors so reports can tell them apart.
+ */
+export class SchemaValidationError extends Error {
+  readonly name = "SchemaValidationError";
+
+  constructor(
+    message: string,
+    readonly violations: string[],
+  ) {
+    super(message);
+  }
+}
+
+/** Verification confidence, from 0 to 1 */
+const isConfidence = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+
+/** Ensemble agreement: the models that reported an issue, out of those that reviewed the file */
+const isAgreement = (value: unknown): value is IssueAgreement => {
+  if (!value || typeof value !== "object") return false;
+  const { models, total } = value as Partial<IssueAgreement>;
+  return (
+    Array.isArray(models) &&
+    models.every((model) => typeof model === "string") &&
+    typeof total === "number" &&
+    Number.isInteger(total) &&
+    total > 0
+  );
+};
 
 const normalizeAuditResult = (value: AuditResult): AuditResult => {
   const status = value.status;
@@ -21,7 +59,7 @@ const normalizeAuditResult = (value: AuditResult): AuditResult => {
   const normalizedIssues = value.issues
     .filter((issue) => issue && typeof issue.message === "string")
     .map((issue) => {
-      const normalizedIssue = {
+      const normalizedIssue: AuditIssue = {
         line: typeof issue.line === "number" && issue.line > 0 ? issue.line : 1,
         severity:
           issue.severity === "CRITICAL" || issue.severity === "WARNING" || issue.severity === "INFO"
@@ -31,11 +69,22 @@ const normalizeAuditResult = (value: AuditResult): AuditResult => {
       };
 
       if (typeof issue.suggestion === "string" && issue.suggestion.length > 0) {
-        return {
-          ...normalizedIssue,
-          suggestion: issue.suggestion,
+        normalizedIssue.suggestion = issue.suggestion;
+      }
+      // Set by the ensemble and verification passes; cached results must read back the same
+      if (isAgreement(issue.agreement)) {
+        normalizedIssue.agreement = {
+          models: issue.agreement.models,
+          total: issue.agreement.total,
         };
       }
+      if (isConfidence(issue.confidence)) {
+        normalizedIssue.confidence = issue.confidence;
+      }
+      // Issues a chunked review could not place stay unplaced when read back from the cache
+      if (issue.anchored === false) {
+        normalizedIssue.anchored = false;
+      }
 
       return normalizedIssue;
     });
@@ -54,32 +103,219 @@ export const cleanJSON = (text: string): string => {
 };
 
 /**
- * Parse AI response to AuditResult with error handling
+ * Parse a JSON object from free text, tolerating code fences and surrounding prose
  */
-export const parseAuditResponse = (responseText: string): AuditResult => {
+const parseLenientJson = (responseText: string): unknown => {
   const cleaned = cleanJSON(responseText);
 
   try {
-    const parsed = JSON.parse(cleaned) as AuditResult;
-    return normalizeAuditResult(parsed);
+    return JSON.parse(cleaned);
   } catch {
     // Try to extract JSON from the response
     const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
     if (jsonMatch) {
       try {
-        const parsed = JSON.parse(jsonMatch[0]) as AuditResult;
-        return normalizeAuditResult(parsed);
+        return JSON.parse(jsonMatch[0]);
       } catch {
-        // Fall through to error response
+        // Fall through to undefined
       }
     }
+    return undefined;
+  }
+};
 
+/**
+ * Parse AI response to AuditResult with error handling
+ */
+export const parseAuditResponse = (responseText: string): AuditResult => {
+  const parsed = parseLenientJson(responseText);
+  if (parsed === undefined) {
     return {
       status: "ERROR",
       message: "Failed to parse AI response",
       issues: [],
     };
   }
+  return normalizeAuditResult(parsed as AuditResult);
+};
+
+/**
+ * Map a path returned by the AI to one of the requested paths: an exact match,
+ * else the only requested path that ends with it (models sometimes shorten paths).
+ */
+const matchBatchPath = (returned: unknown, paths: string[]): string | undefined => {
+  if (typeof returned !== "string" || returned === "") return undefined;
+  if (paths.includes(returned)) return returned;
+
+  const suffix = returned.replace(/^\.?\//, "");
+  const candidates = paths.filter((path) => path === suffix || path.endsWith(`/${suffix}`));
+  return candidates.length === 1 ? candidates[0] : undefined;
+};
+
+/**
+ * Split a batch response into per-file results, keyed by requested path.
+ * Files the response does not cover are absent from the map.
+ */
+export const parseBatchAuditResponse = (
+  responseText: string,
+  paths: string[],
+): Map<string, AuditResult> => {
+  const results = new Map<string, AuditResult>();
+  const parsed = parseLenientJson(responseText) as { files?: unknown } | undefined;
+  if (!parsed || !Array.isArray(parsed.files)) {
+    return results;
+  }
+
+  for (const entry of parsed.files as Array<AuditResult & { path?: unknown }>) {
+    const path = matchBatchPath(entry?.path, paths);
+    if (!path || results.has(path)) continue;
+    const { path: _path, ...result } = entry;
+    results.set(path, normalizeAuditResult(result));
+  }
+  return results;
+};
+
+/**
+ * Parse verification verdicts keyed by issue index. Malformed verdicts are left out,
+ * so their issues stay unverified; a missing confidence follows `confirmed`.
+ */
+export const parseVerificationResponse = (responseText: string): Map<number, IssueVerdict> => {
+  const verdicts = new Map<number, IssueVerdict>();
+  const parsed = parseLenientJson(responseText) as { verdicts?: unknown } | undefined;
+  if (!parsed || !Array.isArray(parsed.verdicts)) {
+    return verdicts;
+  }
+
+  for (const entry of parsed.verdicts as Array<Record<string, unknown> | null>) {
+    if (!entry || !Number.isInteger(entry.index) || typeof entry.confirmed !== "boolean") continue;
+    const confidence =
+      typeof entry.confidence === "number" && Number.isFinite(entry.confidence)
+        ? Math.min(1, Math.max(0, entry.confidence))
+        : entry.confirmed
+          ? 1
+          : 0;
+    verdicts.set(entry.index as number, { confirmed: entry.confirmed, confidence });
+  }
+  return verdicts;
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: JsonSchema["type"]): boolean => {
+  const actual = describeType(value);
+  return actual === type || (type === "number" && actual === "integer");
+};
+
+/**
+ * Validate `value` against a JSON schema. Returns one `path: problem` entry per violation.
+ */
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, path = "$"): string[] => {
+  if (!matchesType(value, schema.type)) {
+    return [`${path}: expected ${schema.type}, got ${describeType(value)}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path}: expected one of ${schema.enum.join(", ")}, got ${JSON.stringify(value)}`];
+  }
+
+  if (schema.type === "array" && schema.items) {
+    const items = schema.items;
+    return (value as unknown[]).flatMap((item, index) =>
+      validateJsonSchema(item, items, `${path}[${index}]`),
+    );
+  }
+
+  if (schema.type !== "object") {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+  const properties = schema.properties ?? {};
+  const violations: string[] = [];
+
+  for (const key of schema.required ?? []) {
+    if (!(key in record)) violations.push(`${path}.${key}: required property is missing`);
+  }
+  for (const [key, propertyValue] of Object.entries(record)) {
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      violations.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+    } else if (schema.additionalProperties === false) {
+      violations.push(`${path}.${key}: unexpected property`);
+    }
+  }
+  return violations;
+};
+
+const parseSchemaJson = (responseText: string, schema: StructuredOutputSchema): unknown => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch {
+    throw new SchemaValidationError("AI response is not valid JSON", ["$: not valid JSON"]);
+  }
+
+  const violations = validateJsonSchema(parsed, schema.schema);
+  if (violations.length > 0) {
+    throw new SchemaValidationError(
+      `AI response does not match the ${schema.name} schema: ${violations.slice(0, 3).join("; ")}`,
+      violations,
+    );
+  }
+  return parsed;
+};
+
+const fromStructuredResult = (parsed: AuditResult): AuditResult => {
+  // Empty strings stand in for absent optional fields
+  const { status, message, suggestion, issues } = parsed as Required<AuditResult>;
+  return {
+    status,
+    issues: issues.map(
+      ({ suggestion: issueSuggestion, ...issue }): AuditIssue => ({
+        ...issue,
+        // The schema allows any integer; lines are 1-based like the lenient path's
+        line: issue.line > 0 ? issue.line : 1,
+        ...(issueSuggestion && { suggestion: issueSuggestion }),
+      }),
+    ),
+    ...(message && { message }),
+    ...(suggestion && { suggestion }),
+  };
+};
+
+/**
+ * Parse a structured-output response. Unlike `parseAuditResponse`, nothing is
+ * cleaned up or guessed: the text must be JSON matching the schema exactly.
+ * Throws SchemaValidationError otherwise.
+ */
+export const parseStructuredAuditResponse = (
+  responseText: string,
+  schema: StructuredOutputSchema = AUDIT_RESULT_SCHEMA,
+): AuditResult => fromStructuredResult(parseSchemaJson(responseText, schema) as AuditResult);
+
+/**
+ * Strict counterpart of `parseBatchAuditResponse` for structured-output batch responses.
+ * Throws SchemaValidationError when the response does not match the schema.
+ */
+export const parseStructuredBatchAuditResponse = (
+  responseText: string,
+  paths: string[],
+  schema: StructuredOutputSchema = AUDIT_BATCH_RESULT_SCHEMA,
+): Map<string, AuditResult> => {
+  const { files } = parseSchemaJson(responseText, schema) as {
+    files: Array<AuditResult & { path: string }>;
+  };
+  const results = new Map<string, AuditResult>();
+  for (const { path: returned, ...result } of files) {
+    const path = matchBatchPath(returned, paths);
+    if (path && !results.has(path)) results.set(path, fromStructuredResult(result));
+  }
+  return results;
 };
 
 /**
@@ -4,6 +4,10 @@
  */
 
 import { log } from "./logger.js";
+import { ProviderHttpError } from "./errors.js";
+
+/** Longest server-requested wait honoured by default, in retries and in the scheduler */
+export const DEFAULT_MAX_RETRY_AFTER_MS = 60_000;
 
 export interface RetryOptions {
   /** Maximum number of attempts (default: 3) */
@@ -12,6 +16,13 @@ export interface RetryOptions {
   baseDelayMs?: number;
   /** Maximum delay cap in milliseconds (default: 10000) */
   maxDelayMs?: number;
+  /**
+   * Longest server-requested wait (`Retry-After`) to honour; a longer one fails
+   * the call so the fallback chain can take over (default: 60000)
+   */
+  maxRetryAfterMs?: number;
+  /** Called before each retry with the error and the chosen delay */
+  onRetry?: (error: unknown, delayMs: number) => void;
 }
 
 /**
@@ -28,9 +39,66 @@ export const isRetryableError = (error: unknown): boolean => {
   );
 };
 
+/** Whether `error` is an HTTP 429 (rate limit) from a provider */
+export const isRateLimitError = (error: unknown): boolean =>
+  error instanceof ProviderHttpError
+    ? error.status === 429
+    : error instanceof Error && error.message.includes("429");
+
+/** `1s`, `6m0s`, `250ms` (OpenAI rate-limit reset headers) → milliseconds */
+const parseResetDuration = (value: string): number | undefined => {
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0) return undefined;
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  return parts.reduce(
+    (acc, [, amount, unit]) => acc + Number(amount) * (unitMs[unit ?? ""] ?? 0),
+    0,
+  );
+};
+
+/**
+ * Wait requested by a provider response, in milliseconds: `retry-after-ms`,
+ * `Retry-After` (seconds or an HTTP date), else the latest rate-limit reset
+ * (`x-ratelimit-reset-*` durations, `anthropic-ratelimit-*-reset` timestamps).
+ * Resets of exhausted buckets (remaining `0`) take precedence over the others.
+ */
+export const parseRetryAfter = (headers: Headers, now: number = Date.now()): number | undefined => {
+  const retryAfterMs = Number(headers.get("retry-after-ms") ?? NaN);
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs;
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const resets: Array<{ wait: number; exhausted: boolean }> = [];
+  headers.forEach((value, name) => {
+    const openai = /^x-ratelimit-reset-(.+)$/.exec(name);
+    const anthropic = /^anthropic-ratelimit-(.+)-reset$/.exec(name);
+    if (openai) {
+      const wait = parseResetDuration(value);
+      const remaining = headers.get(`x-ratelimit-remaining-${openai[1]}`);
+      if (wait !== undefined) resets.push({ wait, exhausted: remaining?.trim() === "0" });
+    } else if (anthropic) {
+      const date = Date.parse(value);
+      const remaining = headers.get(`anthropic-ratelimit-${anthropic[1]}-remaining`);
+      if (!Number.isNaN(date)) {
+        resets.push({ wait: Math.max(0, date - now), exhausted: remaining?.trim() === "0" });
+      }
+    }
+  });
+  const exhausted = resets.filter((reset) => reset.exhausted);
+  const relevant = exhausted.length > 0 ? exhausted : resets;
+  return relevant.length > 0 ? Math.max(...relevant.map((reset) => reset.wait)) : undefined;
+};
+
 /**
  * Execute `fn` with automatic retries on transient errors.
- * Uses exponential backoff with random jitter to avoid thundering-herd.
+ * Uses exponential backoff with random jitter to avoid thundering-herd,
+ * or the wait the provider asked for when its error carries one.
  *
  * @example
  * const result = await withRetry(() => provider.generateContent(prompt, user), { maxAttempts: 3 });
@@ -39,7 +107,12 @@ export const withRetry = async <T>(
   fn: () => Promise<T>,
   options: RetryOptions = {},
 ): Promise<T> => {
-  const { maxAttempts = 3, baseDelayMs = 500, maxDelayMs = 10_000 } = options;
+  const {
+    maxAttempts = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 10_000,
+    maxRetryAfterMs = DEFAULT_MAX_RETRY_AFTER_MS,
+  } = options;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
@@ -50,7 +123,15 @@ export const withRetry = async <T>(
         throw error;
       }
 
-      const delay = Math.min(baseDelayMs * 2 ** (attempt - 1) + Math.random() * 100, maxDelayMs);
+      const retryAfterMs = error instanceof ProviderHttpError ? error.retryAfterMs : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > maxRetryAfterMs) {
+        throw error;
+      }
+
+      const delay =
+        retryAfterMs ??
+        Math.min(baseDelayMs * 2 ** (attempt - 1) + Math.random() * 100, maxDelayMs);
+      options.onRetry?.(error, delay);
       log.warning(`Attempt ${attempt}/${maxAttempts} failed. Retrying in ${Math.round(delay)}ms…`);
       await new Promise<void>((resolve) => setTimeout(resolve, delay));
     }
@@ -107,11 +107,14 @@ export const warnIfTokenLimitExceeded = (total: number, limit: number, warnAt =
  * @param files        File payloads to estimate
  * @param tokenLimit   Provider context-window limit
  * @param systemPrompt Optional system prompt to include in the estimate
+ * @param perPrompt    Each payload is sent in its own prompt (chunked review): the limit
+ *                     applies to the largest payload plus the system prompt, not the total
  */
 export const generatePayloadSummary = async (
   files: Array<{ path: string; content: string }>,
   tokenLimit: number,
   systemPrompt?: string,
+  perPrompt = false,
 ): Promise<{ exceeded: boolean; total: number }> => {
   const { total: fileTokens, perFile } = await estimatePayloadTokens(files);
 
@@ -139,8 +142,13 @@ export const generatePayloadSummary = async (
     }
   }
 
-  const exceeded = warnIfTokenLimitExceeded(total, tokenLimit);
-  return { exceeded, total };
+  if (!perPrompt) {
+    return { exceeded: warnIfTokenLimitExceeded(total, tokenLimit), total };
+  }
+
+  const largestPrompt = Math.max(0, ...perFile.map((f) => f.tokens)) + systemPromptTokens;
+  log.info(`Largest prompt: ~${largestPrompt.toLocaleString()} tokens`);
+  return { exceeded: warnIfTokenLimitExceeded(largestPrompt, tokenLimit), total };
 };
 
 /**